@@ -1,11 +1,52 @@
 
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import FactModal from './components/FactModal';
-import { Category, GameState, ScoreBoard, QuizData } from './types';
-import { fetchTopicContent, fetchTriviaImage, fetchTriviaAudio } from './services/geminiService';
-import { Shuffle, Trophy, Maximize2, BookOpen, BrainCircuit, ArrowLeft } from 'lucide-react';
+import Dartboard from './components/Dartboard';
+import FactPackImport from './components/FactPackImport';
+import HistoryBrowser from './components/HistoryBrowser';
+import ScoreBoardPanel from './components/ScoreBoardPanel';
+import PlayerSetup from './components/PlayerSetup';
+import TurnIndicator from './components/TurnIndicator';
+import Podium from './components/Podium';
+import QuizRound from './components/QuizRound';
+import CategoryManager from './components/CategoryManager';
+import CategoryIcon from './components/CategoryIcon';
+import RadioPlayer from './components/RadioPlayer';
+import AmbientSlideshow from './components/AmbientSlideshow';
+import { categoryName, getCategories } from './services/categories';
+import { Category, CategoryDefinition, DartHit, Language, NarrationSettings, NarrationVoice, Difficulty, DifficultySetting, GameMode, GameSession, GameState, ScoreBoard, QuizAnswerRecord, QuizAnswerResult, QuizData, QuizKind, QuizKindSetting, QuizRoundQuestion, TopicSource, FactCheck } from './types';
+import { fetchQuizRound, fetchTopicContent, fetchTriviaImage, fetchTriviaAudio } from './services/contentProvider';
+import { drawFromFactPacks } from './services/factPackService';
+import { createPrefetchQueue, getPrefetchOptionsFromEnv, PreparedTopic } from './services/prefetchQueue';
+import { addHistoryEntry, loadScores, recordAnswer, saveScores, updateHistoryEntry } from './services/historyStore';
+import { applyAnswer, categoryScore, emptyScoreBoard, pointsForAnswer, refundAnswer, withoutCategory } from './services/scoreBoard';
+import { reportDispute } from './services/disputes';
+import { rememberTopic } from './services/topicMemory';
+import { loadPreference, savePreference } from './services/preferences';
+import { QUIZ_KINDS, formatCorrectAnswer, quizKindLabel, resolveQuizKind } from './services/quizFormats';
+import { DEFAULT_DIFFICULTY, DIFFICULTIES, difficultyLabel, resolveDifficulty } from './services/difficulty';
+import { LANGUAGES, LANGUAGE_LABELS, MessageKey, getLanguage, setLanguage, t } from './services/i18n';
+import { NARRATION_VOICES, getNarrationSettings, updateNarrationSettings } from './services/narration';
+import { Slide } from './services/slideshow';
+import { createSession, currentPlayer, endTurn, isFinalChallenge, refundCurrentAnswer, scoreAnswer } from './services/gameSession';
+import { Shuffle, Maximize2, BookOpen, BrainCircuit, ArrowLeft, History, LayoutGrid, Target, Users, Timer, ListChecks, Gauge, HelpCircle, Tags, Languages, Volume2 } from 'lucide-react';
 
-const CATEGORIES = Object.values(Category) as Category[];
+// Countdown choices in seconds; null plays without a clock
+const TIMER_OPTIONS: (number | null)[] = [null, 10, 20, 30];
+const DIFFICULTY_OPTIONS: DifficultySetting[] = [...DIFFICULTIES, 'adaptive'];
+const QUIZ_KIND_OPTIONS: QuizKindSetting[] = ['mixed', ...QUIZ_KINDS];
+
+// How an answer is kept in the history
+const answerRecord = (quiz: QuizData, result: QuizAnswerResult, points: number): QuizAnswerRecord => ({
+  chosenOption: result.chosenOption ?? '',
+  correctAnswer: formatCorrectAnswer(quiz),
+  isCorrect: result.isCorrect,
+  accuracy: result.accuracy,
+  answeredAt: Date.now(),
+  responseTimeMs: result.responseTimeMs ?? undefined,
+  timedOut: result.timedOut,
+  points,
+});
 
 const App: React.FC = () => {
   const [gameState, setGameState] = useState<GameState>(GameState.IDLE);
@@ -16,6 +57,8 @@ const App: React.FC = () => {
   const [currentQuiz, setCurrentQuiz] = useState<QuizData | null>(null);
   const [currentImage, setCurrentImage] = useState<string | null>(null);
   const [currentAudio, setCurrentAudio] = useState<string | null>(null);
+  const [currentSource, setCurrentSource] = useState<TopicSource | null>(null);
+  const [currentCheck, setCurrentCheck] = useState<FactCheck | null>(null);
   
   const [modalOpen, setModalOpen] = useState(false);
   const [initialModalView, setInitialModalView] = useState<'fact' | 'quiz'>('fact');
@@ -23,20 +66,141 @@ const App: React.FC = () => {
   
   // Ambient Mode State
   const [isAmbientMode, setIsAmbientMode] = useState(false);
+  // The topic on screen opens the slideshow, provided there is a picture for it
+  const currentSlide: Slide | null = currentCategory && currentFact && currentImage
+    ? { key: 'current', category: currentCategory, fact: currentFact, quiz: currentQuiz, image: currentImage, audio: currentAudio, source: currentSource ?? undefined }
+    : null;
+
+  // Pick categories from the grid, or throw darts at the board
+  const [playMode, setPlayMode] = useState<'grid' | 'board'>('grid');
+  // The dart that selected the current topic; its zone multiplies the score (bullseye = joker)
+  const [roundHit, setRoundHit] = useState<DartHit | null>(null);
+
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+
+  // Optional countdown per quiz question, remembered between visits
+  const [timeLimit, setTimeLimit] = useState<number | null>(() => loadPreference<number | null>('quizTimer', null));
+  const [awardedPoints, setAwardedPoints] = useState<number | null>(null);
+
+  useEffect(() => savePreference('quizTimer', timeLimit), [timeLimit]);
+
+  // Question difficulty, fixed or adapted per category to the active scoreboard
+  const [difficulty, setDifficulty] = useState<DifficultySetting>(() => loadPreference<DifficultySetting>('difficulty', 'adaptive'));
+
+  useEffect(() => savePreference('difficulty', difficulty), [difficulty]);
+
+  // Question format for new topics
+  const [quizKindSetting, setQuizKindSetting] = useState<QuizKindSetting>(() => loadPreference<QuizKindSetting>('quizKind', 'choice'));
+
+  useEffect(() => savePreference('quizKind', quizKindSetting), [quizKindSetting]);
+
+  // Quiz round: a batch of questions played back to back; null questions means not requested yet
+  const [isQuizRoundOpen, setIsQuizRoundOpen] = useState(false);
+  const [roundQuestions, setRoundQuestions] = useState<QuizRoundQuestion[] | null>(null);
+  const [isRoundLoading, setIsRoundLoading] = useState(false);
+  // Whether the open round scored anything, so closing it only then ends the player's turn
+  const roundAnsweredRef = useRef(false);
+  // Bumped per request and on close, so a late batch doesn't land in a closed or newer round
+  const roundRequestRef = useRef(0);
+
+  // Narration voice and auto-play; the speed is set in the player itself
+  const [narration, setNarration] = useState<NarrationSettings>(getNarrationSettings);
+
+  // Interface and content language; switching re-renders everything with the new messages
+  const [language, setLanguageState] = useState<Language>(getLanguage);
+
+  // Built-in and user-defined categories, re-read after the category manager changes them
+  const [categories, setCategories] = useState<CategoryDefinition[]>(getCategories);
+  const [isCategoryManagerOpen, setIsCategoryManagerOpen] = useState(false);
+
+  // Pass-and-play multiplayer; null means solo play on the persisted scoreboard
+  const [session, setSession] = useState<GameSession | null>(null);
+  const [isPlayerSetupOpen, setIsPlayerSetupOpen] = useState(false);
+  // Names and rounds of the last game, for "Nog een potje"
+  const lastSetupRef = useRef<{ names: string[]; rounds: number; mode: GameMode } | null>(null);
+
+  // Scoreboard: { Category: { correct: 0, wrong: 0 } }, persisted in IndexedDB
+  const [scores, setScores] = useState<ScoreBoard>(emptyScoreBoard);
+  const [scoresLoaded, setScoresLoaded] = useState(false);
+
+  // History id of the topic currently shown, resolved once IndexedDB has stored it
+  const historyIdRef = useRef<Promise<number | null> | null>(null);
+  // The scored answer to the topic currently shown, kept so a "Meld fout" report can refund it
+  const lastAnswerRef = useRef<{ category: Category; result: QuizAnswerResult; points: number } | null>(null);
 
-  // Scoreboard: { Category: { correct: 0, wrong: 0 } }
-  const [scores, setScores] = useState<ScoreBoard>(() => {
-    const initial: any = {};
-    CATEGORIES.forEach(c => initial[c] = { correct: 0, wrong: 0 });
-    return initial;
-  });
+  const reloadScores = () => {
+    loadScores().then(stored => {
+        setScores(stored);
+        setScoresLoaded(true);
+    });
+  };
+
+  useEffect(reloadScores, []);
+
+  useEffect(() => {
+    // Don't overwrite the stored board with the empty one before it has loaded
+    if (scoresLoaded) saveScores(scores);
+  }, [scores, scoresLoaded]);
+
+  const recordShown = (category: Category, fact: string, quiz: QuizData | null, image: string | null, source?: TopicSource) => {
+    const idPromise = addHistoryEntry({ timestamp: Date.now(), category, fact, quiz, image, ...(source ? { source } : {}) });
+    historyIdRef.current = idPromise;
+    return idPromise;
+  };
+
+  // Background queue of ready-to-play topics
+  // The queue outlives renders, so it reads the difficulty and question format through these refs
+  const difficultyForRef = useRef<(category: Category) => Difficulty>(() => DEFAULT_DIFFICULTY);
+  const quizKindSettingRef = useRef(quizKindSetting);
+  quizKindSettingRef.current = quizKindSetting;
+  const [prefetchQueue] = useState(() =>
+    createPrefetchQueue(
+      () => getCategories().map(c => c.id),
+      getPrefetchOptionsFromEnv(),
+      category => difficultyForRef.current(category),
+      () => quizKindSettingRef.current
+    )
+  );
+
+  useEffect(() => {
+    prefetchQueue.start();
+    return () => prefetchQueue.stop();
+  }, [prefetchQueue]);
+
+  const showPreparedTopic = (topic: PreparedTopic, view: 'fact' | 'quiz', hit: DartHit | null = null) => {
+    setIsAmbientMode(false);
+    setRoundHit(hit);
+    setCurrentCategory(topic.category);
+    setInitialModalView(view);
+    setCurrentFact(topic.content.fact);
+    setCurrentQuiz(topic.content.quiz);
+    setCurrentImage(topic.image);
+    setCurrentAudio(topic.audio);
+    setCurrentSource(topic.content.source ?? null);
+    setCurrentCheck(topic.content.check ?? null);
+    setIsAssetsLoading(false);
+    setGameState(GameState.SHOWING_CONTENT);
+    setModalOpen(true);
+    rememberTopic(topic.category, topic.content);
+    recordShown(topic.category, topic.content.fact, topic.content.quiz, topic.image, topic.content.source);
+  };
+
+  const handleCategorySelect = async (category: Category, view: 'fact' | 'quiz' = 'fact', hit: DartHit | null = null) => {
+    const fixedKind: QuizKind | undefined = quizKindSetting === 'mixed' ? undefined : quizKindSetting;
+    const prepared = prefetchQueue.take(category, difficultyFor(category), fixedKind);
+    if (prepared) {
+        showPreparedTopic(prepared, view, hit);
+        return;
+    }
+    setRoundHit(hit);
 
-  const handleCategorySelect = async (category: Category, view: 'fact' | 'quiz' = 'fact') => {
     // Reset States
     setCurrentFact(null);
     setCurrentQuiz(null);
     setCurrentImage(null);
     setCurrentAudio(null);
+    setCurrentSource(null);
+    setCurrentCheck(null);
     setIsAssetsLoading(false);
     
     // Exit ambient mode if entering a new topic
@@ -48,12 +212,16 @@ const App: React.FC = () => {
     setModalOpen(true);
     
     // Fetch combined content
-    const content = await fetchTopicContent(category);
+    const content = await fetchTopicContent(category, difficultyFor(category), resolveQuizKind(quizKindSetting));
     
     if (content) {
         setCurrentFact(content.fact);
         setCurrentQuiz(content.quiz);
+        setCurrentSource(content.source ?? null);
+        setCurrentCheck(content.check ?? null);
         setGameState(GameState.SHOWING_CONTENT);
+        rememberTopic(category, content);
+        const historyId = recordShown(category, content.fact, content.quiz, null, content.source);
         
         // Start background loading of assets
         setIsAssetsLoading(true);
@@ -64,87 +232,179 @@ const App: React.FC = () => {
             setCurrentImage(img);
             setCurrentAudio(audio);
             setIsAssetsLoading(false);
+            if (img) historyId.then(id => id !== null && updateHistoryEntry(id, { image: img }));
         });
     } else {
-        // Fallback
-        setCurrentFact(`Excuses, we konden geen informatie vinden over ${category}. Probeer het nog eens.`);
+        // Fallback: curated offline packs, and only then the apology
+        const packEntry = drawFromFactPacks(category);
+        if (packEntry) {
+            setCurrentFact(packEntry.fact);
+            setCurrentQuiz(packEntry.quiz);
+            setCurrentImage(packEntry.image ?? null);
+            setCurrentAudio(packEntry.audio ?? null);
+            setCurrentSource(packEntry.source ?? null);
+            setGameState(GameState.SHOWING_CONTENT);
+            recordShown(category, packEntry.fact, packEntry.quiz, packEntry.image ?? null, packEntry.source);
+            return;
+        }
+        historyIdRef.current = null;
+        setCurrentFact(t('app.noContent', { category: categoryName(category) }));
         setGameState(GameState.SHOWING_CONTENT);
     }
   };
 
   const handleRandom = () => {
-      const randomCat = CATEGORIES[Math.floor(Math.random() * CATEGORIES.length)];
-      handleCategorySelect(randomCat, 'fact');
+      // Prefer whatever is already prepared so the surprise opens instantly
+      const prepared = prefetchQueue.takeAny();
+      if (prepared) {
+          showPreparedTopic(prepared, 'fact');
+          return;
+      }
+      const randomCat = categories[Math.floor(Math.random() * categories.length)];
+      handleCategorySelect(randomCat.id, 'fact');
+  };
+
+  const handleDartHit = (hit: DartHit) => {
+    if (hit.segment) handleCategorySelect(hit.segment, 'fact', hit);
   };
 
-  const handleQuizAnswer = (isCorrect: boolean) => {
+  const scoreMultiplier = roundHit?.multiplier ?? 1;
+
+  const handleQuizAnswer = (result: QuizAnswerResult) => {
     if (!currentCategory) return;
+
+    const points = pointsForAnswer(result, categoryScore(activeScores, currentCategory).streak, scoreMultiplier);
+    setAwardedPoints(points);
+    lastAnswerRef.current = { category: currentCategory, result, points };
+
+    if (currentQuiz) {
+        const answer = answerRecord(currentQuiz, result, points);
+        historyIdRef.current?.then(id => id !== null && recordAnswer(id, answer));
+    }
     
-    setScores(prev => ({
-        ...prev,
-        [currentCategory]: {
-            correct: prev[currentCategory].correct + (isCorrect ? 1 : 0),
-            wrong: prev[currentCategory].wrong + (isCorrect ? 0 : 1)
-        }
-    }));
+    if (session) {
+        setSession(prev => prev && scoreAnswer(prev, currentCategory, result, scoreMultiplier));
+    } else {
+        setScores(prev => applyAnswer(prev, currentCategory, result, scoreMultiplier));
+    }
+  };
+
+  // Keep a wrong fact out of play and take back whatever its answer scored; returns the refunded points
+  const handleReportFact = (reason: string): number => {
+    if (!currentCategory || !currentFact) return 0;
+
+    reportDispute(currentCategory, currentFact, currentQuiz, reason);
+    historyIdRef.current?.then(id => id !== null && updateHistoryEntry(id, { disputed: true }));
+
+    const answer = lastAnswerRef.current;
+    lastAnswerRef.current = null;
+    if (!answer) return 0;
+
+    if (session) {
+        setSession(prev => prev && refundCurrentAnswer(prev, answer.category, answer.result, answer.points));
+    } else {
+        setScores(prev => refundAnswer(prev, answer.category, answer.result, answer.points));
+    }
+    setAwardedPoints(null);
+    return answer.points;
   };
 
   const handleCloseModal = () => {
+    lastAnswerRef.current = null;
     setModalOpen(false);
+    setAwardedPoints(null);
     setGameState(GameState.IDLE);
+    // Closing the topic hands the screen to the next player
+    if (session) setSession(prev => prev && endTurn(prev));
+  };
+
+  const handleStartRound = async (categories: Category[], count: number) => {
+    const request = ++roundRequestRef.current;
+    setRoundQuestions(null);
+    setIsRoundLoading(true);
+    const questions = await fetchQuizRound(categories, count);
+    if (request !== roundRequestRef.current) return;
+    setRoundQuestions(questions);
+    setIsRoundLoading(false);
   };
 
-  // Helper for grid colors
-  const getCategoryColor = (cat: Category) => {
-    switch(cat) {
-        case Category.HISTORY: return 'bg-red-700 border-red-900';
-        case Category.SCIENCE: return 'bg-blue-700 border-blue-900';
-        case Category.NATURE: return 'bg-emerald-700 border-emerald-900';
-        case Category.SPORTS: return 'bg-orange-600 border-orange-800';
-        case Category.ART: return 'bg-purple-700 border-purple-900';
-        case Category.TECH: return 'bg-cyan-700 border-cyan-900';
-        case Category.GEOGRAPHY: return 'bg-yellow-600 border-yellow-800';
-        case Category.ENTERTAINMENT: return 'bg-pink-600 border-pink-800';
-        default: return 'bg-gray-700';
+  const handleRoundAnswer = (question: QuizRoundQuestion, result: QuizAnswerResult): number => {
+    roundAnsweredRef.current = true;
+    const points = pointsForAnswer(result, categoryScore(activeScores, question.category).streak);
+    // Round questions come without a fact; the explanation stands in for it in the history
+    addHistoryEntry({
+        timestamp: Date.now(),
+        category: question.category,
+        fact: `- ${categoryName(question.category)} - \n\n${question.quiz.explanation}`,
+        quiz: question.quiz,
+        image: null,
+        answer: answerRecord(question.quiz, result, points),
+    });
+    if (session) {
+        setSession(prev => prev && scoreAnswer(prev, question.category, result));
+    } else {
+        setScores(prev => applyAnswer(prev, question.category, result));
     }
+    return points;
+  };
+
+  const handleCloseRound = () => {
+    roundRequestRef.current++;
+    setIsQuizRoundOpen(false);
+    setRoundQuestions(null);
+    setIsRoundLoading(false);
+    // A played round counts as the player's turn
+    if (session && roundAnsweredRef.current) setSession(prev => prev && endTurn(prev));
+    roundAnsweredRef.current = false;
+  };
+
+  const handleStartSession = (names: string[], rounds: number, mode: GameMode) => {
+    lastSetupRef.current = { names, rounds, mode };
+    setSession(createSession(names, rounds, mode));
+    setIsPlayerSetupOpen(false);
+  };
+
+  const handlePlayAgain = () => {
+    const last = lastSetupRef.current;
+    setSession(last ? createSession(last.names, last.rounds, last.mode) : null);
+  };
+
+  const activeScores = session ? currentPlayer(session).scores : scores;
+  const difficultyFor = (category: Category) => resolveDifficulty(difficulty, activeScores, category);
+  difficultyForRef.current = difficultyFor;
+  // Stays set after the winning answer, so the modal keeps its final-challenge framing until closed
+  const finalChallenge = session ? isFinalChallenge(session) || session.winnerId === currentPlayer(session).id : false;
+
+  // Built-in category names change with the language, and prepared topics are in the old one
+  const handleLanguageChange = (next: Language) => {
+    setLanguage(next);
+    setLanguageState(next);
+    setCategories(getCategories());
+    prefetchQueue.clear();
+  };
+
+  useEffect(() => {
+    document.documentElement.lang = language;
+  }, [language]);
+
+  // A removed category takes its scores along, for the solo board and every player in a game
+  const handleCategoriesChanged = (removed?: Category) => {
+    setCategories(getCategories());
+    if (!removed) return;
+    setScores(prev => withoutCategory(prev, removed));
+    setSession(prev => prev && { ...prev, players: prev.players.map(p => ({ ...p, scores: withoutCategory(p.scores, removed) })) });
   };
 
   return (
-    <div className="min-h-screen wood-bg flex flex-col relative pb-8 transition-all">
+    <div className="min-h-screen wood-bg flex flex-col relative pb-40 md:pb-28 transition-all">
       
       {/* AMBIENT MODE OVERLAY */}
-      {isAmbientMode && currentImage && (
-        <div className="fixed inset-0 z-40 bg-black animate-fade-in">
-            <img 
-                src={currentImage} 
-                alt="Fullscreen Atmosphere" 
-                className="w-full h-full object-cover opacity-80"
-            />
-            <div className="absolute inset-0 bg-gradient-to-b from-black/60 via-transparent to-black/90 pointer-events-none"></div>
-            
-            {/* Ambient Controls */}
-            <div className="absolute top-0 left-0 right-0 p-6 flex justify-between items-start z-50">
-                <button 
-                    onClick={() => setIsAmbientMode(false)}
-                    className="flex items-center gap-2 bg-white/10 hover:bg-white/20 backdrop-blur-md text-white px-6 py-3 rounded-full border border-white/20 transition-all font-bold group"
-                >
-                    <ArrowLeft className="group-hover:-translate-x-1 transition-transform" />
-                    Terug naar Home
-                </button>
-
-                {currentFact && (
-                     <div className="hidden md:block max-w-lg bg-black/40 backdrop-blur-md p-4 rounded-xl border border-white/10 text-white/90 text-sm">
-                        <p className="line-clamp-3 italic">"{currentFact.split('\n\n')[1] || currentFact}"</p>
-                     </div>
-                )}
-            </div>
-            
-            <div className="absolute bottom-32 left-0 right-0 text-center pointer-events-none px-4">
-                 <h2 className="text-4xl md:text-6xl font-[Lobster] text-white/90 drop-shadow-2xl tracking-wider">
-                    {currentCategory}
-                 </h2>
-            </div>
-        </div>
+      {isAmbientMode && (
+        <AmbientSlideshow
+            initialSlide={currentSlide}
+            takePrepared={() => prefetchQueue.takeAny()}
+            onClose={() => setIsAmbientMode(false)}
+        />
       )}
 
       {/* Header */}
@@ -159,24 +419,74 @@ const App: React.FC = () => {
                 </div>
                 
                 <div className="flex gap-2">
-                    {currentImage && (
+                    <FactPackImport />
+
+                    <button
+                        onClick={() => setIsQuizRoundOpen(true)}
+                        className="flex items-center gap-2 bg-gray-700 hover:bg-gray-600 text-white px-3 py-2 rounded-full border border-gray-600 transition"
+                        title={t('header.quizRound')}
+                    >
+                        <ListChecks size={18} />
+                        <span className="hidden sm:inline text-sm">{t('header.quizRound')}</span>
+                    </button>
+
+                    {!session && (
                         <button
-                            onClick={() => setIsAmbientMode(true)}
+                            onClick={() => setIsPlayerSetupOpen(true)}
                             className="flex items-center gap-2 bg-gray-700 hover:bg-gray-600 text-white px-3 py-2 rounded-full border border-gray-600 transition"
-                            title="Sfeermodus"
+                            title={t('header.playTogether')}
                         >
-                            <Maximize2 size={18} />
-                            <span className="hidden sm:inline text-sm">Sfeer</span>
+                            <Users size={18} />
+                            <span className="hidden sm:inline text-sm">{t('header.players')}</span>
                         </button>
                     )}
 
+                    <button
+                        onClick={() => setIsCategoryManagerOpen(true)}
+                        className="flex items-center gap-2 bg-gray-700 hover:bg-gray-600 text-white px-3 py-2 rounded-full border border-gray-600 transition"
+                        title={t('header.categories')}
+                    >
+                        <Tags size={18} />
+                        <span className="hidden sm:inline text-sm">{t('header.categories')}</span>
+                    </button>
+
+                    <button
+                        onClick={() => setIsHistoryOpen(true)}
+                        className="flex items-center gap-2 bg-gray-700 hover:bg-gray-600 text-white px-3 py-2 rounded-full border border-gray-600 transition"
+                        title={t('header.history')}
+                    >
+                        <History size={18} />
+                        <span className="hidden sm:inline text-sm">{t('header.history')}</span>
+                    </button>
+
+                    <button
+                        onClick={() => setIsAmbientMode(true)}
+                        className="flex items-center gap-2 bg-gray-700 hover:bg-gray-600 text-white px-3 py-2 rounded-full border border-gray-600 transition"
+                        title={t('header.ambientMode')}
+                    >
+                        <Maximize2 size={18} />
+                        <span className="hidden sm:inline text-sm">{t('header.ambient')}</span>
+                    </button>
+
                     <button 
                         onClick={handleRandom}
                         className="flex items-center gap-2 bg-gradient-to-r from-amber-500 to-orange-600 hover:from-amber-400 hover:to-orange-500 text-white font-bold py-2 px-6 rounded-full shadow-lg transform transition hover:scale-105 active:scale-95"
                     >
                         <Shuffle size={20} />
-                        <span className="hidden sm:inline">Verras me!</span>
+                        <span className="hidden sm:inline">{t('header.random')}</span>
                     </button>
+
+                    <label className="flex items-center gap-1 bg-gray-700 text-white px-2 py-2 rounded-full border border-gray-600" title={t('header.language')}>
+                        <Languages size={18} />
+                        <select
+                            value={language}
+                            onChange={(e) => handleLanguageChange(e.target.value as Language)}
+                            className="bg-transparent text-sm outline-none cursor-pointer"
+                            aria-label={t('header.language')}
+                        >
+                            {LANGUAGES.map(l => <option key={l} value={l} className="text-gray-900">{LANGUAGE_LABELS[l]}</option>)}
+                        </select>
+                    </label>
                 </div>
             </div>
         </header>
@@ -185,30 +495,136 @@ const App: React.FC = () => {
       {/* Main Content */}
       <main className={`flex-1 max-w-6xl mx-auto p-4 md:p-8 w-full ${isAmbientMode ? 'hidden' : 'block'}`}>
         
+        {/* Multiplayer turn indicator */}
+        {session && !session.finished && (
+            <TurnIndicator session={session} onStop={() => setSession(null)} />
+        )}
+
+        {/* Play Mode Toggle */}
+        <div className="flex justify-center mb-6">
+            <div className="flex bg-black/40 rounded-full p-1 border border-white/10 backdrop-blur-md">
+                <button
+                    onClick={() => setPlayMode('grid')}
+                    className={`flex items-center gap-2 px-4 py-2 rounded-full text-sm font-bold transition ${playMode === 'grid' ? 'bg-amber-500 text-white' : 'text-gray-300 hover:text-white'}`}
+                >
+                    <LayoutGrid size={16} /> {t('playMode.grid')}
+                </button>
+                <button
+                    onClick={() => setPlayMode('board')}
+                    className={`flex items-center gap-2 px-4 py-2 rounded-full text-sm font-bold transition ${playMode === 'board' ? 'bg-amber-500 text-white' : 'text-gray-300 hover:text-white'}`}
+                >
+                    <Target size={16} /> {t('playMode.board')}
+                </button>
+            </div>
+        </div>
+
+        {/* Quiz clock */}
+        <div className="flex justify-center items-center gap-2 mb-6 text-sm">
+            <Timer size={16} className="text-gray-400" />
+            <span className="text-gray-400">{t('settings.timer')}</span>
+            {TIMER_OPTIONS.map(option => (
+                <button
+                    key={option ?? 'off'}
+                    onClick={() => setTimeLimit(option)}
+                    className={`px-3 py-1 rounded-full font-bold transition ${timeLimit === option ? 'bg-indigo-500 text-white' : 'bg-black/30 text-gray-300 hover:text-white'}`}
+                >
+                    {option ? `${option}s` : t('settings.timerOff')}
+                </button>
+            ))}
+        </div>
+
+        {/* Question difficulty */}
+        <div className="flex flex-wrap justify-center items-center gap-2 mb-6 text-sm">
+            <Gauge size={16} className="text-gray-400" />
+            <span className="text-gray-400">{t('settings.difficulty')}</span>
+            {DIFFICULTY_OPTIONS.map(option => (
+                <button
+                    key={option}
+                    onClick={() => setDifficulty(option)}
+                    className={`px-3 py-1 rounded-full font-bold transition ${difficulty === option ? 'bg-indigo-500 text-white' : 'bg-black/30 text-gray-300 hover:text-white'}`}
+                    title={option === 'adaptive' ? t('settings.adaptiveHint') : undefined}
+                >
+                    {option === 'adaptive' ? t('settings.adaptive') : difficultyLabel(option)}
+                </button>
+            ))}
+        </div>
+
+        {/* Question format */}
+        <div className="flex flex-wrap justify-center items-center gap-2 mb-6 text-sm">
+            <HelpCircle size={16} className="text-gray-400" />
+            <span className="text-gray-400">{t('settings.quizKind')}</span>
+            {QUIZ_KIND_OPTIONS.map(option => (
+                <button
+                    key={option}
+                    onClick={() => setQuizKindSetting(option)}
+                    className={`px-3 py-1 rounded-full font-bold transition ${quizKindSetting === option ? 'bg-indigo-500 text-white' : 'bg-black/30 text-gray-300 hover:text-white'}`}
+                >
+                    {option === 'mixed' ? t('settings.mixed') : quizKindLabel(option)}
+                </button>
+            ))}
+        </div>
+
+        {/* Narration */}
+        <div className="flex flex-wrap justify-center items-center gap-2 mb-6 text-sm">
+            <Volume2 size={16} className="text-gray-400" />
+            <span className="text-gray-400">{t('settings.narration')}</span>
+            <select
+                value={narration.voice}
+                onChange={(e) => setNarration(updateNarrationSettings({ voice: e.target.value as NarrationVoice }))}
+                className="px-3 py-1 rounded-full font-bold bg-black/30 text-gray-300 hover:text-white outline-none cursor-pointer"
+                aria-label={t('settings.voice')}
+            >
+                {NARRATION_VOICES.map(voice => (
+                    <option key={voice} value={voice} className="text-gray-900">{t(`narration.voice.${voice}` as MessageKey)}</option>
+                ))}
+            </select>
+            <button
+                onClick={() => setNarration(updateNarrationSettings({ autoPlay: !narration.autoPlay }))}
+                className={`px-3 py-1 rounded-full font-bold transition ${narration.autoPlay ? 'bg-indigo-500 text-white' : 'bg-black/30 text-gray-300 hover:text-white'}`}
+            >
+                {t('settings.autoPlay')}
+            </button>
+        </div>
+
         {/* Intro Text */}
         <div className="text-center mb-8">
-            <h2 className="text-white text-xl md:text-2xl font-semibold mb-2">Kies je categorie</h2>
-            <p className="text-gray-400">Lees een weetje of start direct een quiz.</p>
+            <h2 className="text-white text-xl md:text-2xl font-semibold mb-2">
+                {playMode === 'grid' ? t('intro.gridTitle') : t('intro.boardTitle')}
+            </h2>
+            <p className="text-gray-400">
+                {playMode === 'grid' ? t('intro.grid') : t('intro.board')}
+            </p>
         </div>
 
+        {/* Dartboard */}
+        {playMode === 'board' && (
+            <div className="mb-12">
+                <Dartboard onHit={handleDartHit} gameState={gameState} setGameState={setGameState} />
+            </div>
+        )}
+
         {/* Categories Grid */}
-        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6 mb-12">
-            {CATEGORIES.map((cat) => (
+        <div className={`grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6 mb-12 ${playMode === 'grid' ? '' : 'hidden'}`}>
+            {categories.map(({ id: cat, name, color, icon }) => (
                 <div 
                     key={cat} 
-                    className={`group relative rounded-xl overflow-hidden shadow-2xl transition-all hover:-translate-y-2 hover:shadow-amber-500/20 border-b-4 flex flex-col ${getCategoryColor(cat)}`}
+                    className="group relative rounded-xl overflow-hidden shadow-2xl transition-all hover:-translate-y-2 hover:shadow-amber-500/20 border-b-4 border-black/30 flex flex-col"
+                    style={{ backgroundColor: color }}
                 >
                     {/* Main Category Area - Visual */}
-                    <div className="p-5 flex-1 bg-gradient-to-br from-white/10 to-transparent flex flex-col justify-between min-h-[120px]">
+                    <div className="p-5 flex-1 bg-gradient-to-br from-black/10 to-black/30 flex flex-col justify-between min-h-[120px]">
                         <div className="flex justify-between items-start">
-                            <h3 className="font-bold text-xl tracking-wide shadow-black drop-shadow-md text-white">{cat}</h3>
+                            <h3 className="flex items-center gap-2 font-bold text-xl tracking-wide shadow-black drop-shadow-md text-white min-w-0">
+                                <CategoryIcon name={icon} size={20} className="shrink-0" />
+                                <span className="truncate">{name}</span>
+                            </h3>
                             
                             {/* Score badge */}
-                            {((scores as any)[cat].correct > 0 || (scores as any)[cat].wrong > 0) && (
+                            {(categoryScore(activeScores, cat).correct > 0 || categoryScore(activeScores, cat).wrong > 0) && (
                                 <div className="flex gap-1 text-[10px] font-mono bg-black/40 px-2 py-1 rounded-md backdrop-blur-sm border border-white/10">
-                                    <span className="text-green-400 font-bold">{(scores as any)[cat].correct}</span>
+                                    <span className="text-green-400 font-bold">{categoryScore(activeScores, cat).correct}</span>
                                     <span className="text-gray-400">/</span>
-                                    <span className="text-red-400 font-bold">{(scores as any)[cat].wrong}</span>
+                                    <span className="text-red-400 font-bold">{categoryScore(activeScores, cat).wrong}</span>
                                 </div>
                             )}
                         </div>
@@ -220,13 +636,13 @@ const App: React.FC = () => {
                             onClick={() => handleCategorySelect(cat, 'fact')}
                             className="flex items-center justify-center gap-2 py-3 hover:bg-white/20 transition-colors text-white/90 hover:text-white text-sm font-bold"
                         >
-                            <BookOpen size={16} /> Weetje
+                            <BookOpen size={16} /> {t('grid.fact')}
                         </button>
                         <button 
                             onClick={() => handleCategorySelect(cat, 'quiz')}
                             className="flex items-center justify-center gap-2 py-3 hover:bg-white/20 transition-colors text-white/90 hover:text-white text-sm font-bold"
                         >
-                            <BrainCircuit size={16} /> Quiz
+                            <BrainCircuit size={16} /> {t('grid.quiz')}
                         </button>
                     </div>
                 </div>
@@ -234,38 +650,10 @@ const App: React.FC = () => {
         </div>
 
         {/* Scoreboard Summary */}
-        <div className="bg-black/40 border border-white/10 rounded-2xl p-6 backdrop-blur-md max-w-3xl mx-auto">
-            <div className="flex items-center gap-3 mb-4 border-b border-white/10 pb-2">
-                <Trophy className="text-yellow-400" />
-                <h3 className="text-xl font-bold text-white">Jouw Scorebord</h3>
-            </div>
-            
-            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-                {CATEGORIES.map(cat => {
-                     const score = (scores as any)[cat];
-                     const total = score.correct + score.wrong;
-                     if (total === 0) return null;
-                     
-                     return (
-                         <div key={cat} className="flex flex-col p-2 bg-white/5 rounded-lg">
-                             <span className="text-xs text-gray-400 uppercase truncate font-bold mb-1">{cat}</span>
-                             <div className="flex justify-between items-center text-xs mb-1">
-                                <span className="text-green-400">{score.correct} V</span>
-                                <span className="text-red-400">{score.wrong} X</span>
-                             </div>
-                             {/* Mini bar */}
-                             <div className="h-1.5 w-full bg-gray-700 mt-1 rounded-full overflow-hidden flex">
-                                 <div style={{width: `${(score.correct / total) * 100}%`}} className="bg-green-500 h-full" />
-                                 <div style={{width: `${(score.wrong / total) * 100}%`}} className="bg-red-500 h-full" />
-                             </div>
-                         </div>
-                     )
-                })}
-                {Object.values(scores).every((s: any) => s.correct === 0 && s.wrong === 0) && (
-                    <p className="text-gray-500 text-sm col-span-full italic text-center py-2">Nog geen scores. Kies een onderwerp om te beginnen!</p>
-                )}
-            </div>
-        </div>
+        <ScoreBoardPanel
+            scores={activeScores}
+            title={session ? t('scoreboard.playerTitle', { name: currentPlayer(session).name }) : t('scoreboard.title')}
+        />
 
       </main>
 
@@ -277,12 +665,55 @@ const App: React.FC = () => {
         fact={currentFact}
         quizData={currentQuiz}
         imageUrl={currentImage}
+        source={currentSource}
+        factCheck={currentCheck}
+        onReport={handleReportFact}
         audioBase64={currentAudio}
         isLoading={gameState === GameState.FETCHING}
         isAssetsLoading={isAssetsLoading}
         onAnswerQuiz={handleQuizAnswer}
         initialView={initialModalView}
+        isJoker={roundHit?.zone === 'bullseye'}
+        scoreMultiplier={scoreMultiplier}
+        isFinalChallenge={finalChallenge}
+        timeLimitSeconds={timeLimit}
+        awardedPoints={awardedPoints}
+      />
+
+      <PlayerSetup
+        isOpen={isPlayerSetupOpen}
+        onClose={() => setIsPlayerSetupOpen(false)}
+        onStart={handleStartSession}
+      />
+
+      <QuizRound
+        isOpen={isQuizRoundOpen}
+        onClose={handleCloseRound}
+        onStart={handleStartRound}
+        isLoading={isRoundLoading}
+        questions={roundQuestions}
+        onAnswer={handleRoundAnswer}
+        timeLimitSeconds={timeLimit}
       />
+
+      {session?.finished && !modalOpen && !isQuizRoundOpen && (
+        <Podium session={session} onPlayAgain={handlePlayAgain} onClose={() => setSession(null)} />
+      )}
+
+      <HistoryBrowser
+        isOpen={isHistoryOpen}
+        onClose={() => setIsHistoryOpen(false)}
+        onImported={reloadScores}
+      />
+
+      <CategoryManager
+        isOpen={isCategoryManagerOpen}
+        onClose={() => setIsCategoryManagerOpen(false)}
+        onChanged={handleCategoriesChanged}
+      />
+
+      {/* Radio dock, mounted once so the music keeps playing across screens */}
+      <RadioPlayer />
     </div>
   );
 };
@@ -0,0 +1,390 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { SlideshowSettings, SoundscapeSettings } from '../types';
+import { ArrowLeft, ChevronLeft, ChevronRight, Play, Pause, Volume2, HelpCircle, Maximize, Minimize, Music, RefreshCw } from 'lucide-react';
+import SoundscapeControls from './SoundscapeControls';
+import { PreparedTopic } from '../services/prefetchQueue';
+import { SLIDE_INTERVALS, Slide, createSlideSource, getSlideshowSettings, slideText, updateSlideshowSettings } from '../services/slideshow';
+import { getSoundscapeSettings, moodForCategory, playSoundscape, stopSoundscape, updateSoundscapeSettings } from '../services/soundscape';
+import { NowPlaying, getNowPlaying, subscribeNowPlaying } from '../services/radioMetadata';
+import { Narration, createNarration, getNarrationSettings } from '../services/narration';
+import { formatCorrectAnswer } from '../services/quizFormats';
+import { categoryColor, categoryName } from '../services/categories';
+import { t } from '../services/i18n';
+
+const TICK_MS = 250;
+const CONTROLS_HIDE_MS = 4000;
+// Slides kept for going back
+const MAX_BACK = 20;
+// Share of the slide's time after which the quiz question, then its answer, appear
+const QUESTION_AT = 0.5;
+const ANSWER_AT = 0.8;
+
+// Where the slow zoom drifts to, picked per slide
+const PANS = [
+  'scale(1.15) translate(-3%, -2%)',
+  'scale(1.15) translate(3%, -2%)',
+  'scale(1.15) translate(-3%, 2%)',
+  'scale(1.15) translate(3%, 2%)',
+  'scale(1.2)',
+];
+
+// Ken Burns effect: the image fades in and zooms slowly for as long as the slide is shown
+const KenBurnsImage: React.FC<{ src: string; seconds: number }> = ({ src, seconds }) => {
+  const [moving, setMoving] = useState(false);
+  const [pan] = useState(() => PANS[Math.floor(Math.random() * PANS.length)]);
+
+  useEffect(() => {
+    const frame = requestAnimationFrame(() => setMoving(true));
+    return () => cancelAnimationFrame(frame);
+  }, []);
+
+  return (
+    <img
+        src={src}
+        alt={t('ambient.imageAlt')}
+        className={`absolute inset-0 w-full h-full object-cover transition-opacity duration-1000 ${moving ? 'opacity-80' : 'opacity-0'}`}
+        style={{ transform: moving ? pan : 'scale(1)', transition: `transform ${seconds}s ease-out, opacity 1s` }}
+    />
+  );
+};
+
+const formatInterval = (seconds: number) =>
+  seconds < 60 ? t('slideshow.seconds', { seconds }) : t('slideshow.minutes', { minutes: seconds / 60 });
+
+interface AmbientSlideshowProps {
+  // The topic on screen when ambient mode was opened; the show starts with it
+  initialSlide: Slide | null;
+  takePrepared: () => PreparedTopic | null;
+  onClose: () => void;
+}
+
+/**
+ * Ambient mode: a full-screen slideshow of facts that runs hands-free, for a TV on the wall.
+ * Arrow keys, space and the media keys of a remote steer it; the controls hide after a few seconds.
+ */
+const AmbientSlideshow: React.FC<AmbientSlideshowProps> = ({ initialSlide, takePrepared, onClose }) => {
+  const [source] = useState(() => createSlideSource(takePrepared, initialSlide?.fact ?? null));
+  const [slide, setSlide] = useState<Slide | null>(initialSlide);
+  const [past, setPast] = useState<Slide[]>([]);
+  // Slides stepped back over, shown again before anything new
+  const [ahead, setAhead] = useState<Slide[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isEmpty, setIsEmpty] = useState(false);
+  const [elapsed, setElapsed] = useState(0);
+  // Quiz steps shown ahead of time by hand: 1 the question, 2 the answer
+  const [revealed, setRevealed] = useState(0);
+  const [settings, setSettings] = useState(getSlideshowSettings);
+  const [isNarrating, setIsNarrating] = useState(false);
+  const [controlsVisible, setControlsVisible] = useState(true);
+  const [isFullscreen, setIsFullscreen] = useState(() => !!document.fullscreenElement);
+  const [soundscape, setSoundscape] = useState<SoundscapeSettings>(getSoundscapeSettings);
+  const [nowPlaying, setNowPlaying] = useState<NowPlaying | null>(getNowPlaying);
+
+  const slideRef = useRef(slide);
+  slideRef.current = slide;
+  const upcomingRef = useRef<Promise<Slide | null> | null>(null);
+  const narrationRef = useRef<Narration | null>(null);
+  // Whether a narration was cut off by pausing, so resuming picks it up again
+  const resumeNarrationRef = useRef(false);
+  const hideTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const isPaused = !settings.autoAdvance;
+  const changeSettings = (patch: Partial<SlideshowSettings>) => setSettings(updateSlideshowSettings(patch));
+
+  const show = (next: Slide, fromPast: boolean) => {
+    const current = slideRef.current;
+    if (current && !fromPast) setPast(prev => [...prev, current].slice(-MAX_BACK));
+    setSlide(next);
+    setIsEmpty(false);
+    setElapsed(0);
+    setRevealed(0);
+  };
+
+  const showNext = async () => {
+    if (isLoading) return;
+    if (ahead.length > 0) {
+      const [next, ...rest] = ahead;
+      setAhead(rest);
+      show(next, false);
+      return;
+    }
+
+    setIsLoading(true);
+    const upcoming = upcomingRef.current ?? source.next();
+    upcomingRef.current = null;
+    const next = await upcoming;
+    setIsLoading(false);
+    if (next) show(next, false);
+    else {
+      // Nothing new: stay on this slide and ask again after another interval
+      setIsEmpty(!slideRef.current);
+      setElapsed(0);
+    }
+  };
+
+  const showPrevious = () => {
+    if (past.length === 0) return;
+    const previous = past[past.length - 1];
+    setPast(past.slice(0, -1));
+    if (slide) setAhead([slide, ...ahead]);
+    show(previous, true);
+  };
+
+  const togglePause = () => {
+    const narration = narrationRef.current;
+    if (!isPaused) {
+      resumeNarrationRef.current = isNarrating;
+      narration?.pause();
+    } else if (resumeNarrationRef.current) {
+      narration?.play();
+    }
+    changeSettings({ autoAdvance: isPaused });
+  };
+
+  const toggleFullscreen = () => {
+    if (document.fullscreenElement) document.exitFullscreen().catch(() => {});
+    else document.documentElement.requestFullscreen().catch(error => console.error("Fullscreen error:", error));
+  };
+
+  const close = () => {
+    if (document.fullscreenElement) document.exitFullscreen().catch(() => {});
+    onClose();
+  };
+
+  // Any input brings the controls back for a few seconds
+  const wake = () => {
+    setControlsVisible(true);
+    if (hideTimerRef.current) clearTimeout(hideTimerRef.current);
+    hideTimerRef.current = setTimeout(() => setControlsVisible(false), CONTROLS_HIDE_MS);
+  };
+
+  // The key handler is registered once and reaches the latest state through this ref
+  const actionsRef = useRef({ showNext, showPrevious, togglePause, toggleFullscreen, close, wake, revealMore: () => {}, toggleNarrate: () => {} });
+  actionsRef.current = {
+    showNext,
+    showPrevious,
+    togglePause,
+    toggleFullscreen,
+    close,
+    wake,
+    revealMore: () => setRevealed(r => Math.min(2, Math.max(r, quizStep) + 1)),
+    toggleNarrate: () => changeSettings({ narrate: !settings.narrate }),
+  };
+
+  useEffect(() => {
+    if (!initialSlide) actionsRef.current.showNext();
+    actionsRef.current.wake();
+
+    const onKey = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLSelectElement) return;
+      // Let a focused button handle its own activation
+      if (e.target instanceof HTMLButtonElement && (e.key === 'Enter' || e.key === ' ')) return;
+      const actions = actionsRef.current;
+      switch (e.key) {
+        case 'ArrowRight': case 'PageDown': case 'MediaTrackNext': actions.showNext(); break;
+        case 'ArrowLeft': case 'PageUp': case 'MediaTrackPrevious': actions.showPrevious(); break;
+        case ' ': case 'Enter': case 'MediaPlayPause': actions.togglePause(); break;
+        case 'q': case 'Q': case 'ArrowDown': actions.revealMore(); break;
+        case 'n': case 'N': actions.toggleNarrate(); break;
+        case 'f': case 'F': actions.toggleFullscreen(); break;
+        case 'Escape': case 'Backspace': case 'BrowserBack': actions.close(); break;
+        default: return;
+      }
+      e.preventDefault();
+      actions.wake();
+    };
+    const onFullscreenChange = () => setIsFullscreen(!!document.fullscreenElement);
+
+    window.addEventListener('keydown', onKey);
+    document.addEventListener('fullscreenchange', onFullscreenChange);
+    return () => {
+      window.removeEventListener('keydown', onKey);
+      document.removeEventListener('fullscreenchange', onFullscreenChange);
+      if (hideTimerRef.current) clearTimeout(hideTimerRef.current);
+    };
+  }, []);
+
+  // Keep a TV from dimming while the show runs; the lock lapses when the tab is hidden, so it is asked for again
+  useEffect(() => {
+    let lock: WakeLockSentinel | null = null;
+    const request = () => {
+      if (!('wakeLock' in navigator) || document.visibilityState !== 'visible') return;
+      navigator.wakeLock.request('screen').then(l => { lock = l; }).catch(() => {});
+    };
+    request();
+    document.addEventListener('visibilitychange', request);
+    return () => {
+      document.removeEventListener('visibilitychange', request);
+      lock?.release().catch(() => {});
+    };
+  }, []);
+
+  useEffect(() => subscribeNowPlaying(setNowPlaying), []);
+
+  // The soundscape follows the category of the slide unless a mood was picked
+  useEffect(() => {
+    if (!soundscape.enabled || !slide) {
+      stopSoundscape();
+      return;
+    }
+    playSoundscape(soundscape.mood === 'auto' ? moodForCategory(slide.category) : soundscape.mood);
+  }, [soundscape.enabled, soundscape.mood, slide?.category]);
+
+  useEffect(() => stopSoundscape, []);
+
+  // Fetch the next slide while this one shows, and warm up its image
+  useEffect(() => {
+    if (!slide || upcomingRef.current || ahead.length > 0) return;
+    const upcoming = source.next();
+    upcomingRef.current = upcoming;
+    upcoming.then(next => {
+      if (next?.image) new Image().src = next.image;
+    });
+  }, [slide?.key]);
+
+  useEffect(() => {
+    if (isPaused || (!slide && !isEmpty)) return;
+    const timer = setInterval(() => setElapsed(e => e + TICK_MS), TICK_MS);
+    return () => clearInterval(timer);
+  }, [isPaused, slide?.key, isEmpty]);
+
+  // Move on once the time is up and the narration has finished; an empty show keeps looking for facts
+  useEffect(() => {
+    if (!isPaused && (slide || isEmpty) && !isLoading && !isNarrating && elapsed >= settings.interval * 1000) showNext();
+  }, [elapsed, isNarrating]);
+
+  useEffect(() => {
+    resumeNarrationRef.current = false;
+    if (!settings.narrate || !slide) return;
+    const narration = createNarration(slide.audio, slideText(slide.fact), p => setIsNarrating(p.isPlaying));
+    narrationRef.current = narration;
+    if (!narration) return;
+    narration.setRate(getNarrationSettings().rate);
+    if (isPaused) resumeNarrationRef.current = true;
+    else narration.play();
+    return () => {
+      narration.dispose();
+      narrationRef.current = null;
+      setIsNarrating(false);
+    };
+  }, [slide?.key, settings.narrate]);
+
+  const progress = Math.min(1, elapsed / (settings.interval * 1000));
+  const autoStep = settings.revealQuiz ? (progress >= ANSWER_AT ? 2 : progress >= QUESTION_AT ? 1 : 0) : 0;
+  const quizStep = slide?.quiz ? Math.max(autoStep, revealed) : 0;
+
+  const controlButton = 'p-2 rounded-full hover:bg-white/20 transition disabled:opacity-30';
+  const toggleButton = (active: boolean) => `flex items-center gap-1 px-3 py-1 rounded-full font-bold transition ${active ? 'bg-white/20' : 'text-white/60 hover:text-white'}`;
+
+  return (
+    <div
+        className={`fixed inset-0 z-40 bg-black animate-fade-in overflow-hidden ${controlsVisible ? '' : 'cursor-none'}`}
+        onMouseMove={wake}
+        onTouchStart={wake}
+    >
+        {slide && (slide.image ? (
+            <KenBurnsImage key={slide.key} src={slide.image} seconds={settings.interval + 5} />
+        ) : (
+            <div
+                key={slide.key}
+                className="absolute inset-0 opacity-60"
+                style={{ background: `radial-gradient(circle at 30% 30%, ${categoryColor(slide.category)}, #000 75%)` }}
+            />
+        ))}
+        <div className="absolute inset-0 bg-gradient-to-b from-black/60 via-transparent to-black/90 pointer-events-none"></div>
+
+        {/* Time left on this slide */}
+        {slide && !isPaused && (
+            <div className="absolute top-0 left-0 right-0 h-1 bg-white/10">
+                <div className="h-full bg-amber-400/80 transition-[width] duration-300 ease-linear" style={{ width: `${progress * 100}%` }} />
+            </div>
+        )}
+
+        {/* Ambient Controls */}
+        <div className={`absolute top-0 left-0 right-0 p-6 flex flex-wrap justify-between items-start gap-3 z-50 transition-opacity duration-500 ${controlsVisible ? 'opacity-100' : 'opacity-0 pointer-events-none'}`}>
+            <button
+                onClick={close}
+                className="flex items-center gap-2 bg-white/10 hover:bg-white/20 backdrop-blur-md text-white px-6 py-3 rounded-full border border-white/20 transition-all font-bold group"
+            >
+                <ArrowLeft className="group-hover:-translate-x-1 transition-transform" />
+                {t('ambient.back')}
+            </button>
+
+            <div className="flex flex-col items-end gap-3">
+                <div className="flex flex-wrap items-center justify-end gap-2 bg-black/40 backdrop-blur-md px-3 py-2 rounded-full border border-white/10 text-white/90 text-sm">
+                    <button onClick={showPrevious} disabled={past.length === 0} className={controlButton} aria-label={t('slideshow.previous')}>
+                        <ChevronLeft size={20} />
+                    </button>
+                    <button onClick={togglePause} className={controlButton} aria-label={isPaused ? t('slideshow.play') : t('slideshow.pause')}>
+                        {isPaused ? <Play size={20} /> : <Pause size={20} />}
+                    </button>
+                    <button onClick={showNext} disabled={isLoading} className={controlButton} aria-label={t('slideshow.next')}>
+                        {isLoading ? <RefreshCw size={20} className="animate-spin" /> : <ChevronRight size={20} />}
+                    </button>
+                    <select
+                        value={settings.interval}
+                        onChange={(e) => changeSettings({ interval: Number(e.target.value) })}
+                        className="px-2 py-1 rounded-full bg-transparent outline-none cursor-pointer"
+                        aria-label={t('slideshow.interval')}
+                    >
+                        {SLIDE_INTERVALS.map(seconds => (
+                            <option key={seconds} value={seconds} className="text-gray-900">{formatInterval(seconds)}</option>
+                        ))}
+                    </select>
+                    <button onClick={() => changeSettings({ narrate: !settings.narrate })} className={toggleButton(settings.narrate)} aria-pressed={settings.narrate}>
+                        <Volume2 size={14} /> {t('slideshow.narrate')}
+                    </button>
+                    <button onClick={() => changeSettings({ revealQuiz: !settings.revealQuiz })} className={toggleButton(settings.revealQuiz)} aria-pressed={settings.revealQuiz}>
+                        <HelpCircle size={14} /> {t('slideshow.revealQuiz')}
+                    </button>
+                    <button onClick={toggleFullscreen} className={controlButton} aria-label={t('slideshow.fullscreen')}>
+                        {isFullscreen ? <Minimize size={18} /> : <Maximize size={18} />}
+                    </button>
+                </div>
+                <SoundscapeControls
+                    settings={soundscape}
+                    onChange={(patch) => setSoundscape(updateSoundscapeSettings(patch))}
+                />
+                <p className="hidden md:block text-xs text-white/50">{t('slideshow.keys')}</p>
+            </div>
+        </div>
+
+        {/* Slide */}
+        <div className="absolute bottom-32 left-0 right-0 px-6 flex flex-col items-center text-center pointer-events-none">
+            {isEmpty ? (
+                <p className="max-w-xl text-white/80 text-lg bg-black/40 backdrop-blur-md p-6 rounded-xl">{t('slideshow.empty')}</p>
+            ) : !slide ? (
+                isLoading && <p className="text-white/70 text-lg">{t('slideshow.loading')}</p>
+            ) : (
+                <>
+                    <h2 className="text-4xl md:text-6xl font-[Lobster] text-white/90 drop-shadow-2xl tracking-wider">
+                        {categoryName(slide.category)}
+                    </h2>
+                    <p key={slide.key} className="mt-4 max-w-3xl text-lg md:text-2xl leading-relaxed text-white/90 drop-shadow-lg animate-fade-in">
+                        {slideText(slide.fact)}
+                    </p>
+                    {slide.quiz && quizStep > 0 && (
+                        <div className="mt-6 max-w-2xl bg-black/50 backdrop-blur-md px-6 py-4 rounded-xl border border-white/10 text-white animate-fade-in">
+                            <p className="text-xs uppercase tracking-wider text-amber-300 mb-1">{t('slideshow.question')}</p>
+                            <p className="text-lg md:text-xl font-semibold">{slide.quiz.question}</p>
+                            {quizStep > 1 && (
+                                <p className="mt-2 text-amber-300 font-bold">{t('slideshow.answer', { answer: formatCorrectAnswer(slide.quiz) })}</p>
+                            )}
+                        </div>
+                    )}
+                </>
+            )}
+            {nowPlaying && (
+                <p className="mt-4 inline-flex items-center gap-2 max-w-full text-white/80 text-lg drop-shadow-lg">
+                    <Music size={18} className="shrink-0" />
+                    <span className="truncate">
+                        {nowPlaying.title ? t('ambient.nowPlaying', { title: nowPlaying.title, station: nowPlaying.name }) : nowPlaying.name}
+                    </span>
+                </p>
+            )}
+        </div>
+    </div>
+  );
+};
+
+export default AmbientSlideshow;
@@ -0,0 +1,34 @@
+import React from 'react';
+import {
+  Landmark, FlaskConical, Leaf, Trophy, Palette, Cpu, Globe, Clapperboard,
+  Music, BookOpen, Star, Heart, Rocket, Utensils, Car, Gamepad2, Camera, Anchor, Tags
+} from 'lucide-react';
+
+const ICONS: Record<string, React.FC<{ size?: number; className?: string }>> = {
+  landmark: Landmark,
+  flask: FlaskConical,
+  leaf: Leaf,
+  trophy: Trophy,
+  palette: Palette,
+  cpu: Cpu,
+  globe: Globe,
+  clapperboard: Clapperboard,
+  music: Music,
+  book: BookOpen,
+  star: Star,
+  heart: Heart,
+  rocket: Rocket,
+  utensils: Utensils,
+  car: Car,
+  gamepad: Gamepad2,
+  camera: Camera,
+  anchor: Anchor,
+};
+
+// A category's icon by name (see CATEGORY_ICON_NAMES); unknown names get a neutral tag
+const CategoryIcon: React.FC<{ name: string; size?: number; className?: string }> = ({ name, size = 20, className }) => {
+  const Icon = ICONS[name] ?? Tags;
+  return <Icon size={size} className={className} />;
+};
+
+export default CategoryIcon;
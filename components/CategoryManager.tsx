@@ -0,0 +1,197 @@
+import React, { useEffect, useState } from 'react';
+import { Category, CategoryDefinition } from '../types';
+import { X, Tags, Plus, Pencil, Trash2, Save } from 'lucide-react';
+import CategoryIcon from './CategoryIcon';
+import { CATEGORY_ICON_NAMES } from '../services/categoryStyle';
+import { CategoryInput, MAX_CUSTOM_CATEGORIES, addCategory, getCategories, removeCategory, updateCategory } from '../services/categories';
+import { t } from '../services/i18n';
+
+interface CategoryManagerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Called after every change so the grid, dartboard and scoreboard pick up the new list
+  onChanged: (removed?: Category) => void;
+}
+
+const EMPTY_INPUT: CategoryInput = { name: '', color: '#14b8a6', icon: 'star', promptHint: '' };
+
+const CategoryManager: React.FC<CategoryManagerProps> = ({ isOpen, onClose, onChanged }) => {
+  const [categories, setCategories] = useState<CategoryDefinition[]>(getCategories);
+  // Id of the category being edited, 'new' for the add form, null when the form is closed
+  const [editing, setEditing] = useState<Category | 'new' | null>(null);
+  const [input, setInput] = useState<CategoryInput>(EMPTY_INPUT);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setCategories(getCategories());
+    setEditing(null);
+    setErrors([]);
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const customCount = categories.filter(c => !c.builtin).length;
+
+  const openForm = (category: CategoryDefinition | null) => {
+    setEditing(category ? category.id : 'new');
+    setInput(category ? { name: category.name, color: category.color, icon: category.icon, promptHint: category.promptHint } : EMPTY_INPUT);
+    setErrors([]);
+  };
+
+  const refresh = (removed?: Category) => {
+    setCategories(getCategories());
+    onChanged(removed);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const result = editing === 'new' ? addCategory(input).errors : updateCategory(editing!, input);
+    setErrors(result);
+    if (result.length > 0) return;
+    setEditing(null);
+    refresh();
+  };
+
+  const handleRemove = (category: CategoryDefinition) => {
+    if (!window.confirm(t('categories.confirmRemove', { name: category.name }))) return;
+    removeCategory(category.id);
+    if (editing === category.id) setEditing(null);
+    refresh(category.id);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center px-4 animate-fade-in">
+      <div className="absolute inset-0 bg-black/80 backdrop-blur-sm" onClick={onClose} />
+
+      <div className="relative bg-white text-gray-900 rounded-2xl w-full max-w-lg shadow-2xl overflow-hidden border-4 border-amber-500 max-h-[90vh] flex flex-col">
+        <div className="p-3 flex justify-between items-center text-white shrink-0 bg-gradient-to-r from-amber-500 to-orange-600">
+          <div className="flex items-center gap-2 ml-2">
+            <Tags size={22} />
+            <h2 className="text-xl font-bold font-[Lobster] tracking-wide">{t('header.categories')}</h2>
+          </div>
+          <button type="button" onClick={onClose} className="p-1 hover:bg-white/20 rounded-full transition">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto">
+            <p className="text-sm text-gray-600">
+                {t('categories.intro')}
+            </p>
+
+            <ul className="space-y-2">
+                {categories.map(category => (
+                    <li key={category.id} className="flex items-center gap-3 p-2 rounded-lg border border-gray-100">
+                        <span className="w-9 h-9 rounded-lg flex items-center justify-center text-white shrink-0" style={{ backgroundColor: category.color }}>
+                            <CategoryIcon name={category.icon} size={18} />
+                        </span>
+                        <div className="flex-1 min-w-0">
+                            <p className="font-bold text-sm text-gray-800 truncate">{category.name}</p>
+                            <p className="text-xs text-gray-500 truncate">{category.builtin ? t('categories.builtin') : category.promptHint || t('categories.noHint')}</p>
+                        </div>
+                        {!category.builtin && (
+                            <>
+                                <button
+                                    type="button"
+                                    onClick={() => openForm(category)}
+                                    className="p-2 text-gray-400 hover:text-amber-700 transition"
+                                    aria-label={t('categories.edit')}
+                                >
+                                    <Pencil size={16} />
+                                </button>
+                                <button
+                                    type="button"
+                                    onClick={() => handleRemove(category)}
+                                    className="p-2 text-gray-400 hover:text-red-600 transition"
+                                    aria-label={t('categories.remove')}
+                                >
+                                    <Trash2 size={16} />
+                                </button>
+                            </>
+                        )}
+                    </li>
+                ))}
+            </ul>
+
+            {editing === null ? (
+                customCount < MAX_CUSTOM_CATEGORIES ? (
+                    <button
+                        type="button"
+                        onClick={() => openForm(null)}
+                        className="flex items-center gap-2 text-sm text-amber-700 font-bold hover:text-amber-900 py-1"
+                    >
+                        <Plus size={16} /> {t('categories.add')}
+                    </button>
+                ) : (
+                    <p className="text-xs text-gray-500">{t('categories.limit', { max: MAX_CUSTOM_CATEGORIES })}</p>
+                )
+            ) : (
+                <form onSubmit={handleSubmit} className="space-y-3 p-4 rounded-xl bg-amber-50 border border-amber-200">
+                    <div className="flex gap-2">
+                        <input
+                            type="text"
+                            value={input.name}
+                            onChange={(e) => setInput({ ...input, name: e.target.value })}
+                            placeholder={t('categories.namePlaceholder')}
+                            autoFocus
+                            className="flex-1 p-2 rounded-lg border border-gray-300 focus:border-amber-500 outline-none"
+                        />
+                        <input
+                            type="color"
+                            value={input.color}
+                            onChange={(e) => setInput({ ...input, color: e.target.value })}
+                            className="w-12 h-10 rounded-lg border border-gray-300 cursor-pointer"
+                            aria-label={t('categories.color')}
+                        />
+                    </div>
+                    <div className="flex flex-wrap gap-1">
+                        {CATEGORY_ICON_NAMES.map(icon => (
+                            <button
+                                key={icon}
+                                type="button"
+                                onClick={() => setInput({ ...input, icon })}
+                                className={`p-2 rounded-lg border-2 transition ${input.icon === icon ? 'border-amber-500 bg-white text-amber-700' : 'border-transparent text-gray-500 hover:border-amber-300'}`}
+                                aria-label={icon}
+                            >
+                                <CategoryIcon name={icon} size={18} />
+                            </button>
+                        ))}
+                    </div>
+                    <textarea
+                        value={input.promptHint}
+                        onChange={(e) => setInput({ ...input, promptHint: e.target.value })}
+                        placeholder={t('categories.hintPlaceholder')}
+                        rows={2}
+                        maxLength={200}
+                        className="w-full p-2 rounded-lg border border-gray-300 focus:border-amber-500 outline-none text-sm"
+                    />
+                    {errors.length > 0 && (
+                        <ul className="text-xs text-red-600 space-y-0.5">
+                            {errors.map(e => <li key={e}>{e}</li>)}
+                        </ul>
+                    )}
+                    <div className="flex justify-end gap-2">
+                        <button
+                            type="button"
+                            onClick={() => setEditing(null)}
+                            className="px-4 py-2 text-sm text-gray-600 hover:text-gray-900 transition"
+                        >
+                            {t('common.cancel')}
+                        </button>
+                        <button
+                            type="submit"
+                            className="flex items-center gap-2 px-4 py-2 bg-gradient-to-r from-amber-500 to-orange-600 text-white text-sm font-bold rounded-lg shadow transition"
+                        >
+                            <Save size={16} /> {t('common.save')}
+                        </button>
+                    </div>
+                </form>
+            )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CategoryManager;
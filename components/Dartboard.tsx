@@ -1,128 +1,135 @@
-import React, { useEffect, useRef, useState, useCallback } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import * as d3 from 'd3';
-import { Category, GameState, DartCoordinates } from '../types';
+import { GameState, DartCoordinates, DartHit } from '../types';
+import {
+  BOARD_RADIUS,
+  BULLSEYE_RADIUS,
+  DOUBLE_RING,
+  TREBLE_RING,
+  SPIN_START_SPEED,
+  SpinState,
+  createRng,
+  pointerToBoard,
+  stepSpin,
+  throwDart,
+} from '../services/dartMath';
+import { getCategories } from '../services/categories';
+import { MessageKey, t } from '../services/i18n';
 
 interface DartboardProps {
-  onHit: (category: Category) => void;
+  // Called after the landing animation; a bullseye earns a joker round, rings multiply the score
+  onHit: (hit: DartHit) => void;
   gameState: GameState;
   setGameState: (state: GameState) => void;
+  // Standard deviation of the throw around the aim point, in board units
+  spread?: number;
+  // Seed for the throw RNG, to replay the same throws
+  seed?: number;
 }
 
-const CATEGORIES = Object.values(Category);
-const BOARD_RADIUS = 300; // Internal SVG units
+const DEFAULT_SPREAD = 30;
 
-const Dartboard: React.FC<DartboardProps> = ({ onHit, gameState, setGameState }) => {
+const ZONE_LABELS: Record<string, MessageKey> = {
+  bullseye: 'dartboard.bullseye',
+  double: 'dartboard.double',
+  treble: 'dartboard.treble',
+  miss: 'dartboard.miss',
+};
+
+const Dartboard: React.FC<DartboardProps> = ({ onHit, gameState, setGameState, spread = DEFAULT_SPREAD, seed }) => {
   const svgRef = useRef<SVGSVGElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const [rotation, setRotation] = useState(0);
   const [darts, setDarts] = useState<DartCoordinates[]>([]);
+  const [lastHit, setLastHit] = useState<DartHit | null>(null);
   
-  // Animation loop ref
+  // Animation loop refs; spin state lives in a ref so the throw sees the exact current angle
   const animationFrameRef = useRef<number>(0);
-  const lastTimeRef = useRef<number>(0);
-  const speedRef = useRef<number>(0);
+  const spinRef = useRef<SpinState>({ rotation: 0, speed: 0 });
+  const rngRef = useRef<() => number>(createRng(seed ?? Date.now()));
+
+  useEffect(() => {
+    rngRef.current = createRng(seed ?? Date.now());
+  }, [seed]);
 
-  // Colors for segments
+  // One segment per category, user-defined ones included
+  const categories = getCategories();
+  const segmentIds = categories.map(c => c.id);
   const colorScale = d3.scaleOrdinal<string>()
-    .domain(CATEGORIES)
-    .range([
-        '#ef4444', // Red
-        '#3b82f6', // Blue
-        '#10b981', // Emerald
-        '#f59e0b', // Amber
-        '#8b5cf6', // Violet
-        '#ec4899', // Pink
-        '#06b6d4', // Cyan
-        '#f97316'  // Orange
-    ]);
+    .domain(segmentIds)
+    .range(categories.map(c => c.color));
+  const nameOf = (id: string) => categories.find(c => c.id === id)?.name ?? id;
 
   const pie = d3.pie<string>()
     .value(1)
     .sort(null);
 
   const arc = d3.arc<d3.PieArcDatum<string>>()
-    .innerRadius(20)
+    .innerRadius(BULLSEYE_RADIUS)
     .outerRadius(BOARD_RADIUS);
 
-  const arcs = pie(CATEGORIES);
+  const arcs = pie(segmentIds);
 
-  // Spin Logic
-  const animate = useCallback((time: number) => {
-    if (lastTimeRef.current !== 0) {
-      // Rotate based on speed
-      setRotation(prev => (prev + speedRef.current) % 360);
-    }
-    lastTimeRef.current = time;
+  // Spin Logic: a flick of speed that decays through friction until the board stands still
+  useEffect(() => {
+    if (gameState !== GameState.SPINNING) return;
 
-    if (gameState === GameState.SPINNING) {
-      animationFrameRef.current = requestAnimationFrame(animate);
-    }
-  }, [gameState]);
+    spinRef.current = { rotation: spinRef.current.rotation, speed: SPIN_START_SPEED };
+    // Pull the previous dart out before the next throw
+    setDarts([]);
+    setLastHit(null);
 
-  useEffect(() => {
-    if (gameState === GameState.SPINNING) {
-      speedRef.current = 8; // High speed
-      lastTimeRef.current = 0;
-      animationFrameRef.current = requestAnimationFrame(animate);
-    } else {
-      // Stop animation
-      if (animationFrameRef.current) {
-        cancelAnimationFrame(animationFrameRef.current);
+    let lastTime = 0;
+    const frame = (time: number) => {
+      if (lastTime !== 0) {
+        spinRef.current = stepSpin(spinRef.current, time - lastTime);
+        setRotation(spinRef.current.rotation);
+      }
+      lastTime = time;
+      if (spinRef.current.speed > 0) {
+        animationFrameRef.current = requestAnimationFrame(frame);
       }
-    }
-    return () => {
-      if (animationFrameRef.current) cancelAnimationFrame(animationFrameRef.current);
     };
-  }, [gameState, animate]);
+    animationFrameRef.current = requestAnimationFrame(frame);
+
+    return () => cancelAnimationFrame(animationFrameRef.current);
+  }, [gameState]);
 
   // Handle Throw
-  const handleThrow = (e: React.MouseEvent | React.TouchEvent) => {
-    if (gameState !== GameState.SPINNING) return;
+  const handleThrow = (e: React.MouseEvent) => {
+    // First click starts the spin, the next one throws
+    if (gameState === GameState.IDLE) {
+      setGameState(GameState.SPINNING);
+      return;
+    }
+    if (gameState !== GameState.SPINNING || !containerRef.current) return;
 
-    // 1. Stop spinning
+    // 1. Stop spinning, freezing the board at its current angle
+    cancelAnimationFrame(animationFrameRef.current);
+    const boardRotation = spinRef.current.rotation;
+    spinRef.current = { rotation: boardRotation, speed: 0 };
     setGameState(GameState.THROWN);
     
-    // 2. Calculate Hit Position (Randomized for realism, user "aims" but there's spread)
-    // We simulate a hit relative to the center of the board
-    // Random radius (biased towards center slightly) and random angle
-    const r = Math.sqrt(Math.random()) * (BOARD_RADIUS * 0.9); // 90% of radius max to stay on board
-    const theta = Math.random() * 2 * Math.PI;
-    
-    const hitX = r * Math.cos(theta);
-    const hitY = r * Math.sin(theta);
-    
-    // 3. Determine Category
-    // We need to account for board rotation.
-    // Board rotates clockwise.
-    // SVG 0 degrees is usually 12 o'clock minus 90deg, but d3 arc starts at 12 o'clock (0 rad).
-    // Let's normalize. 
-    // Hit Angle in degrees (0 to 360, 0 at top)
-    let hitAngleDeg = (Math.atan2(hitY, hitX) * 180 / Math.PI) + 90;
-    if (hitAngleDeg < 0) hitAngleDeg += 360;
-
-    // The board is rotated by `rotation`.
-    // The effective angle on the board is (HitAngle - BoardRotation)
-    let effectiveAngle = (hitAngleDeg - rotation) % 360;
-    if (effectiveAngle < 0) effectiveAngle += 360;
-
-    // Segment size
-    const segmentSize = 360 / CATEGORIES.length;
-    const index = Math.floor(effectiveAngle / segmentSize);
-    // D3 pie generates arcs clockwise starting from 0 (top).
-    // Our index 0 corresponds to the first slice.
-    
-    // Important: d3.pie default sort might mess order if not disabled. We disabled it.
-    const hitCategory = CATEGORIES[index];
+    // 2. Aim where the user clicked/tapped, scattered by the spread
+    const aim = pointerToBoard(e.clientX, e.clientY, containerRef.current.getBoundingClientRect());
+    const hit = throwDart(aim, spread, boardRotation, segmentIds, rngRef.current);
 
-    // 4. Add visual dart
-    setDarts([{ x: hitX, y: hitY, rotation: Math.random() * 30 - 15 }]);
+    // 3. Add visual dart and highlight what it hit
+    setDarts([{ x: hit.x, y: hit.y, rotation: rngRef.current() * 30 - 15 }]);
+    setLastHit(hit);
 
-    // 5. Callback after delay
+    // 4. Callback after delay, so the landing is visible. A miss just lets you try again.
     setTimeout(() => {
-        onHit(hitCategory);
+        if (hit.segment) {
+            onHit(hit);
+        } else {
+            setGameState(GameState.IDLE);
+        }
     }, 800);
   };
 
+  const isSegmentHit = (i: number) => lastHit !== null && lastHit.index === i && lastHit.zone !== 'bullseye';
+
   return (
     <div className="relative w-full max-w-[600px] aspect-square mx-auto select-none touch-none">
         {/* The Board Container */}
@@ -147,8 +154,10 @@ const Dartboard: React.FC<DartboardProps> = ({ onHit, gameState, setGameState })
                         <path 
                             d={arc(d) || undefined} 
                             fill={colorScale(d.data)} 
-                            stroke="#fff"
-                            strokeWidth="2"
+                            stroke={isSegmentHit(i) ? '#fde047' : '#fff'}
+                            strokeWidth={isSegmentHit(i) ? 8 : 2}
+                            opacity={!lastHit || lastHit.index === null || lastHit.zone === 'bullseye' || lastHit.index === i ? 1 : 0.35}
+                            className="transition-opacity duration-300"
                         />
                         {/* Text Labels */}
                         <text
@@ -162,13 +171,31 @@ const Dartboard: React.FC<DartboardProps> = ({ onHit, gameState, setGameState })
                             style={{ textShadow: '1px 1px 2px black' }}
                         >
                             {/* Shorten text for mobile/small slices if needed */}
-                            {d.data.length > 10 ? d.data.substring(0, 8) + '..' : d.data}
+                            {nameOf(d.data).length > 10 ? nameOf(d.data).substring(0, 8) + '..' : nameOf(d.data)}
                         </text>
                     </g>
                 ))}
                 
+                {/* Treble and double rings */}
+                {[TREBLE_RING, DOUBLE_RING].map(ring => (
+                    <circle
+                        key={ring.inner}
+                        r={(ring.inner + ring.outer) / 2}
+                        fill="none"
+                        stroke="rgba(0,0,0,0.35)"
+                        strokeWidth={ring.outer - ring.inner}
+                        className="pointer-events-none"
+                    />
+                ))}
+
                 {/* Bullseye */}
-                <circle r={20} fill="#be123c" stroke="#fff" strokeWidth="2" />
+                <circle
+                    r={BULLSEYE_RADIUS}
+                    fill={lastHit?.zone === 'bullseye' ? '#facc15' : '#be123c'}
+                    stroke="#fff"
+                    strokeWidth="2"
+                    className={lastHit?.zone === 'bullseye' ? 'animate-pulse' : ''}
+                />
             </svg>
 
             {/* Darts Overlay (Does NOT rotate with board) */}
@@ -220,7 +247,17 @@ const Dartboard: React.FC<DartboardProps> = ({ onHit, gameState, setGameState })
         {gameState === GameState.IDLE && (
            <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
               <div className="bg-black/60 text-white px-6 py-3 rounded-full animate-bounce text-xl font-bold backdrop-blur-sm border border-white/20">
-                Klik om te draaien!
+                {t('dartboard.spin')}
+              </div>
+           </div>
+        )}
+
+        {gameState === GameState.THROWN && lastHit && ZONE_LABELS[lastHit.zone] && (
+           <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+              <div className={`px-8 py-4 rounded-xl text-2xl font-black uppercase tracking-widest shadow-xl border-2 border-white animate-bounce ${
+                  lastHit.zone === 'miss' ? 'bg-gray-800/90 text-white' : 'bg-yellow-400/90 text-black'
+              }`}>
+                {t(ZONE_LABELS[lastHit.zone])}
               </div>
            </div>
         )}
@@ -228,7 +265,7 @@ const Dartboard: React.FC<DartboardProps> = ({ onHit, gameState, setGameState })
         {gameState === GameState.SPINNING && (
            <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
               <div className="bg-red-600/80 text-white px-8 py-4 rounded-xl text-2xl font-black uppercase tracking-widest shadow-xl backdrop-blur-sm border-2 border-white animate-pulse">
-                GOOI NU!
+                {t('dartboard.throw')}
               </div>
            </div>
         )}
@@ -1 +0,0 @@
-// This file is deprecated. Content moved to index.js
\ No newline at end of file
@@ -1,83 +1,76 @@
 
 import React, { useEffect, useState, useRef } from 'react';
-import { Category, QuizData } from '../types';
-import { X, RefreshCw, Share2, Volume2, StopCircle, Image as ImageIcon, CheckCircle, XCircle, BrainCircuit, ArrowDown } from 'lucide-react';
+import { Category, FactCheck, QuizAnswerResult, QuizData, TopicSource } from '../types';
+import { categoryName } from '../services/categories';
+import { t } from '../services/i18n';
+import QuizQuestion, { QuizQuestionHandle } from './QuizQuestion';
+import NarrationPlayer, { canNarrate } from './NarrationPlayer';
+import { X, RefreshCw, Share2, Image as ImageIcon, ArrowDown, ExternalLink, Flag, AlertTriangle } from 'lucide-react';
 
 interface FactModalProps {
   category: Category | null;
   fact: string | null;
   quizData: QuizData | null;
   imageUrl: string | null;
+  // Wikipedia article the fact was written from, linked so the player can read on
+  source?: TopicSource | null;
+  // Outcome of the fact check; flagged facts get a warning
+  factCheck?: FactCheck | null;
+  // Report the fact as wrong; returns the points taken back from its answer
+  onReport?: (reason: string) => number;
+  // Narration of the fact as raw 24kHz PCM; without it the browser reads the fact aloud
   audioBase64: string | null;
   isOpen: boolean;
   onClose: () => void;
   isLoading: boolean;
   isAssetsLoading: boolean;
-  onAnswerQuiz: (isCorrect: boolean) => void;
+  onAnswerQuiz: (result: QuizAnswerResult) => void;
   initialView?: 'fact' | 'quiz';
+  // Bullseye bonus round
+  isJoker?: boolean;
+  // How many points a correct answer is worth (dartboard rings)
+  scoreMultiplier?: number;
+  // Wedge race: answering this correctly wins the game
+  isFinalChallenge?: boolean;
+  // Countdown per question in seconds; null plays without time pressure
+  timeLimitSeconds?: number | null;
+  // Points the last answer earned, filled in by the parent once it has scored it
+  awardedPoints?: number | null;
 }
 
-// Helper to decode PCM
-const decode = (base64: string) => {
-    const binaryString = atob(base64);
-    const len = binaryString.length;
-    const bytes = new Uint8Array(len);
-    for (let i = 0; i < len; i++) {
-      bytes[i] = binaryString.charCodeAt(i);
-    }
-    return bytes;
-};
-  
-const decodeAudioData = async (
-    data: Uint8Array,
-    ctx: AudioContext,
-    sampleRate: number = 24000,
-    numChannels: number = 1,
-): Promise<AudioBuffer> => {
-    const dataInt16 = new Int16Array(data.buffer);
-    const frameCount = dataInt16.length / numChannels;
-    const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
-  
-    for (let channel = 0; channel < numChannels; channel++) {
-      const channelData = buffer.getChannelData(channel);
-      for (let i = 0; i < frameCount; i++) {
-        channelData[i] = dataInt16[i * numChannels + channel] / 32768.0;
-      }
-    }
-    return buffer;
-};
-
 const FactModal: React.FC<FactModalProps> = ({ 
     category, 
     fact, 
     quizData,
     imageUrl, 
+    source = null,
+    factCheck = null,
+    onReport,
     audioBase64, 
     isOpen, 
     onClose, 
     isLoading,
     isAssetsLoading,
     onAnswerQuiz,
-    initialView = 'fact'
+    initialView = 'fact',
+    isJoker = false,
+    scoreMultiplier = 1,
+    isFinalChallenge = false,
+    timeLimitSeconds = null,
+    awardedPoints = null
 }) => {
-  const [isPlaying, setIsPlaying] = useState(false);
-  const [selectedOption, setSelectedOption] = useState<string | null>(null);
-  const [quizResult, setQuizResult] = useState<'correct' | 'wrong' | null>(null);
+  const quizRef = useRef<QuizQuestionHandle>(null);
+  // "Meld fout": form open, and once sent the points that were refunded
+  const [isReporting, setIsReporting] = useState(false);
+  const [reportReason, setReportReason] = useState('');
+  const [refunded, setRefunded] = useState<number | null>(null);
   
-  const audioContextRef = useRef<AudioContext | null>(null);
-  const sourceNodeRef = useRef<AudioBufferSourceNode | null>(null);
   const scrollRef = useRef<HTMLDivElement>(null);
   const quizSectionRef = useRef<HTMLDivElement>(null);
 
-  // Reset quiz state when modal opens
+  // Reset scroll position when modal opens
   useEffect(() => {
-    if (isOpen) {
-        setSelectedOption(null);
-        setQuizResult(null);
-        if (scrollRef.current) scrollRef.current.scrollTop = 0;
-    } else {
-        stopAudio();
-    }
+    if (isOpen && scrollRef.current) scrollRef.current.scrollTop = 0;
   }, [isOpen]);
 
   // Handle scroll to quiz if requested
@@ -90,58 +83,23 @@ const FactModal: React.FC<FactModalProps> = ({
     }
   }, [isOpen, isLoading, quizData, initialView]);
 
-  // Cleanup
+  // Every new fact can be reported again
   useEffect(() => {
-    return () => stopAudio();
-  }, []);
-
-  const playAudio = async () => {
-    if (!audioBase64) return;
-    
-    try {
-        stopAudio();
-        setIsPlaying(true);
-
-        if (!audioContextRef.current) {
-            audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({sampleRate: 24000});
-        }
-        
-        if (audioContextRef.current.state === 'suspended') {
-            await audioContextRef.current.resume();
-        }
-
-        const audioData = decode(audioBase64);
-        const buffer = await decodeAudioData(audioData, audioContextRef.current);
+    setIsReporting(false);
+    setReportReason('');
+    setRefunded(null);
+  }, [fact]);
 
-        const source = audioContextRef.current.createBufferSource();
-        source.buffer = buffer;
-        source.connect(audioContextRef.current.destination);
-        
-        source.onended = () => setIsPlaying(false);
-        
-        source.start();
-        sourceNodeRef.current = source;
-    } catch (e) {
-        console.error("Audio playback error", e);
-        setIsPlaying(false);
-    }
-  };
-
-  const stopAudio = () => {
-    if (sourceNodeRef.current) {
-        try { sourceNodeRef.current.stop(); } catch (e) {}
-        sourceNodeRef.current = null;
-    }
-    setIsPlaying(false);
+  const submitReport = () => {
+    if (!onReport) return;
+    setRefunded(onReport(reportReason));
+    setIsReporting(false);
   };
 
-  const handleOptionClick = (option: string) => {
-    if (quizResult !== null) return; // Prevent multi-click
-
-    setSelectedOption(option);
-    const isCorrect = option === quizData?.correctAnswer;
-    setQuizResult(isCorrect ? 'correct' : 'wrong');
-    onAnswerQuiz(isCorrect);
+  // Walking away from a running clock forfeits the question
+  const handleClose = () => {
+    quizRef.current?.forfeit();
+    onClose();
   };
 
   if (!isOpen) return null;
@@ -166,7 +124,7 @@ const FactModal: React.FC<FactModalProps> = ({
     <div className="fixed inset-0 z-50 flex items-center justify-center px-4 animate-fade-in">
       <div 
         className="absolute inset-0 bg-black/80 backdrop-blur-sm transition-opacity"
-        onClick={onClose}
+        onClick={handleClose}
       />
 
       <div className="relative bg-white text-gray-900 rounded-2xl w-full max-w-lg shadow-2xl overflow-hidden transform transition-all scale-100 border-4 border-amber-500 max-h-[90vh] flex flex-col">
@@ -175,10 +133,20 @@ const FactModal: React.FC<FactModalProps> = ({
         <div className="p-3 flex justify-between items-center text-white shrink-0 bg-gradient-to-r from-amber-500 to-orange-600">
           <div className="flex items-center gap-2">
             <h2 className="text-xl font-bold font-[Lobster] tracking-wide truncate ml-2">
-                {isLoading ? 'Laden...' : category}
+                {isLoading ? t('fact.loading') : category && categoryName(category)}
             </h2>
+            {isFinalChallenge && (
+                <span className="bg-red-600 text-white text-xs font-black uppercase px-2 py-1 rounded-full shadow animate-pulse">
+                    {t('fact.finalChallenge')}
+                </span>
+            )}
+            {(isJoker || scoreMultiplier > 1) && (
+                <span className="bg-yellow-300 text-black text-xs font-black uppercase px-2 py-1 rounded-full shadow">
+                    {isJoker ? t('fact.joker') : t('fact.bonus')} x{scoreMultiplier}
+                </span>
+            )}
           </div>
-          <button onClick={onClose} className="p-1 hover:bg-white/20 rounded-full transition">
+          <button onClick={handleClose} className="p-1 hover:bg-white/20 rounded-full transition">
             <X size={24} />
           </button>
         </div>
@@ -190,13 +158,13 @@ const FactModal: React.FC<FactModalProps> = ({
                     <div className="w-full h-full flex flex-col items-center justify-center bg-gray-100 gap-3">
                         <RefreshCw className="animate-spin text-amber-500" size={32} />
                         <span className="text-gray-500 text-sm font-medium">
-                            Kennis ophalen...
+                            {t('fact.fetching')}
                         </span>
                     </div>
                 ) : imageUrl ? (
                     <img 
                         src={imageUrl} 
-                        alt="Onderwerp" 
+                        alt={t('fact.imageAlt')} 
                         className="w-full h-full object-cover animate-fade-in"
                     />
                 ) : (
@@ -204,7 +172,7 @@ const FactModal: React.FC<FactModalProps> = ({
                          {isAssetsLoading ? (
                              <div className="flex flex-col items-center animate-pulse">
                                 <ImageIcon size={32} />
-                                <span className="text-xs mt-1">Schilderij maken...</span>
+                                <span className="text-xs mt-1">{t('fact.paintingImage')}</span>
                              </div>
                         ) : (
                             <ImageIcon size={40} />
@@ -212,22 +180,13 @@ const FactModal: React.FC<FactModalProps> = ({
                     </div>
                 )}
                 
-                {/* Audio Button Overlay */}
-                {!isLoading && audioBase64 && (
-                    <button 
-                        onClick={isPlaying ? stopAudio : playAudio}
-                        className={`absolute bottom-4 right-4 flex items-center gap-2 px-4 py-2 rounded-full font-bold shadow-lg transition-all transform hover:scale-105 ${
-                            isPlaying 
-                            ? "bg-red-500 text-white" 
-                            : "bg-white text-amber-700"
-                        }`}
-                    >
-                        {isPlaying ? <StopCircle size={20} /> : <Volume2 size={20} />}
-                        <span className="text-sm">{isPlaying ? "Stop" : "Lees voor"}</span>
-                    </button>
-                )}
             </div>
 
+            {/* Narration: recorded audio once it has arrived, else the browser's voice */}
+            {!isLoading && fact && (audioBase64 || !isAssetsLoading) && canNarrate(audioBase64) && (
+                <NarrationPlayer audioBase64={audioBase64} text={fact} downloadName={`wikiplay-${category ?? 'weetje'}`} />
+            )}
+
             <div className="p-6 space-y-8">
                 {/* 1. THE FACT */}
                 <div className="animate-fade-in-up">
@@ -238,9 +197,33 @@ const FactModal: React.FC<FactModalProps> = ({
                             <div className="h-4 bg-gray-200 rounded w-5/6"></div>
                         </div>
                     ) : (
+                        <>
                         <div className="text-lg leading-relaxed border-l-4 border-amber-300 pl-4">
                             {formatFactText(fact || "")}
                         </div>
+                        {source && (
+                            <a
+                                href={source.url}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="mt-3 ml-5 inline-flex items-center gap-1 text-sm text-amber-700 hover:text-amber-900 hover:underline"
+                            >
+                                <ExternalLink size={14} /> {t('fact.source', { title: source.title })}
+                            </a>
+                        )}
+                        {factCheck?.flagged && refunded === null && (
+                            <div className="mt-4 p-3 rounded-lg bg-amber-50 border border-amber-200 text-sm text-amber-900">
+                                <p className="flex items-center gap-2 font-bold">
+                                    <AlertTriangle size={16} /> {t('fact.checkWarning')}
+                                </p>
+                                {factCheck.issues.length > 0 && (
+                                    <ul className="list-disc ml-6 mt-1 opacity-90">
+                                        {factCheck.issues.map((issue, i) => <li key={i}>{issue}</li>)}
+                                    </ul>
+                                )}
+                            </div>
+                        )}
+                        </>
                     )}
                 </div>
 
@@ -249,68 +232,36 @@ const FactModal: React.FC<FactModalProps> = ({
                     <div className="flex items-center gap-4 opacity-50" ref={quizSectionRef}>
                         <div className="h-px bg-gray-300 flex-1"></div>
                         <ArrowDown size={16} className="text-gray-400" />
-                        <span className="text-xs font-bold uppercase tracking-widest text-gray-400">Quiz</span>
+                        <span className="text-xs font-bold uppercase tracking-widest text-gray-400">{t('fact.quiz')}</span>
                         <div className="h-px bg-gray-300 flex-1"></div>
                     </div>
                 )}
 
-                {/* 2. THE QUIZ */}
-                {!isLoading && quizData && (
-                    <div className="bg-indigo-50 p-5 rounded-xl border border-indigo-100 animate-fade-in-up delay-100">
-                        <div className="flex items-center gap-2 mb-4 text-indigo-700">
-                            <BrainCircuit size={20} />
-                            <span className="font-bold text-sm uppercase">Test je kennis</span>
-                        </div>
-                        
-                        <h3 className="text-lg font-bold text-gray-900 mb-4 leading-tight">
-                            {quizData.question}
-                        </h3>
-                        
-                        <div className="space-y-3">
-                            {quizData.options.map((option, idx) => {
-                                let btnClass = "w-full p-3 text-left rounded-lg border-2 transition-all font-medium relative text-sm md:text-base ";
-                                
-                                if (quizResult === null) {
-                                    btnClass += "bg-white border-indigo-100 hover:border-indigo-400 hover:bg-indigo-50 text-gray-700";
-                                } else {
-                                    if (option === quizData.correctAnswer) {
-                                        btnClass += "border-green-500 bg-green-50 text-green-900";
-                                    } else if (option === selectedOption && option !== quizData.correctAnswer) {
-                                        btnClass += "border-red-500 bg-red-50 text-red-900 opacity-70";
-                                    } else {
-                                        btnClass += "border-transparent bg-gray-100 text-gray-400";
-                                    }
-                                }
-
-                                return (
-                                    <button 
-                                        key={idx}
-                                        onClick={() => handleOptionClick(option)}
-                                        disabled={quizResult !== null}
-                                        className={btnClass}
-                                    >
-                                        <span className="mr-6 block">{option}</span>
-                                        {quizResult !== null && option === quizData.correctAnswer && (
-                                            <CheckCircle className="absolute right-3 top-1/2 -translate-y-1/2 text-green-600" size={18}/>
-                                        )}
-                                        {quizResult !== null && option === selectedOption && option !== quizData.correctAnswer && (
-                                            <XCircle className="absolute right-3 top-1/2 -translate-y-1/2 text-red-600" size={18}/>
-                                        )}
-                                    </button>
-                                )
-                            })}
-                        </div>
-                        
-                        {quizResult !== null && (
-                            <div className={`mt-4 p-3 rounded-lg text-sm border ${quizResult === 'correct' ? 'bg-green-100 border-green-200 text-green-800' : 'bg-red-50 border-red-100 text-red-900'}`}>
-                                <p className="font-bold mb-1">
-                                    {quizResult === 'correct' ? '🎉 Goed gezien!' : 'Helaas, dat klopt niet helemaal.'}
-                                </p>
-                                <p className="opacity-90">{quizData.explanation}</p>
-                            </div>
-                        )}
+                {/* Reported facts are out of play */}
+                {!isLoading && refunded !== null && (
+                    <div className="p-4 rounded-xl bg-gray-100 border border-gray-200 text-sm text-gray-700">
+                        <p className="font-bold flex items-center gap-2"><Flag size={16} /> {t('report.thanks')}</p>
+                        <p className="mt-1">
+                            {t('report.removed')} {refunded > 0 ? t('report.refunded', { points: refunded }) : t('report.notCounted')}
+                        </p>
                     </div>
                 )}
+
+                {/* 2. THE QUIZ */}
+                {!isLoading && quizData && refunded === null && (
+                    <QuizQuestion
+                        key={quizData.question}
+                        ref={quizRef}
+                        quiz={quizData}
+                        onAnswer={onAnswerQuiz}
+                        timeLimitSeconds={timeLimitSeconds}
+                        autoStart={initialView === 'quiz'}
+                        awardedPoints={awardedPoints}
+                        correctMessage={isFinalChallenge
+                            ? t('fact.finalWon')
+                            : scoreMultiplier > 1 ? t('fact.correctMultiplied', { multiplier: scoreMultiplier }) : t('fact.correct')}
+                    />
+                )}
             </div>
         </div>
         
@@ -322,18 +273,49 @@ const FactModal: React.FC<FactModalProps> = ({
                     onClick={() => {
                         if (navigator.share) {
                             navigator.share({
-                                title: `Wikiplay: ${category}`,
-                                text: `${fact}\n\nQuizvraag: ${quizData?.question}`,
+                                title: `Wikiplay: ${category ? categoryName(category) : ''}`,
+                                text: `${fact}\n\n${t('share.question', { question: quizData?.question ?? '' })}${source ? `\n\n${t('share.source', { url: source.url })}` : ''}`,
                                 url: window.location.href
                             }).catch(console.error);
                         } else {
-                            navigator.clipboard.writeText(`${fact}\n\nQuiz: ${quizData?.question}` || '');
-                            alert("Tekst gekopieerd!");
+                            navigator.clipboard.writeText(`${fact}\n\n${t('share.question', { question: quizData?.question ?? '' })}${source ? `\n\n${t('share.source', { url: source.url })}` : ''}` || '');
+                            alert(t('share.copied'));
                         }
                     }}
                 >
-                    <Share2 size={16} /> Delen
+                    <Share2 size={16} /> {t('share.button')}
                 </button>
+                {/* Every real topic comes with a quiz; the apology shown when nothing loaded has none */}
+                {onReport && fact && quizData && refunded === null && (
+                    <button
+                        className="flex items-center justify-center gap-2 py-2 px-4 bg-white border border-gray-300 rounded-lg shadow-sm hover:bg-red-50 hover:border-red-300 text-gray-700 font-medium transition"
+                        onClick={() => setIsReporting(r => !r)}
+                    >
+                        <Flag size={16} /> {t('report.button')}
+                    </button>
+                )}
+            </div>
+        )}
+
+        {/* Report form */}
+        {isReporting && (
+            <div className="p-4 bg-red-50 border-t border-red-200 space-y-3 shrink-0">
+                <p className="text-sm font-bold text-red-900">{t('report.question')}</p>
+                <textarea
+                    value={reportReason}
+                    onChange={(e) => setReportReason(e.target.value)}
+                    rows={2}
+                    placeholder={t('report.placeholder')}
+                    className="w-full p-2 rounded-lg border border-red-200 text-sm outline-none focus:border-red-400"
+                />
+                <div className="flex gap-2">
+                    <button onClick={() => setIsReporting(false)} className="flex-1 py-2 rounded-lg border border-gray-300 bg-white text-gray-700 font-medium">
+                        {t('common.cancel')}
+                    </button>
+                    <button onClick={submitReport} className="flex-1 py-2 rounded-lg bg-red-600 hover:bg-red-700 text-white font-bold">
+                        {t('report.submit')}
+                    </button>
+                </div>
             </div>
         )}
       </div>
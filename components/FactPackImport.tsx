@@ -0,0 +1,52 @@
+import React, { useRef, useState } from 'react';
+import { Upload } from 'lucide-react';
+import { importFactPackFile } from '../services/factPackService';
+import { t } from '../services/i18n';
+
+const FactPackImport: React.FC = () => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow picking the same file again
+    if (!file) return;
+
+    setIsImporting(true);
+    const result = await importFactPackFile(file);
+    setIsImporting(false);
+
+    if (!result.pack) {
+        alert(`${t('factPack.loadFailed')}\n\n${result.errors.join('\n')}`);
+        return;
+    }
+
+    let message = t('factPack.loaded', { name: result.pack.name, added: result.added });
+    if (result.duplicates > 0) message += `\n${t('factPack.duplicates', { count: result.duplicates })}`;
+    if (result.errors.length > 0) message += `\n\n${t('factPack.invalid', { count: result.errors.length })}\n${result.errors.slice(0, 5).join('\n')}`;
+    alert(message);
+  };
+
+  return (
+    <>
+        <input
+            ref={inputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={handleFile}
+        />
+        <button
+            onClick={() => inputRef.current?.click()}
+            disabled={isImporting}
+            className="flex items-center gap-2 bg-gray-700 hover:bg-gray-600 text-white px-3 py-2 rounded-full border border-gray-600 transition disabled:opacity-50"
+            title={t('factPack.import')}
+        >
+            <Upload size={18} />
+            <span className="hidden sm:inline text-sm">{t('factPack.button')}</span>
+        </button>
+    </>
+  );
+};
+
+export default FactPackImport;
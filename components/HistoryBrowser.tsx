@@ -0,0 +1,270 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Category, ChoiceQuiz, Difficulty, HistoryEntry } from '../types';
+import { exportHistory, getHistory, importHistory } from '../services/historyStore';
+import { DIFFICULTIES, answersByDifficulty, difficultyLabel } from '../services/difficulty';
+import { formatCorrectAnswer, isChoiceQuiz, quizKind, quizKindLabel } from '../services/quizFormats';
+import { categoryName, getCategories } from '../services/categories';
+import { getLocale, t } from '../services/i18n';
+import { X, ArrowLeft, Download, Upload, History, Image as ImageIcon, CheckCircle, XCircle, ExternalLink, Flag } from 'lucide-react';
+
+interface HistoryBrowserProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Called after an import so the app can reload the persisted scores
+  onImported: () => void;
+}
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(getLocale(), { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+// The fact body without the "- Category -" header line
+const factBody = (fact: string) => fact.split('\n\n')[1] || fact;
+
+const HistoryBrowser: React.FC<HistoryBrowserProps> = ({ isOpen, onClose, onImported }) => {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [filter, setFilter] = useState<Category | 'all'>('all');
+  const [levelFilter, setLevelFilter] = useState<Difficulty | 'all'>('all');
+  const [selected, setSelected] = useState<HistoryEntry | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const reload = async () => {
+    setIsLoading(true);
+    setEntries(await getHistory());
+    setIsLoading(false);
+  };
+
+  useEffect(() => {
+    if (isOpen) {
+        setSelected(null);
+        reload();
+    }
+  }, [isOpen]);
+
+  const handleExport = async () => {
+    const json = await exportHistory();
+    const url = URL.createObjectURL(new Blob([json], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = t('history.exportFileName', { date: new Date().toISOString().slice(0, 10) });
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+        const { imported, skipped } = await importHistory(await file.text());
+        alert(skipped > 0 ? t('history.importedSkipped', { imported, skipped }) : t('history.imported', { imported }));
+        onImported();
+        reload();
+    } catch (error) {
+        console.error("History import error:", error);
+        alert(t('history.importFailed', { reason: error instanceof Error ? error.message : t('history.invalidFile') }));
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const inCategory = filter === 'all' ? entries : entries.filter(e => e.category === filter);
+  const visible = levelFilter === 'all' ? inCategory : inCategory.filter(e => e.quiz?.difficulty === levelFilter);
+  const levelStats = answersByDifficulty(inCategory);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center px-4 animate-fade-in">
+      <div className="absolute inset-0 bg-black/80 backdrop-blur-sm" onClick={onClose} />
+
+      <div className="relative bg-white text-gray-900 rounded-2xl w-full max-w-2xl shadow-2xl overflow-hidden border-4 border-amber-500 max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="p-3 flex justify-between items-center text-white shrink-0 bg-gradient-to-r from-amber-500 to-orange-600">
+          <div className="flex items-center gap-2 ml-2">
+            {selected ? (
+                <button onClick={() => setSelected(null)} className="p-1 hover:bg-white/20 rounded-full transition" aria-label={t('common.back')}>
+                    <ArrowLeft size={22} />
+                </button>
+            ) : (
+                <History size={22} />
+            )}
+            <h2 className="text-xl font-bold font-[Lobster] tracking-wide">{t('header.history')}</h2>
+          </div>
+          <div className="flex items-center gap-1">
+            <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+            <button onClick={() => fileInputRef.current?.click()} className="p-2 hover:bg-white/20 rounded-full transition" title={t('common.import')}>
+                <Upload size={20} />
+            </button>
+            <button onClick={handleExport} className="p-2 hover:bg-white/20 rounded-full transition" title={t('common.export')}>
+                <Download size={20} />
+            </button>
+            <button onClick={onClose} className="p-1 hover:bg-white/20 rounded-full transition">
+                <X size={24} />
+            </button>
+          </div>
+        </div>
+
+        <div className="overflow-y-auto flex-1">
+            {selected ? (
+                /* Detail view */
+                <div>
+                    {selected.image ? (
+                        <img src={selected.image} alt={t('fact.imageAlt')} className="w-full h-48 sm:h-64 object-cover" />
+                    ) : (
+                        <div className="w-full h-32 flex items-center justify-center bg-gray-100 text-gray-400">
+                            <ImageIcon size={40} />
+                        </div>
+                    )}
+                    <div className="p-6 space-y-6">
+                        <div>
+                            <p className="text-xs text-gray-500 mb-2">{categoryName(selected.category)} · {formatDate(selected.timestamp)}</p>
+                            {selected.disputed && (
+                                <p className="mb-2 inline-flex items-center gap-1 text-xs font-bold text-red-700 bg-red-50 border border-red-200 px-2 py-0.5 rounded-full">
+                                    <Flag size={12} /> {t('history.disputed')}
+                                </p>
+                            )}
+                            <p className="text-lg leading-relaxed border-l-4 border-amber-300 pl-4 text-gray-800">{factBody(selected.fact)}</p>
+                            {selected.source && (
+                                <a
+                                    href={selected.source.url}
+                                    target="_blank"
+                                    rel="noopener noreferrer"
+                                    className="mt-3 ml-5 inline-flex items-center gap-1 text-sm text-amber-700 hover:underline"
+                                >
+                                    <ExternalLink size={14} /> {t('fact.source', { title: selected.source.title })}
+                                </a>
+                            )}
+                        </div>
+
+                        {selected.quiz && (
+                            <div className="bg-indigo-50 p-5 rounded-xl border border-indigo-100">
+                                <h3 className="font-bold text-gray-900 mb-3">{selected.quiz.question}</h3>
+                                {isChoiceQuiz(selected.quiz) ? (
+                                <ul className="space-y-2 text-sm">
+                                    {selected.quiz.options.map(option => {
+                                        const isCorrect = option === (selected.quiz as ChoiceQuiz).correctAnswer;
+                                        const isChosen = option === selected.answer?.chosenOption;
+                                        return (
+                                            <li
+                                                key={option}
+                                                className={`p-2 rounded-lg border flex justify-between items-center ${
+                                                    isCorrect ? 'border-green-500 bg-green-50 text-green-900'
+                                                    : isChosen ? 'border-red-500 bg-red-50 text-red-900'
+                                                    : 'border-transparent bg-white text-gray-500'
+                                                }`}
+                                            >
+                                                <span>{option}</span>
+                                                {isChosen && (isCorrect ? <CheckCircle size={16} className="text-green-600" /> : <XCircle size={16} className="text-red-600" />)}
+                                            </li>
+                                        );
+                                    })}
+                                </ul>
+                                ) : (
+                                <div className="space-y-2 text-sm">
+                                    <p className="text-xs font-bold uppercase text-indigo-700">{quizKindLabel(quizKind(selected.quiz))}</p>
+                                    {selected.answer?.chosenOption && (
+                                        <p className={`p-2 rounded-lg border flex justify-between items-center ${
+                                            selected.answer.isCorrect ? 'border-green-500 bg-green-50 text-green-900' : 'border-red-500 bg-red-50 text-red-900'
+                                        }`}>
+                                            <span>{t('history.yourAnswer', { answer: selected.answer.chosenOption })}</span>
+                                            {selected.answer.isCorrect ? <CheckCircle size={16} className="text-green-600" /> : <XCircle size={16} className="text-red-600" />}
+                                        </p>
+                                    )}
+                                    <p className="p-2 rounded-lg border border-green-500 bg-green-50 text-green-900">
+                                        {t('quiz.correctAnswer')} {formatCorrectAnswer(selected.quiz)}
+                                    </p>
+                                </div>
+                                )}
+                                {!selected.answer && <p className="text-xs text-gray-500 mt-3 italic">{t('history.unanswered')}</p>}
+                                {selected.answer?.timedOut && <p className="text-xs text-red-600 mt-3 italic">{t('history.timedOut')}</p>}
+                                {selected.answer?.points !== undefined && (
+                                    <p className="text-xs text-gray-500 mt-3">
+                                        {t('history.points', { points: selected.answer.points })}
+                                        {selected.answer.responseTimeMs !== undefined && !selected.answer.timedOut && ` · ${(selected.answer.responseTimeMs / 1000).toFixed(1)} s`}
+                                    </p>
+                                )}
+                                <p className="text-sm text-gray-700 mt-3">{selected.quiz.explanation}</p>
+                            </div>
+                        )}
+                    </div>
+                </div>
+            ) : (
+                /* List view */
+                <div className="p-4">
+                    <div className="grid grid-cols-2 gap-2 mb-4">
+                        <select
+                            value={filter}
+                            onChange={(e) => setFilter(e.target.value as Category | 'all')}
+                            className="w-full p-2 rounded-lg border border-gray-300 bg-white text-sm"
+                        >
+                            <option value="all">{t('history.allCategories')}</option>
+                            {getCategories().map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                        </select>
+                        <select
+                            value={levelFilter}
+                            onChange={(e) => setLevelFilter(e.target.value as Difficulty | 'all')}
+                            className="w-full p-2 rounded-lg border border-gray-300 bg-white text-sm"
+                        >
+                            <option value="all">{t('history.allLevels')}</option>
+                            {DIFFICULTIES.map(d => <option key={d} value={d}>{difficultyLabel(d)}</option>)}
+                        </select>
+                    </div>
+
+                    {/* Answers per difficulty level */}
+                    <div className="grid grid-cols-4 gap-2 mb-4">
+                        {DIFFICULTIES.map(d => {
+                            const { correct, wrong } = levelStats[d];
+                            const total = correct + wrong;
+                            return (
+                                <div key={d} className="p-2 rounded-lg bg-gray-50 border border-gray-100 text-center">
+                                    <p className="text-[10px] uppercase font-bold text-gray-500">{difficultyLabel(d)}</p>
+                                    <p className="text-sm font-bold text-gray-800">{total === 0 ? '–' : `${Math.round((correct / total) * 100)}%`}</p>
+                                    <p className="text-[10px] text-gray-400">{t('history.levelTally', { correct, wrong })}</p>
+                                </div>
+                            );
+                        })}
+                    </div>
+
+                    {isLoading ? (
+                        <p className="text-center text-gray-500 text-sm py-8">{t('fact.loading')}</p>
+                    ) : visible.length === 0 ? (
+                        <p className="text-center text-gray-500 text-sm italic py-8">{t('history.empty')}</p>
+                    ) : (
+                        <ul className="space-y-2">
+                            {visible.map(entry => (
+                                <li key={entry.id ?? entry.timestamp}>
+                                    <button
+                                        onClick={() => setSelected(entry)}
+                                        className="w-full flex items-center gap-3 p-2 rounded-lg hover:bg-amber-50 border border-gray-100 text-left transition"
+                                    >
+                                        <div className="w-16 h-12 rounded-md overflow-hidden bg-gray-100 shrink-0 flex items-center justify-center text-gray-400">
+                                            {entry.image ? <img src={entry.image} alt="" className="w-full h-full object-cover" /> : <ImageIcon size={20} />}
+                                        </div>
+                                        <div className="flex-1 min-w-0">
+                                            <p className="text-xs text-gray-500">
+                                                {categoryName(entry.category)}
+                                                {entry.quiz?.difficulty && ` · ${difficultyLabel(entry.quiz.difficulty)}`}
+                                                {' · '}{formatDate(entry.timestamp)}
+                                            </p>
+                                            <p className="text-sm text-gray-800 truncate">{factBody(entry.fact)}</p>
+                                        </div>
+                                        {entry.disputed
+                                            ? <Flag size={18} className="text-gray-400 shrink-0" />
+                                            : entry.answer && (entry.answer.isCorrect
+                                                ? <CheckCircle size={18} className="text-green-600 shrink-0" />
+                                                : <XCircle size={18} className="text-red-600 shrink-0" />
+                                            )}
+                                    </button>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+            )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HistoryBrowser;
@@ -0,0 +1,160 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { fetchTriviaAudio } from '../services/contentProvider';
+import {
+  NARRATION_RATES,
+  Narration,
+  NarrationProgress,
+  canSynthesizeSpeech,
+  createNarration,
+  formatPlaybackTime,
+  getNarrationSettings,
+  updateNarrationSettings,
+} from '../services/narration';
+import { t } from '../services/i18n';
+import { Play, Pause, Download, Volume2, VolumeX, RefreshCw } from 'lucide-react';
+
+const IDLE: NarrationProgress = { isPlaying: false, progress: 0, position: null, duration: null };
+
+// Whether a text can be read aloud at all, recorded audio or not
+export const canNarrate = (audioBase64: string | null) => audioBase64 !== null || canSynthesizeSpeech();
+
+interface NarrationPlayerProps {
+  // Recorded narration as raw 24kHz PCM; without it the browser's speech synthesis reads the text
+  audioBase64: string | null;
+  text: string;
+  // File name of the download, without extension
+  downloadName: string;
+}
+
+// Full controls for the narration of a fact: play/pause, a seekable progress bar, speed and download
+const NarrationPlayer: React.FC<NarrationPlayerProps> = ({ audioBase64, text, downloadName }) => {
+  const [narration, setNarration] = useState<Narration | null>(null);
+  const [progress, setProgress] = useState<NarrationProgress>(IDLE);
+  const [rate, setRate] = useState(() => getNarrationSettings().rate);
+
+  // A new narration starts from the top, and by itself when the player asked for that
+  useEffect(() => {
+    setProgress(IDLE);
+    const created = createNarration(audioBase64, text, setProgress);
+    setNarration(created);
+    if (!created) return;
+    created.setRate(getNarrationSettings().rate);
+    if (getNarrationSettings().autoPlay) created.play();
+    return () => created.dispose();
+  }, [audioBase64, text]);
+
+  if (!narration) return null;
+
+  const seek = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    narration.seek(Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)));
+  };
+
+  const cycleRate = () => {
+    const next = NARRATION_RATES[(NARRATION_RATES.indexOf(rate) + 1) % NARRATION_RATES.length];
+    setRate(updateNarrationSettings({ rate: next }).rate);
+    narration.setRate(next);
+  };
+
+  return (
+    <div className="flex items-center gap-3 px-4 py-2 bg-amber-50 border-b border-amber-200 text-amber-900">
+        <button
+            onClick={progress.isPlaying ? narration.pause : narration.play}
+            className={`p-2 rounded-full shadow transition ${progress.isPlaying ? 'bg-red-500 text-white' : 'bg-white text-amber-700 hover:bg-amber-100'}`}
+            aria-label={progress.isPlaying ? t('narration.pause') : t('fact.readAloud')}
+        >
+            {progress.isPlaying ? <Pause size={18} /> : <Play size={18} />}
+        </button>
+        <div className="flex-1 h-2 bg-amber-200 rounded-full overflow-hidden cursor-pointer" onClick={seek}>
+            <div
+                style={{ width: `${progress.progress * 100}%` }}
+                className="h-full bg-amber-500 transition-[width] duration-200 ease-linear"
+            />
+        </div>
+        {progress.duration !== null ? (
+            <span className="text-xs font-mono w-20 text-right">
+                {formatPlaybackTime(progress.position ?? 0)} / {formatPlaybackTime(progress.duration)}
+            </span>
+        ) : (
+            <span className="text-xs italic" title={t('narration.browserVoiceHint')}>{t('narration.browserVoice')}</span>
+        )}
+        <button
+            onClick={cycleRate}
+            className="text-xs font-bold font-mono px-2 py-1 rounded bg-white border border-amber-200 hover:bg-amber-100 transition"
+            title={t('narration.speed')}
+        >
+            {rate}x
+        </button>
+        {narration.downloadUrl && (
+            <a
+                href={narration.downloadUrl}
+                download={`${downloadName}.wav`}
+                className="p-1 text-amber-700 hover:text-amber-900 transition"
+                title={t('narration.download')}
+            >
+                <Download size={18} />
+            </a>
+        )}
+    </div>
+  );
+};
+
+// Narrations fetched on demand, per voice and text, so reading the same text again costs no request;
+// null marks texts the provider could not narrate, which the browser reads instead
+const onDemandAudio = new Map<string, string | null>();
+
+interface ReadAloudButtonProps {
+  text: string;
+  className?: string;
+}
+
+// Speaker button that has a short text (a question, an explanation) narrated when it is first pressed
+export const ReadAloudButton: React.FC<ReadAloudButtonProps> = ({ text, className = '' }) => {
+  const narrationRef = useRef<Narration | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [isUnavailable, setIsUnavailable] = useState(false);
+
+  useEffect(() => () => narrationRef.current?.dispose(), []);
+
+  const handleClick = async () => {
+    if (isPlaying) {
+      narrationRef.current?.pause();
+      return;
+    }
+
+    if (!narrationRef.current) {
+      const key = `${getNarrationSettings().voice}|${text}`;
+      if (!onDemandAudio.has(key)) {
+        setIsLoading(true);
+        onDemandAudio.set(key, await fetchTriviaAudio(text));
+        setIsLoading(false);
+      }
+      narrationRef.current = createNarration(onDemandAudio.get(key) ?? null, text, p => setIsPlaying(p.isPlaying));
+      if (!narrationRef.current) {
+        setIsUnavailable(true);
+        return;
+      }
+    }
+
+    narrationRef.current.setRate(getNarrationSettings().rate);
+    narrationRef.current.play();
+  };
+
+  return (
+    <button
+        type="button"
+        onClick={handleClick}
+        disabled={isLoading || isUnavailable}
+        className={`p-1 rounded-full transition disabled:opacity-40 ${isPlaying ? 'text-red-600' : 'text-indigo-500 hover:text-indigo-700'} ${className}`}
+        title={isUnavailable ? t('narration.unavailable') : isPlaying ? t('narration.pause') : t('fact.readAloud')}
+    >
+        {isLoading ? <RefreshCw size={16} className="animate-spin" />
+            : isUnavailable ? <VolumeX size={16} />
+            : isPlaying ? <Pause size={16} />
+            : <Volume2 size={16} />}
+    </button>
+  );
+};
+
+export default NarrationPlayer;
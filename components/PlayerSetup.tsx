@@ -0,0 +1,154 @@
+import React, { useEffect, useState } from 'react';
+import { GameMode } from '../types';
+import { X, Users, UserPlus, Trash2, Play } from 'lucide-react';
+import { DEFAULT_ROUNDS, MAX_PLAYERS, MIN_PLAYERS, minPlayersFor } from '../services/gameSession';
+import { t } from '../services/i18n';
+
+interface PlayerSetupProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onStart: (names: string[], rounds: number, mode: GameMode) => void;
+}
+
+const ROUND_OPTIONS = [3, 5, 8, 10];
+
+const PlayerSetup: React.FC<PlayerSetupProps> = ({ isOpen, onClose, onStart }) => {
+  const [names, setNames] = useState<string[]>(['', '']);
+  const [rounds, setRounds] = useState(DEFAULT_ROUNDS);
+  const [mode, setMode] = useState<GameMode>('rounds');
+
+  useEffect(() => {
+    if (isOpen) setRounds(DEFAULT_ROUNDS);
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const filledNames = names.map(n => n.trim()).filter(Boolean);
+  const uniqueNames = new Set(filledNames.map(n => n.toLowerCase()));
+  const hasDuplicates = uniqueNames.size !== filledNames.length;
+  const canStart = filledNames.length >= minPlayersFor(mode) && !hasDuplicates;
+
+  const updateName = (index: number, value: string) => {
+    setNames(prev => prev.map((n, i) => i === index ? value : n));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (canStart) onStart(filledNames, rounds, mode);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center px-4 animate-fade-in">
+      <div className="absolute inset-0 bg-black/80 backdrop-blur-sm" onClick={onClose} />
+
+      <form
+        onSubmit={handleSubmit}
+        className="relative bg-white text-gray-900 rounded-2xl w-full max-w-md shadow-2xl overflow-hidden border-4 border-amber-500 max-h-[90vh] flex flex-col"
+      >
+        <div className="p-3 flex justify-between items-center text-white shrink-0 bg-gradient-to-r from-amber-500 to-orange-600">
+          <div className="flex items-center gap-2 ml-2">
+            <Users size={22} />
+            <h2 className="text-xl font-bold font-[Lobster] tracking-wide">{t('header.playTogether')}</h2>
+          </div>
+          <button type="button" onClick={onClose} className="p-1 hover:bg-white/20 rounded-full transition">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-5 overflow-y-auto">
+            <p className="text-sm text-gray-600">
+                {t('players.intro')}
+            </p>
+
+            <div className="space-y-2">
+                {names.map((name, i) => (
+                    <div key={i} className="flex gap-2">
+                        <input
+                            type="text"
+                            value={name}
+                            onChange={(e) => updateName(i, e.target.value)}
+                            placeholder={t('players.placeholder', { n: i + 1 })}
+                            maxLength={20}
+                            autoFocus={i === 0}
+                            className="flex-1 p-2 rounded-lg border border-gray-300 focus:border-amber-500 outline-none"
+                        />
+                        {names.length > MIN_PLAYERS && (
+                            <button
+                                type="button"
+                                onClick={() => setNames(prev => prev.filter((_, j) => j !== i))}
+                                className="p-2 text-gray-400 hover:text-red-600 transition"
+                                aria-label={t('players.remove')}
+                            >
+                                <Trash2 size={18} />
+                            </button>
+                        )}
+                    </div>
+                ))}
+                {names.length < MAX_PLAYERS && (
+                    <button
+                        type="button"
+                        onClick={() => setNames(prev => [...prev, ''])}
+                        className="flex items-center gap-2 text-sm text-amber-700 font-bold hover:text-amber-900 py-1"
+                    >
+                        <UserPlus size={16} /> {t('players.add')}
+                    </button>
+                )}
+                {hasDuplicates && <p className="text-xs text-red-600">{t('players.duplicate')}</p>}
+            </div>
+
+            <div>
+                <p className="text-sm font-bold text-gray-700 mb-2">{t('players.mode')}</p>
+                <div className="grid grid-cols-2 gap-2">
+                    <button
+                        type="button"
+                        onClick={() => setMode('rounds')}
+                        className={`p-3 rounded-lg border-2 text-left transition ${mode === 'rounds' ? 'border-amber-500 bg-amber-50' : 'border-gray-200 hover:border-amber-300'}`}
+                    >
+                        <span className="block font-bold text-sm text-gray-800">{t('players.rounds')}</span>
+                        <span className="block text-xs text-gray-500">{t('players.roundsHint')}</span>
+                    </button>
+                    <button
+                        type="button"
+                        onClick={() => setMode('wedges')}
+                        className={`p-3 rounded-lg border-2 text-left transition ${mode === 'wedges' ? 'border-amber-500 bg-amber-50' : 'border-gray-200 hover:border-amber-300'}`}
+                    >
+                        <span className="block font-bold text-sm text-gray-800">{t('players.wedges')}</span>
+                        <span className="block text-xs text-gray-500">{t('players.wedgesHint')}</span>
+                    </button>
+                </div>
+            </div>
+
+            {mode === 'rounds' && (
+            <div>
+                <p className="text-sm font-bold text-gray-700 mb-2">{t('players.roundCount')}</p>
+                <div className="flex gap-2">
+                    {ROUND_OPTIONS.map(r => (
+                        <button
+                            key={r}
+                            type="button"
+                            onClick={() => setRounds(r)}
+                            className={`flex-1 py-2 rounded-lg border-2 font-bold transition ${rounds === r ? 'border-amber-500 bg-amber-50 text-amber-800' : 'border-gray-200 text-gray-500 hover:border-amber-300'}`}
+                        >
+                            {r}
+                        </button>
+                    ))}
+                </div>
+            </div>
+            )}
+        </div>
+
+        <div className="p-4 bg-gray-50 border-t border-gray-200 shrink-0">
+            <button
+                type="submit"
+                disabled={!canStart}
+                className="w-full flex items-center justify-center gap-2 py-3 bg-gradient-to-r from-amber-500 to-orange-600 text-white font-bold rounded-lg shadow disabled:opacity-40 transition"
+            >
+                <Play size={18} /> {t('players.start')}
+            </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default PlayerSetup;
@@ -0,0 +1,90 @@
+import React from 'react';
+import { GameSession } from '../types';
+import { getStandings, getWedges } from '../services/gameSession';
+import WedgeRing from './WedgeRing';
+import { t } from '../services/i18n';
+import { Trophy, RotateCcw, X } from 'lucide-react';
+
+interface PodiumProps {
+  session: GameSession;
+  onPlayAgain: () => void;
+  onClose: () => void;
+}
+
+const MEDALS = ['🥇', '🥈', '🥉'];
+// Classic podium order: second, first, third
+const PODIUM_ORDER = [1, 0, 2];
+const PODIUM_HEIGHTS = ['h-40', 'h-28', 'h-20'];
+
+const Podium: React.FC<PodiumProps> = ({ session, onPlayAgain, onClose }) => {
+  const standings = getStandings(session);
+  const winner = session.players.find(p => p.id === session.winnerId);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center px-4 animate-fade-in">
+      <div className="absolute inset-0 bg-black/85 backdrop-blur-sm" />
+
+      <div className="relative w-full max-w-xl text-white text-center">
+        <Trophy className="mx-auto text-yellow-400 mb-2 drop-shadow-lg" size={48} />
+        <h2 className={`text-4xl font-[Lobster] text-amber-400 drop-shadow ${winner ? 'mb-2' : 'mb-8'}`}>{t('podium.title')}</h2>
+        {winner && (
+            <p className="text-lg text-white/90 mb-8">
+                <span className="font-bold text-amber-300">{winner.name}</span> {t('podium.winner')}
+            </p>
+        )}
+
+        {/* Top three on the podium */}
+        <div className="flex items-end justify-center gap-3 mb-8">
+            {PODIUM_ORDER.map(pos => {
+                const standing = standings[pos];
+                if (!standing) return null;
+                return (
+                    <div key={standing.player.id} className="flex flex-col items-center w-28 animate-fade-in-up">
+                        <span className="text-3xl mb-1">{MEDALS[standing.rank - 1] ?? ''}</span>
+                        <span className="font-bold truncate max-w-full">{standing.player.name}</span>
+                        <span className="text-sm text-amber-300 mb-2">{t('history.points', { points: standing.points })}</span>
+                        {session.mode === 'wedges' && (
+                            <div className="mb-2">
+                                <WedgeRing wedges={getWedges(standing.player)} size={40} />
+                            </div>
+                        )}
+                        <div className={`w-full ${PODIUM_HEIGHTS[pos]} bg-gradient-to-t from-amber-700 to-amber-500 rounded-t-lg border-2 border-amber-300 flex items-start justify-center pt-2 text-2xl font-black`}>
+                            {standing.rank}
+                        </div>
+                    </div>
+                );
+            })}
+        </div>
+
+        {/* The rest of the field */}
+        {standings.length > 3 && (
+            <ol className="bg-black/40 border border-white/10 rounded-xl p-4 mb-8 text-left space-y-1">
+                {standings.slice(3).map(s => (
+                    <li key={s.player.id} className="flex justify-between text-sm">
+                        <span><span className="text-gray-400 mr-2">{s.rank}.</span>{s.player.name}</span>
+                        <span className="text-amber-300">{t('history.points', { points: s.points })}</span>
+                    </li>
+                ))}
+            </ol>
+        )}
+
+        <div className="flex gap-3 justify-center">
+            <button
+                onClick={onPlayAgain}
+                className="flex items-center gap-2 bg-gradient-to-r from-amber-500 to-orange-600 hover:from-amber-400 hover:to-orange-500 text-white font-bold py-3 px-6 rounded-full shadow-lg transition hover:scale-105"
+            >
+                <RotateCcw size={18} /> {t('podium.again')}
+            </button>
+            <button
+                onClick={onClose}
+                className="flex items-center gap-2 bg-white/10 hover:bg-white/20 text-white font-bold py-3 px-6 rounded-full border border-white/20 transition"
+            >
+                <X size={18} /> {t('podium.stop')}
+            </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Podium;
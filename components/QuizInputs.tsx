@@ -0,0 +1,187 @@
+import React, { useState } from 'react';
+import { ChoiceQuiz, EstimateQuiz, OrderQuiz, QuizAnswer, TextQuiz, TrueFalseQuiz } from '../types';
+import { trueFalseLabel } from '../services/quizFormats';
+import { parseNumber } from '../services/topicValidation';
+import { t } from '../services/i18n';
+import { CheckCircle, XCircle, ArrowUp, ArrowDown, Send } from 'lucide-react';
+
+// Answer controls per question format. They lock once the question is answered and report
+// the player's answer through onSubmit; grading happens in QuizQuestion.
+
+interface InputProps<Q> {
+  quiz: Q;
+  // The submitted answer, or null while the question is open (and after a timeout)
+  answer: QuizAnswer | null;
+  isAnswered: boolean;
+  onSubmit: (answer: QuizAnswer) => void;
+}
+
+const optionClass = (isAnswered: boolean, isRight: boolean, isChosen: boolean) => {
+  const base = "w-full p-3 text-left rounded-lg border-2 transition-all font-medium relative text-sm md:text-base ";
+  if (!isAnswered) return base + "bg-white border-indigo-100 hover:border-indigo-400 hover:bg-indigo-50 text-gray-700";
+  if (isRight) return base + "border-green-500 bg-green-50 text-green-900";
+  if (isChosen) return base + "border-red-500 bg-red-50 text-red-900 opacity-70";
+  return base + "border-transparent bg-gray-100 text-gray-400";
+};
+
+const OptionButton: React.FC<{ label: string; isAnswered: boolean; isRight: boolean; isChosen: boolean; onClick: () => void }> = ({
+    label, isAnswered, isRight, isChosen, onClick
+}) => (
+    <button onClick={onClick} disabled={isAnswered} className={optionClass(isAnswered, isRight, isChosen)}>
+        <span className="mr-6 block">{label}</span>
+        {isAnswered && isRight && (
+            <CheckCircle className="absolute right-3 top-1/2 -translate-y-1/2 text-green-600" size={18}/>
+        )}
+        {isAnswered && isChosen && !isRight && (
+            <XCircle className="absolute right-3 top-1/2 -translate-y-1/2 text-red-600" size={18}/>
+        )}
+    </button>
+);
+
+export const ChoiceInput: React.FC<InputProps<ChoiceQuiz>> = ({ quiz, answer, isAnswered, onSubmit }) => (
+    <div className="space-y-3">
+        {quiz.options.map((option, idx) => (
+            <OptionButton
+                key={idx}
+                label={option}
+                isAnswered={isAnswered}
+                isRight={option === quiz.correctAnswer}
+                isChosen={answer?.kind === 'choice' && answer.option === option}
+                onClick={() => onSubmit({ kind: 'choice', option })}
+            />
+        ))}
+    </div>
+);
+
+export const TrueFalseInput: React.FC<InputProps<TrueFalseQuiz>> = ({ quiz, answer, isAnswered, onSubmit }) => (
+    <div className="grid grid-cols-2 gap-3">
+        {[true, false].map(value => (
+            <OptionButton
+                key={String(value)}
+                label={trueFalseLabel(value)}
+                isAnswered={isAnswered}
+                isRight={value === quiz.correctAnswer}
+                isChosen={answer?.kind === 'truefalse' && answer.value === value}
+                onClick={() => onSubmit({ kind: 'truefalse', value })}
+            />
+        ))}
+    </div>
+);
+
+const inputClass = "flex-1 p-3 rounded-lg border-2 border-indigo-100 focus:border-indigo-400 outline-none bg-white text-gray-800 disabled:bg-gray-100";
+const submitClass = "flex items-center gap-2 px-4 bg-indigo-600 hover:bg-indigo-700 text-white font-bold rounded-lg shadow disabled:opacity-40 transition";
+
+export const EstimateInput: React.FC<InputProps<EstimateQuiz>> = ({ quiz, isAnswered, onSubmit }) => {
+  const [value, setValue] = useState('');
+  const parsed = parseNumber(value);
+  const isValid = parsed !== null;
+
+  return (
+    <form
+        className="flex gap-2 items-center"
+        onSubmit={(e) => { e.preventDefault(); if (parsed !== null) onSubmit({ kind: 'estimate', value: parsed }); }}
+    >
+        <input
+            type="text"
+            inputMode="decimal"
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+            disabled={isAnswered}
+            placeholder={t('quiz.estimatePlaceholder')}
+            autoFocus
+            className={inputClass}
+        />
+        {quiz.unit && <span className="text-gray-600 font-medium">{quiz.unit}</span>}
+        <button type="submit" disabled={isAnswered || !isValid} className={`${submitClass} py-3`}>
+            <Send size={16} />
+        </button>
+    </form>
+  );
+};
+
+// Start from a shuffled order that is never already the right one
+const shuffledOrder = (items: string[]): string[] => {
+  const result = [...items];
+  do {
+    for (let i = result.length - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1));
+      [result[i], result[j]] = [result[j], result[i]];
+    }
+  } while (result.every((item, i) => item === items[i]));
+  return result;
+};
+
+export const OrderInput: React.FC<InputProps<OrderQuiz>> = ({ quiz, isAnswered, onSubmit }) => {
+  const [order, setOrder] = useState(() => shuffledOrder(quiz.items));
+
+  const move = (from: number, to: number) => {
+    if (to < 0 || to >= order.length) return;
+    setOrder(prev => {
+      const next = [...prev];
+      [next[from], next[to]] = [next[to], next[from]];
+      return next;
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+        <ol className="space-y-2">
+            {order.map((item, i) => {
+                const inPlace = quiz.items[i] === item;
+                return (
+                    <li
+                        key={item}
+                        className={`flex items-center gap-2 p-2 rounded-lg border-2 text-sm md:text-base ${
+                            !isAnswered ? 'bg-white border-indigo-100'
+                            : inPlace ? 'border-green-500 bg-green-50 text-green-900'
+                            : 'border-red-500 bg-red-50 text-red-900'
+                        }`}
+                    >
+                        <span className="w-6 text-center font-mono text-gray-400">{i + 1}</span>
+                        <span className="flex-1 font-medium">{item}</span>
+                        {!isAnswered && (
+                            <>
+                                <button onClick={() => move(i, i - 1)} disabled={i === 0} className="p-1 text-indigo-600 disabled:opacity-20" aria-label={t('quiz.moveUp')}>
+                                    <ArrowUp size={18} />
+                                </button>
+                                <button onClick={() => move(i, i + 1)} disabled={i === order.length - 1} className="p-1 text-indigo-600 disabled:opacity-20" aria-label={t('quiz.moveDown')}>
+                                    <ArrowDown size={18} />
+                                </button>
+                            </>
+                        )}
+                    </li>
+                );
+            })}
+        </ol>
+        {!isAnswered && (
+            <button onClick={() => onSubmit({ kind: 'order', items: order })} className={`${submitClass} w-full justify-center py-3`}>
+                <Send size={16} /> {t('quiz.checkOrder')}
+            </button>
+        )}
+    </div>
+  );
+};
+
+export const TextInput: React.FC<InputProps<TextQuiz>> = ({ isAnswered, onSubmit }) => {
+  const [text, setText] = useState('');
+
+  return (
+    <form
+        className="flex gap-2"
+        onSubmit={(e) => { e.preventDefault(); if (text.trim()) onSubmit({ kind: 'text', text }); }}
+    >
+        <input
+            type="text"
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            disabled={isAnswered}
+            placeholder={t('quiz.textPlaceholder')}
+            autoFocus
+            className={inputClass}
+        />
+        <button type="submit" disabled={isAnswered || !text.trim()} className={`${submitClass} py-3`}>
+            <Send size={16} />
+        </button>
+    </form>
+  );
+};
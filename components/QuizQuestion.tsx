@@ -0,0 +1,220 @@
+import React, { forwardRef, useEffect, useImperativeHandle, useRef, useState } from 'react';
+import { QuizAnswer, QuizAnswerResult, QuizData } from '../types';
+import { difficultyLabel } from '../services/difficulty';
+import { formatCorrectAnswer, gradeAnswer, isChoiceQuiz, quizKind, quizKindLabel } from '../services/quizFormats';
+import { t } from '../services/i18n';
+import { ChoiceInput, EstimateInput, OrderInput, TextInput, TrueFalseInput } from './QuizInputs';
+import { ReadAloudButton } from './NarrationPlayer';
+import { BrainCircuit, Timer } from 'lucide-react';
+
+interface QuizQuestionProps {
+  quiz: QuizData;
+  onAnswer: (result: QuizAnswerResult) => void;
+  // Countdown in seconds; null plays without time pressure
+  timeLimitSeconds?: number | null;
+  // Start the clock on mount instead of waiting for the start button
+  autoStart?: boolean;
+  // Points the answer earned, filled in by the parent once it has scored it
+  awardedPoints?: number | null;
+  // Headline shown after a correct answer
+  correctMessage?: string;
+  label?: string;
+}
+
+export interface QuizQuestionHandle {
+  // Settle a running countdown as a timeout, e.g. when the player walks away
+  forfeit: () => void;
+}
+
+// Below this many milliseconds the countdown turns red
+const CLOCK_WARNING_MS = 5000;
+
+// A single question of any format with an optional countdown. Mount it with a fresh key per question;
+// response times are measured from mount (untimed) or from the start of the clock (timed).
+const QuizQuestion = forwardRef<QuizQuestionHandle, QuizQuestionProps>(({
+    quiz,
+    onAnswer,
+    timeLimitSeconds = null,
+    autoStart = false,
+    awardedPoints = null,
+    correctMessage = t('fact.correct'),
+    label = t('quiz.label')
+}, ref) => {
+  const [answer, setAnswer] = useState<QuizAnswer | null>(null);
+  const [quizResult, setQuizResult] = useState<'correct' | 'partial' | 'wrong' | null>(null);
+  const [accuracy, setAccuracy] = useState(0);
+  const [timedOut, setTimedOut] = useState(false);
+  const [responseTimeMs, setResponseTimeMs] = useState<number | null>(null);
+  // Timed questions stay hidden until the player starts the clock
+  const [clockStarted, setClockStarted] = useState(false);
+  const [remainingMs, setRemainingMs] = useState(0);
+  const shownAtRef = useRef(Date.now());
+  const answeredRef = useRef(false);
+  // The countdown interval outlives renders, so it reports through the latest callback
+  const onAnswerRef = useRef(onAnswer);
+  onAnswerRef.current = onAnswer;
+
+  const timeLimitMs = timeLimitSeconds ? timeLimitSeconds * 1000 : null;
+
+  const startClock = () => {
+    shownAtRef.current = Date.now();
+    setRemainingMs(timeLimitMs ?? 0);
+    setClockStarted(true);
+  };
+
+  // Settle the question once; a null answer means the time ran out
+  const finish = (given: QuizAnswer | null) => {
+    if (answeredRef.current) return;
+    answeredRef.current = true;
+
+    const didTimeOut = given === null;
+    const elapsed = didTimeOut ? timeLimitMs : Date.now() - shownAtRef.current;
+    const graded = didTimeOut ? null : gradeAnswer(quiz, given);
+    const isCorrect = graded?.isCorrect ?? false;
+    const score = graded?.accuracy ?? 0;
+
+    setAnswer(given);
+    setTimedOut(didTimeOut);
+    setResponseTimeMs(elapsed);
+    setAccuracy(score);
+    setQuizResult(isCorrect ? 'correct' : score > 0 ? 'partial' : 'wrong');
+    onAnswerRef.current({
+        isCorrect,
+        accuracy: score,
+        chosenOption: graded?.text ?? null,
+        responseTimeMs: elapsed,
+        timeLimitMs,
+        timedOut: didTimeOut
+    });
+  };
+
+  const renderInput = () => {
+    const props = { answer, isAnswered: quizResult !== null, onSubmit: finish };
+    switch (quiz.kind) {
+        case 'truefalse': return <TrueFalseInput quiz={quiz} {...props} />;
+        case 'estimate': return <EstimateInput quiz={quiz} {...props} />;
+        case 'order': return <OrderInput quiz={quiz} {...props} />;
+        case 'text': return <TextInput quiz={quiz} {...props} />;
+        default: return isChoiceQuiz(quiz) ? <ChoiceInput quiz={quiz} {...props} /> : null;
+    }
+  };
+
+  useImperativeHandle(ref, () => ({
+    forfeit: () => {
+      if (timeLimitMs && clockStarted) finish(null);
+    },
+  }));
+
+  useEffect(() => {
+    if (timeLimitMs && autoStart) startClock();
+  }, []);
+
+  // Countdown; running out counts as a wrong answer
+  useEffect(() => {
+    if (!timeLimitMs || !clockStarted || quizResult !== null) return;
+
+    const tick = () => {
+        const left = timeLimitMs - (Date.now() - shownAtRef.current);
+        if (left <= 0) {
+            finish(null);
+        } else {
+            setRemainingMs(left);
+        }
+    };
+    tick();
+    const interval = setInterval(tick, 100);
+    return () => clearInterval(interval);
+  }, [clockStarted, quizResult, timeLimitMs]);
+
+  return (
+    <div className="bg-indigo-50 p-5 rounded-xl border border-indigo-100 animate-fade-in-up delay-100">
+        <div className="flex items-center gap-2 mb-4 text-indigo-700">
+            <BrainCircuit size={20} />
+            <span className="font-bold text-sm uppercase">{label}</span>
+            {quiz.difficulty && (
+                <span className="text-[10px] font-bold uppercase bg-indigo-100 text-indigo-700 px-2 py-0.5 rounded-full">
+                    {difficultyLabel(quiz.difficulty)}
+                </span>
+            )}
+            {!isChoiceQuiz(quiz) && (
+                <span className="text-[10px] font-bold uppercase bg-purple-100 text-purple-700 px-2 py-0.5 rounded-full">
+                    {quizKindLabel(quizKind(quiz))}
+                </span>
+            )}
+            {timeLimitMs && (
+                <span className="ml-auto flex items-center gap-1 text-xs font-bold">
+                    <Timer size={14} /> {timeLimitSeconds} s
+                </span>
+            )}
+        </div>
+
+        {timeLimitMs && !clockStarted && quizResult === null ? (
+            <button
+                onClick={startClock}
+                className="w-full flex items-center justify-center gap-2 py-4 bg-indigo-600 hover:bg-indigo-700 text-white font-bold rounded-lg shadow transition"
+            >
+                <Timer size={20} /> {t('quiz.startClock', { seconds: timeLimitSeconds })}
+            </button>
+        ) : (
+        <>
+        {timeLimitMs && quizResult === null && (
+            <div className="mb-4">
+                <div className="h-2 w-full bg-indigo-100 rounded-full overflow-hidden">
+                    <div
+                        style={{ width: `${(remainingMs / timeLimitMs) * 100}%` }}
+                        className={`h-full transition-[width] duration-100 ease-linear ${remainingMs < CLOCK_WARNING_MS ? 'bg-red-500' : 'bg-indigo-500'}`}
+                    />
+                </div>
+                <p className={`text-right text-xs font-mono mt-1 ${remainingMs < CLOCK_WARNING_MS ? 'text-red-600 font-bold' : 'text-indigo-700'}`}>
+                    {(remainingMs / 1000).toFixed(1)} s
+                </p>
+            </div>
+        )}
+
+        <div className="flex items-start gap-2 mb-4">
+            <h3 className="flex-1 text-lg font-bold text-gray-900 leading-tight">
+                {quiz.question}
+            </h3>
+            <ReadAloudButton text={quiz.question} />
+        </div>
+
+        {renderInput()}
+
+        {quizResult !== null && (
+            <div className={`mt-4 p-3 rounded-lg text-sm border ${
+                quizResult === 'correct' ? 'bg-green-100 border-green-200 text-green-800'
+                : quizResult === 'partial' ? 'bg-amber-50 border-amber-200 text-amber-900'
+                : 'bg-red-50 border-red-100 text-red-900'
+            }`}>
+                <p className="font-bold mb-1">
+                    {timedOut
+                        ? t('quiz.timeUp')
+                        : quizResult === 'correct'
+                        ? correctMessage
+                        : quizResult === 'partial'
+                        ? t('quiz.partial', { percent: Math.round(accuracy * 100) })
+                        : t('quiz.wrong')}
+                </p>
+                {!isChoiceQuiz(quiz) && quizResult !== 'correct' && (
+                    <p className="mb-1">{t('quiz.correctAnswer')} <span className="font-semibold">{formatCorrectAnswer(quiz)}</span></p>
+                )}
+                {(responseTimeMs !== null || awardedPoints !== null) && (
+                    <p className="text-xs font-mono mb-1 opacity-80">
+                        {responseTimeMs !== null && !timedOut && t('quiz.responseTime', { seconds: (responseTimeMs / 1000).toFixed(1) })}
+                        {responseTimeMs !== null && !timedOut && awardedPoints !== null && ' · '}
+                        {awardedPoints !== null && t('quiz.points', { points: awardedPoints })}
+                    </p>
+                )}
+                <div className="flex items-start gap-2">
+                    <p className="flex-1 opacity-90">{quiz.explanation}</p>
+                    <ReadAloudButton text={quiz.explanation} />
+                </div>
+            </div>
+        )}
+        </>
+        )}
+    </div>
+  );
+});
+
+export default QuizQuestion;
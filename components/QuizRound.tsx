@@ -0,0 +1,217 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Category, QuizAnswerResult, QuizRoundQuestion } from '../types';
+import QuizQuestion, { QuizQuestionHandle } from './QuizQuestion';
+import { QUIZ_ROUND_DEFAULT, QUIZ_ROUND_MAX, QUIZ_ROUND_MIN } from '../services/quizRound';
+import { formatCorrectAnswer } from '../services/quizFormats';
+import { categoryName, getCategories, getCategoryIds } from '../services/categories';
+import { t } from '../services/i18n';
+import { X, ListChecks, RefreshCw, ArrowRight, RotateCcw, CheckCircle, XCircle } from 'lucide-react';
+
+interface QuizRoundProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Ask the parent for a round; it passes the questions back in once they are ready
+  onStart: (categories: Category[], count: number) => void;
+  isLoading: boolean;
+  questions: QuizRoundQuestion[] | null;
+  // Scores one answer and returns the points it earned
+  onAnswer: (question: QuizRoundQuestion, result: QuizAnswerResult) => number;
+  timeLimitSeconds?: number | null;
+}
+
+interface AnsweredQuestion {
+  question: QuizRoundQuestion;
+  result: QuizAnswerResult;
+  points: number;
+}
+
+const MIXED = 'mixed';
+
+const QuizRound: React.FC<QuizRoundProps> = ({
+    isOpen,
+    onClose,
+    onStart,
+    isLoading,
+    questions,
+    onAnswer,
+    timeLimitSeconds = null
+}) => {
+  const [choice, setChoice] = useState<Category | typeof MIXED>(MIXED);
+  const [count, setCount] = useState(QUIZ_ROUND_DEFAULT);
+  const [index, setIndex] = useState(0);
+  const [answers, setAnswers] = useState<AnsweredQuestion[]>([]);
+  const quizRef = useRef<QuizQuestionHandle>(null);
+
+  // Every new batch starts from the first question
+  useEffect(() => {
+    setIndex(0);
+    setAnswers([]);
+  }, [questions]);
+
+  if (!isOpen) return null;
+
+  const current = questions?.[index] ?? null;
+  const isAnswered = answers.length > index;
+  const isFinished = questions !== null && questions.length > 0 && answers.length === questions.length && index === questions.length;
+
+  const handleStart = () => onStart(choice === MIXED ? getCategoryIds() : [choice], count);
+
+  const handleAnswer = (result: QuizAnswerResult) => {
+    if (!current) return;
+    const points = onAnswer(current, result);
+    setAnswers(prev => [...prev, { question: current, result, points }]);
+  };
+
+  // Walking away from a running clock forfeits the question
+  const handleClose = () => {
+    quizRef.current?.forfeit();
+    onClose();
+  };
+
+  const correctCount = answers.filter(a => a.result.isCorrect && !a.result.timedOut).length;
+  const totalPoints = answers.reduce((sum, a) => sum + a.points, 0);
+  const timed = answers.filter(a => a.result.responseTimeMs !== null);
+  const averageMs = timed.length > 0 ? timed.reduce((sum, a) => sum + (a.result.responseTimeMs ?? 0), 0) / timed.length : null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center px-4 animate-fade-in">
+      <div className="absolute inset-0 bg-black/80 backdrop-blur-sm" onClick={handleClose} />
+
+      <div className="relative bg-white text-gray-900 rounded-2xl w-full max-w-lg shadow-2xl overflow-hidden border-4 border-indigo-500 max-h-[90vh] flex flex-col">
+        <div className="p-3 flex justify-between items-center text-white shrink-0 bg-gradient-to-r from-indigo-500 to-purple-600">
+          <div className="flex items-center gap-2 ml-2">
+            <ListChecks size={22} />
+            <h2 className="text-xl font-bold font-[Lobster] tracking-wide">{t('header.quizRound')}</h2>
+            {current && !isFinished && (
+                <span className="text-xs font-bold bg-black/20 px-2 py-1 rounded-full">
+                    Vraag {index + 1} van {questions!.length}
+                </span>
+            )}
+          </div>
+          <button onClick={handleClose} className="p-1 hover:bg-white/20 rounded-full transition">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="overflow-y-auto flex-1 p-6">
+            {isLoading ? (
+                <div className="flex flex-col items-center justify-center py-16 gap-3 text-gray-500">
+                    <RefreshCw className="animate-spin text-indigo-500" size={32} />
+                    <span className="text-sm font-medium">{t('round.loading')}</span>
+                </div>
+            ) : isFinished ? (
+                /* Results summary */
+                <div className="space-y-5 animate-fade-in">
+                    <div className="text-center">
+                        <p className="text-5xl font-black text-indigo-600">{correctCount}/{questions!.length}</p>
+                        <p className="text-gray-500 text-sm mt-1">{t('round.correct')}</p>
+                    </div>
+                    <div className="grid grid-cols-2 gap-3 text-center">
+                        <div className="bg-amber-50 border border-amber-200 rounded-lg p-3">
+                            <p className="text-2xl font-bold text-amber-700">{totalPoints}</p>
+                            <p className="text-xs text-gray-500 uppercase">{t('round.points')}</p>
+                        </div>
+                        <div className="bg-indigo-50 border border-indigo-200 rounded-lg p-3">
+                            <p className="text-2xl font-bold text-indigo-700">{averageMs === null ? '–' : `${(averageMs / 1000).toFixed(1)} s`}</p>
+                            <p className="text-xs text-gray-500 uppercase">{t('round.averageTime')}</p>
+                        </div>
+                    </div>
+                    <ol className="space-y-2">
+                        {answers.map(({ question, result, points }, i) => (
+                            <li key={i} className="flex items-start gap-2 text-sm p-2 rounded-lg bg-gray-50 border border-gray-100">
+                                {result.isCorrect && !result.timedOut
+                                    ? <CheckCircle size={16} className="text-green-600 shrink-0 mt-0.5" />
+                                    : <XCircle size={16} className="text-red-600 shrink-0 mt-0.5" />}
+                                <div className="flex-1 min-w-0">
+                                    <p className="font-medium text-gray-800">{question.quiz.question}</p>
+                                    <p className="text-xs text-gray-500">
+                                        {categoryName(question.category)} · {result.timedOut ? t('round.timedOut') : formatCorrectAnswer(question.quiz)}
+                                    </p>
+                                </div>
+                                <span className="text-xs font-mono text-amber-700 shrink-0">+{points}</span>
+                            </li>
+                        ))}
+                    </ol>
+                </div>
+            ) : current ? (
+                <div className="space-y-4">
+                    <p className="text-xs font-bold uppercase tracking-wide text-gray-500">{categoryName(current.category)}</p>
+                    <QuizQuestion
+                        key={index}
+                        ref={quizRef}
+                        quiz={current.quiz}
+                        onAnswer={handleAnswer}
+                        timeLimitSeconds={timeLimitSeconds}
+                        autoStart={index > 0}
+                        awardedPoints={isAnswered ? answers[index].points : null}
+                        label={t('round.question', { n: index + 1 })}
+                    />
+                </div>
+            ) : (
+                /* Setup */
+                <div className="space-y-5">
+                    {questions !== null && (
+                        <p className="text-sm text-red-600">{t('round.failed')}</p>
+                    )}
+                    <p className="text-sm text-gray-600">
+                        {t('round.intro')}
+                    </p>
+                    <div>
+                        <p className="text-sm font-bold text-gray-700 mb-2">{t('round.category')}</p>
+                        <select
+                            value={choice}
+                            onChange={(e) => setChoice(e.target.value as Category | typeof MIXED)}
+                            className="w-full p-2 rounded-lg border border-gray-300 focus:border-indigo-500 outline-none"
+                        >
+                            <option value={MIXED}>{t('settings.mixed')}</option>
+                            {getCategories().map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                        </select>
+                    </div>
+                    <div>
+                        <p className="text-sm font-bold text-gray-700 mb-2">{t('round.count', { count })}</p>
+                        <input
+                            type="range"
+                            min={QUIZ_ROUND_MIN}
+                            max={QUIZ_ROUND_MAX}
+                            value={count}
+                            onChange={(e) => setCount(parseInt(e.target.value, 10))}
+                            className="w-full accent-indigo-600"
+                        />
+                    </div>
+                </div>
+            )}
+        </div>
+
+        {!isLoading && (
+            <div className="p-4 bg-gray-50 border-t border-gray-200 flex gap-3 shrink-0">
+                {isFinished ? (
+                    <button
+                        onClick={handleStart}
+                        className="flex-1 flex items-center justify-center gap-2 py-3 bg-gradient-to-r from-indigo-500 to-purple-600 text-white font-bold rounded-lg shadow transition"
+                    >
+                        <RotateCcw size={18} /> {t('round.again')}
+                    </button>
+                ) : current ? (
+                    <button
+                        onClick={() => setIndex(i => i + 1)}
+                        disabled={!isAnswered}
+                        className="flex-1 flex items-center justify-center gap-2 py-3 bg-gradient-to-r from-indigo-500 to-purple-600 text-white font-bold rounded-lg shadow disabled:opacity-40 transition"
+                    >
+                        {index + 1 < questions!.length ? <>{t('round.next')} <ArrowRight size={18} /></> : <>{t('round.results')} <ListChecks size={18} /></>}
+                    </button>
+                ) : (
+                    <button
+                        onClick={handleStart}
+                        className="flex-1 flex items-center justify-center gap-2 py-3 bg-gradient-to-r from-indigo-500 to-purple-600 text-white font-bold rounded-lg shadow transition"
+                    >
+                        <ListChecks size={18} /> {t('round.start')}
+                    </button>
+                )}
+            </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default QuizRound;
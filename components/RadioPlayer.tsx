@@ -1,32 +1,83 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { RadioStation } from '../types';
-import { Play, Pause, Radio, Volume2, SkipForward, AlertCircle } from 'lucide-react';
-
-// Using reliable streams primarily for Dutch audience given the language of the app
-const STATIONS: RadioStation[] = [
-  { name: "Sky Radio", genre: "Non-stop Hits", url: "https://www.mp3stream.nl/skyradio/mp3" },
-  { name: "Radio 10", genre: "Greatest Hits", url: "https://www.mp3stream.nl/radio10/mp3" },
-  { name: "Qmusic", genre: "Top 40", url: "https://icecast-qmusicnl-cdp.triple-it.nl/Qmusic_nl_live_96.mp3" },
-  { name: "NPO Radio 2", genre: "Variatie", url: "https://icecast.omroep.nl/radio2-bb-mp3" },
-  { name: "Arrow Classic Rock", genre: "Rock", url: "https://stream.arrow.nl/arrow" },
-  { name: "Sublime", genre: "Soul & Jazz", url: "https://stream.sublime.nl/sublime" },
-  { name: "Lofi Hip Hop", genre: "Chill", url: "https://stream.zeno.fm/0r0xa854rp8uv" },
-  { name: "NPO Klassiek", genre: "Klassiek", url: "https://icecast.omroep.nl/radio4-bb-mp3" },
-];
+import { Play, Pause, Radio, Volume2, SkipForward, AlertCircle, ListMusic, Music } from 'lucide-react';
+import { t } from '../services/i18n';
+import { loadPreference, savePreference } from '../services/preferences';
+import { DUCK_LEVEL, fadeVolume, isDucked, isRadioSilenced, subscribeDucking, subscribeRadioSilenced } from '../services/audioCoordinator';
+import { DEFAULT_STATIONS, getStations, nextHealthyStation, recordStationFailure, recordStationSuccess } from '../services/radioStations';
+import { NowPlaying, getNowPlaying, stopNowPlaying, subscribeNowPlaying, watchNowPlaying } from '../services/radioMetadata';
+import RadioStationList from './RadioStationList';
 
+interface RadioPreference {
+  // Stream URL of the last station, so it survives changes to the station list
+  station: string;
+  volume: number;
+}
+
+const DEFAULT_PREFERENCE: RadioPreference = { station: DEFAULT_STATIONS[0].url, volume: 0.5 };
+
+const loadRadioPreference = (): RadioPreference => {
+  const stored = loadPreference<Partial<RadioPreference> | null>('radio', null) ?? {};
+  return {
+    station: typeof stored.station === 'string' ? stored.station : DEFAULT_PREFERENCE.station,
+    volume: typeof stored.volume === 'number' ? Math.min(1, Math.max(0, stored.volume)) : DEFAULT_PREFERENCE.volume,
+  };
+};
+
+// Persistent dock at the bottom of the screen; it plays softer while a fact is read aloud
 const RadioPlayer: React.FC = () => {
+  const [saved] = useState(loadRadioPreference);
+  const [stations, setStations] = useState<RadioStation[]>(getStations);
   const [isPlaying, setIsPlaying] = useState(false);
-  const [currentStationIndex, setCurrentStationIndex] = useState(0);
-  const [volume, setVolume] = useState(0.5);
+  const [currentId, setCurrentId] = useState(() => (stations.find(s => s.url === saved.station) ?? stations[0])?.id ?? '');
+  const [volume, setVolume] = useState(saved.volume);
   const [error, setError] = useState(false);
+  // Shown after the dock skipped a failing stream by itself
+  const [notice, setNotice] = useState<string | null>(null);
+  const [showStations, setShowStations] = useState(false);
+  const [ducked, setDucked] = useState(isDucked);
+  // A soundscape set to replace the radio turns it down to nothing while it plays
+  const [silenced, setSilenced] = useState(isRadioSilenced);
+  const [nowPlaying, setNowPlaying] = useState<NowPlaying | null>(getNowPlaying);
   const audioRef = useRef<HTMLAudioElement | null>(null);
+  // Stations that already failed in the current run of automatic skips, so it cannot go round in circles
+  const triedRef = useRef(new Set<string>());
+
+  const station = stations.find(s => s.id === currentId) ?? stations[0] ?? null;
+
+  useEffect(() => subscribeDucking(setDucked), []);
+
+  useEffect(() => subscribeRadioSilenced(setSilenced), []);
+
+  useEffect(() => subscribeNowPlaying(setNowPlaying), []);
+
+  // Titles are only looked up for the stream that is meant to be heard
+  useEffect(() => {
+    if (!isPlaying || !station) return;
+    watchNowPlaying(station);
+    return stopNowPlaying;
+  }, [isPlaying, station?.url]);
 
+  useEffect(() => {
+    if (station) savePreference<RadioPreference>('radio', { station: station.url, volume });
+  }, [station?.url, volume]);
+
+  // Share of the chosen volume that is heard: none while silenced, a fifth under narration
+  const level = silenced ? 0 : ducked ? DUCK_LEVEL : 1;
+  const quieted = silenced || ducked;
+
+  // The slider acts at once, ducking glides
   useEffect(() => {
     if (audioRef.current) {
-      audioRef.current.volume = volume;
+      audioRef.current.volume = volume * level;
     }
   }, [volume]);
 
+  useEffect(() => {
+    if (!audioRef.current) return;
+    return fadeVolume(audioRef.current, volume * level);
+  }, [level]);
+
   useEffect(() => {
     // Reset error state when station changes or play intent changes
     if (isPlaying) {
@@ -51,9 +102,10 @@ const RadioPlayer: React.FC = () => {
         audioRef.current.pause();
       }
     }
-  }, [isPlaying, currentStationIndex]);
+  }, [isPlaying, station?.id]);
 
   const togglePlay = () => {
+    setNotice(null);
     if (error) {
         // If retrieving from error, reset and try playing
         setError(false);
@@ -64,26 +116,68 @@ const RadioPlayer: React.FC = () => {
     setIsPlaying(!isPlaying);
   };
 
-  const nextStation = () => {
+  const selectStation = (next: RadioStation) => {
+    triedRef.current.clear();
+    setNotice(null);
     setError(false);
-    setIsPlaying(true); // Auto-start next station
-    setCurrentStationIndex((prev) => (prev + 1) % STATIONS.length);
+    setIsPlaying(true); // Auto-start the chosen station
+    setCurrentId(next.id);
   };
 
+  const nextStation = () => {
+    if (stations.length === 0) return;
+    selectStation(stations[(stations.indexOf(station!) + 1) % stations.length]);
+  };
+
+  const reloadStations = () => setStations(getStations());
+
   const handleError = () => {
       console.warn("Stream failed to load/play");
+      // Only streams the player meant to hear count as failing, not a station merely selected
+      if (!station || !isPlaying) {
+          setError(true);
+          return;
+      }
+
+      recordStationFailure(station.id);
+      triedRef.current.add(station.id);
+      reloadStations();
+      const next = nextHealthyStation(station.id, triedRef.current);
+      if (next) {
+          setNotice(t('radio.skipped', { name: station.name }));
+          setCurrentId(next.id);
+          return;
+      }
       setIsPlaying(false); // Stop playback to prevent infinite loops
       setError(true);
   };
 
-  const station = STATIONS[currentStationIndex];
+  // The genre stands in while the stream names no track, or its metadata cannot be read
+  const trackTitle = isPlaying && nowPlaying && nowPlaying.station === station?.url ? nowPlaying.title : null;
+
+  const handlePlaying = () => {
+      triedRef.current.clear();
+      if (!station?.failures) return;
+      recordStationSuccess(station.id);
+      reloadStations();
+  };
 
   return (
-    <div className="bg-gray-900 border-t-2 border-amber-700 p-4 fixed bottom-0 left-0 right-0 z-50 text-white shadow-2xl flex flex-col md:flex-row items-center justify-between gap-4 transition-all duration-300">
+    <div className="bg-gray-900 border-t-2 border-amber-700 p-4 fixed bottom-0 left-0 right-0 z-40 text-white shadow-2xl flex flex-col md:flex-row items-center justify-between gap-4 transition-all duration-300">
+      {showStations && (
+        <RadioStationList
+          stations={stations}
+          currentId={station?.id ?? ''}
+          onSelect={selectStation}
+          onChanged={reloadStations}
+          onClose={() => setShowStations(false)}
+        />
+      )}
       <audio 
         ref={audioRef} 
-        src={station.url} 
+        src={station?.url} 
         onError={handleError}
+        onPlaying={handlePlaying}
         // Removed crossOrigin="anonymous" to fix playback for streams without CORS headers
       />
       
@@ -95,11 +189,21 @@ const RadioPlayer: React.FC = () => {
         </div>
         <div>
           <h3 className={`font-bold text-sm md:text-base ${error ? 'text-red-400' : 'text-amber-400'}`}>
-            {error ? "Stream fout" : station.name}
+            {error ? t('radio.error') : station ? station.name : t('radio.noStations')}
           </h3>
-          <p className="text-xs text-gray-400 uppercase tracking-wider">
-            {error ? "Probeer een andere" : station.genre}
-          </p>
+          {!error && !(quieted && isPlaying) && !notice && trackTitle ? (
+            <p className="text-xs text-gray-300 flex items-center gap-1 max-w-[16rem] md:max-w-xs" title={trackTitle}>
+              <Music size={12} className="text-amber-400 shrink-0" />
+              <span className="truncate">{trackTitle}</span>
+            </p>
+          ) : (
+            <p className="text-xs text-gray-400 uppercase tracking-wider">
+              {error ? t('radio.tryAnother')
+                : silenced && isPlaying ? t('radio.silenced')
+                : ducked && isPlaying ? t('radio.ducked')
+                : notice ?? station?.genre}
+            </p>
+          )}
         </div>
       </div>
 
@@ -107,18 +211,26 @@ const RadioPlayer: React.FC = () => {
         <div className="flex items-center gap-2 bg-gray-800 rounded-full px-4 py-2 border border-gray-700">
             <button 
                 onClick={togglePlay}
-                className="hover:text-amber-400 transition-colors p-1"
-                aria-label={isPlaying ? "Pauzeren" : "Afspelen"}
+                disabled={!station}
+                className="hover:text-amber-400 transition-colors p-1 disabled:opacity-40"
+                aria-label={isPlaying ? t('radio.pause') : t('radio.play')}
             >
                 {isPlaying ? <Pause size={28} fill="currentColor" /> : <Play size={28} fill="currentColor" />}
             </button>
             <button 
                 onClick={nextStation}
                 className="hover:text-amber-400 transition-colors ml-2 p-1"
-                aria-label="Volgende zender"
+                aria-label={t('radio.next')}
             >
                 <SkipForward size={24} />
             </button>
+            <button 
+                onClick={() => setShowStations(!showStations)}
+                className={`transition-colors ml-2 p-1 ${showStations ? 'text-amber-400' : 'hover:text-amber-400'}`}
+                aria-label={t('radio.stations')}
+            >
+                <ListMusic size={24} />
+            </button>
         </div>
 
         <div className="flex items-center gap-2 hidden sm:flex">
@@ -0,0 +1,219 @@
+import React, { useRef, useState } from 'react';
+import { RadioStation } from '../types';
+import { X, Plus, Trash2, ChevronUp, ChevronDown, Upload, Download, RotateCcw, AlertTriangle } from 'lucide-react';
+import {
+  PlaylistFormat,
+  StationInput,
+  addStation,
+  exportPlaylist,
+  importPlaylist,
+  isHealthy,
+  moveStation,
+  removeStation,
+  resetStations,
+} from '../services/radioStations';
+import { t } from '../services/i18n';
+
+interface RadioStationListProps {
+  stations: RadioStation[];
+  currentId: string;
+  onSelect: (station: RadioStation) => void;
+  // Called after every change so the dock reloads the list
+  onChanged: () => void;
+  onClose: () => void;
+}
+
+const EMPTY_INPUT: StationInput = { name: '', genre: '', url: '' };
+
+const PLAYLIST_TYPES: Record<PlaylistFormat, string> = {
+  m3u: 'audio/x-mpegurl',
+  pls: 'audio/x-scpls',
+};
+
+// Station picker above the radio dock, where the list can also be edited, imported and exported
+const RadioStationList: React.FC<RadioStationListProps> = ({ stations, currentId, onSelect, onChanged, onClose }) => {
+  const [isAdding, setIsAdding] = useState(false);
+  const [input, setInput] = useState<StationInput>(EMPTY_INPUT);
+  const [errors, setErrors] = useState<string[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const result = addStation(input);
+    setErrors(result.errors);
+    if (!result.station) return;
+    setInput(EMPTY_INPUT);
+    setIsAdding(false);
+    onChanged();
+  };
+
+  const handleRemove = (station: RadioStation) => {
+    if (!window.confirm(t('radio.confirmRemove', { name: station.name }))) return;
+    removeStation(station.id);
+    onChanged();
+  };
+
+  const handleMove = (station: RadioStation, offset: -1 | 1) => {
+    moveStation(station.id, offset);
+    onChanged();
+  };
+
+  const handleReset = () => {
+    if (!window.confirm(t('radio.confirmReset'))) return;
+    resetStations();
+    onChanged();
+  };
+
+  const handleExport = (format: PlaylistFormat) => {
+    const url = URL.createObjectURL(new Blob([exportPlaylist(format)], { type: PLAYLIST_TYPES[format] }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `wikiplay-radio.${format}`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const { added, skipped, errors } = importPlaylist(await file.text());
+    const summary = skipped > 0 ? t('radio.importedSkipped', { added, skipped }) : t('radio.imported', { added });
+    alert(errors.length > 0 ? `${summary}\n\n${errors.join('\n')}` : summary);
+    if (added > 0) onChanged();
+  };
+
+  return (
+    <div className="absolute bottom-full right-0 md:right-4 mb-2 w-full md:w-96 max-h-[60vh] flex flex-col bg-gray-900 border-2 border-amber-700 rounded-t-xl md:rounded-xl shadow-2xl text-white">
+      <div className="flex items-center justify-between px-4 py-2 border-b border-gray-700 shrink-0">
+        <h3 className="font-bold text-amber-400">{t('radio.stations')}</h3>
+        <div className="flex items-center gap-1">
+          <input ref={fileInputRef} type="file" accept=".m3u,.m3u8,.pls,audio/x-mpegurl,audio/x-scpls" className="hidden" onChange={handleImport} />
+          <button type="button" onClick={() => fileInputRef.current?.click()} className="p-1.5 text-gray-400 hover:text-amber-400 transition" title={t('radio.importPlaylist')}>
+            <Upload size={16} />
+          </button>
+          <button type="button" onClick={() => handleExport('m3u')} className="flex items-center gap-1 p-1.5 text-xs text-gray-400 hover:text-amber-400 transition" title={t('common.export')}>
+            <Download size={16} /> M3U
+          </button>
+          <button type="button" onClick={() => handleExport('pls')} className="flex items-center gap-1 p-1.5 text-xs text-gray-400 hover:text-amber-400 transition" title={t('common.export')}>
+            <Download size={16} /> PLS
+          </button>
+          <button type="button" onClick={handleReset} className="p-1.5 text-gray-400 hover:text-amber-400 transition" title={t('radio.reset')}>
+            <RotateCcw size={16} />
+          </button>
+          <button type="button" onClick={onClose} className="p-1.5 text-gray-400 hover:text-white transition" aria-label={t('common.close')}>
+            <X size={18} />
+          </button>
+        </div>
+      </div>
+
+      <ul className="overflow-y-auto flex-1 py-1">
+        {stations.length === 0 && (
+          <li className="px-4 py-3 text-sm text-gray-400">{t('radio.noStations')}</li>
+        )}
+        {stations.map((station, index) => (
+          <li key={station.id} className={`flex items-center gap-2 px-2 ${station.id === currentId ? 'bg-gray-800' : ''}`}>
+            <button
+              type="button"
+              onClick={() => onSelect(station)}
+              className="flex-1 min-w-0 text-left px-2 py-2 hover:text-amber-400 transition"
+            >
+              <p className={`text-sm font-bold truncate ${station.id === currentId ? 'text-amber-400' : ''}`}>{station.name}</p>
+              <p className="text-xs text-gray-400 truncate flex items-center gap-1">
+                {!isHealthy(station) && <AlertTriangle size={12} className="text-red-400 shrink-0" />}
+                {station.failures
+                  ? t('radio.failures', { count: station.failures })
+                  : station.genre || station.url}
+              </p>
+            </button>
+            <button
+              type="button"
+              onClick={() => handleMove(station, -1)}
+              disabled={index === 0}
+              className="p-1 text-gray-500 hover:text-white disabled:opacity-30 transition"
+              aria-label={t('radio.moveUp')}
+            >
+              <ChevronUp size={16} />
+            </button>
+            <button
+              type="button"
+              onClick={() => handleMove(station, 1)}
+              disabled={index === stations.length - 1}
+              className="p-1 text-gray-500 hover:text-white disabled:opacity-30 transition"
+              aria-label={t('radio.moveDown')}
+            >
+              <ChevronDown size={16} />
+            </button>
+            <button
+              type="button"
+              onClick={() => handleRemove(station)}
+              className="p-1 text-gray-500 hover:text-red-400 transition"
+              aria-label={t('radio.remove')}
+            >
+              <Trash2 size={16} />
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      <div className="border-t border-gray-700 p-3 shrink-0">
+        {isAdding ? (
+          <form onSubmit={handleSubmit} className="space-y-2">
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={input.name}
+                onChange={(e) => setInput({ ...input, name: e.target.value })}
+                placeholder={t('radio.namePlaceholder')}
+                autoFocus
+                className="flex-1 min-w-0 p-2 rounded-lg bg-gray-800 border border-gray-700 focus:border-amber-500 outline-none text-sm"
+              />
+              <input
+                type="text"
+                value={input.genre}
+                onChange={(e) => setInput({ ...input, genre: e.target.value })}
+                placeholder={t('radio.genrePlaceholder')}
+                className="w-28 p-2 rounded-lg bg-gray-800 border border-gray-700 focus:border-amber-500 outline-none text-sm"
+              />
+            </div>
+            <input
+              type="url"
+              value={input.url}
+              onChange={(e) => setInput({ ...input, url: e.target.value })}
+              placeholder="https://"
+              className="w-full p-2 rounded-lg bg-gray-800 border border-gray-700 focus:border-amber-500 outline-none text-sm"
+            />
+            {errors.length > 0 && (
+              <ul className="text-xs text-red-400 space-y-0.5">
+                {errors.map(e => <li key={e}>{e}</li>)}
+              </ul>
+            )}
+            <div className="flex justify-end gap-2">
+              <button
+                type="button"
+                onClick={() => { setIsAdding(false); setErrors([]); }}
+                className="px-3 py-1.5 text-sm text-gray-400 hover:text-white transition"
+              >
+                {t('common.cancel')}
+              </button>
+              <button type="submit" className="px-3 py-1.5 text-sm font-bold bg-amber-600 hover:bg-amber-500 rounded-lg transition">
+                {t('common.save')}
+              </button>
+            </div>
+          </form>
+        ) : (
+          <button
+            type="button"
+            onClick={() => setIsAdding(true)}
+            className="flex items-center gap-2 text-sm text-amber-400 font-bold hover:text-amber-300"
+          >
+            <Plus size={16} /> {t('radio.add')}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RadioStationList;
@@ -0,0 +1,70 @@
+import React from 'react';
+import { ScoreBoard } from '../types';
+import { averageResponseMs, bestStreak, categoryScore, totalPoints } from '../services/scoreBoard';
+import { categoryColor, categoryName, getCategoryIds } from '../services/categories';
+import { t } from '../services/i18n';
+import { Trophy, Flame, Timer } from 'lucide-react';
+
+interface ScoreBoardPanelProps {
+  scores: ScoreBoard;
+  title: string;
+}
+
+const formatSeconds = (ms: number | null) => ms === null ? '–' : `${(ms / 1000).toFixed(1)} s`;
+
+const ScoreBoardPanel: React.FC<ScoreBoardPanelProps> = ({ scores, title }) => {
+  const categories = getCategoryIds();
+  return (
+    <div className="bg-black/40 border border-white/10 rounded-2xl p-6 backdrop-blur-md max-w-3xl mx-auto">
+        <div className="flex items-center gap-3 mb-4 border-b border-white/10 pb-2">
+            <Trophy className="text-yellow-400" />
+            <h3 className="text-xl font-bold text-white">{title}</h3>
+            <div className="ml-auto flex items-center gap-4 text-sm">
+                <span className="text-amber-300 font-bold">{t('history.points', { points: totalPoints(scores) })}</span>
+                <span className="flex items-center gap-1 text-orange-400" title={t('scoreboard.bestStreak')}>
+                    <Flame size={14} /> {bestStreak(scores)}
+                </span>
+                <span className="flex items-center gap-1 text-indigo-300" title={t('scoreboard.averageTime')}>
+                    <Timer size={14} /> {formatSeconds(averageResponseMs(scores))}
+                </span>
+            </div>
+        </div>
+        
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {categories.map(cat => {
+                 const score = categoryScore(scores, cat);
+                 const total = score.correct + score.wrong;
+                 if (total === 0) return null;
+                 
+                 return (
+                     <div key={cat} className="flex flex-col p-2 bg-white/5 rounded-lg">
+                         <span className="flex items-center gap-1.5 text-xs text-gray-400 uppercase font-bold mb-1">
+                             <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: categoryColor(cat) }} />
+                             <span className="truncate">{categoryName(cat)}</span>
+                         </span>
+                         <span className="text-sm text-amber-300 font-bold">{score.points} pt</span>
+                         <div className="flex justify-between items-center text-xs mb-1">
+                            <span className="text-green-400">{score.correct} V</span>
+                            <span className="text-red-400">{score.wrong} X</span>
+                         </div>
+                         {/* Mini bar */}
+                         <div className="h-1.5 w-full bg-gray-700 mt-1 rounded-full overflow-hidden flex">
+                             <div style={{width: `${(score.correct / total) * 100}%`}} className="bg-green-500 h-full" />
+                             <div style={{width: `${(score.wrong / total) * 100}%`}} className="bg-red-500 h-full" />
+                         </div>
+                         <div className="flex justify-between items-center text-[10px] text-gray-400 mt-1">
+                            <span className={score.streak > 1 ? 'text-orange-400 font-bold' : ''}>🔥 {score.streak}</span>
+                            <span>{formatSeconds(averageResponseMs(scores, cat))}</span>
+                         </div>
+                     </div>
+                 )
+            })}
+            {categories.every(c => categoryScore(scores, c).correct === 0 && categoryScore(scores, c).wrong === 0) && (
+                <p className="text-gray-500 text-sm col-span-full italic text-center py-2">{t('scoreboard.empty')}</p>
+            )}
+        </div>
+    </div>
+  );
+};
+
+export default ScoreBoardPanel;
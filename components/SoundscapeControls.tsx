@@ -0,0 +1,57 @@
+import React from 'react';
+import { SoundscapeMood, SoundscapeSettings } from '../types';
+import { Waves, Radio } from 'lucide-react';
+import { SOUNDSCAPE_MOODS } from '../services/soundscape';
+import { MessageKey, t } from '../services/i18n';
+
+interface SoundscapeControlsProps {
+  settings: SoundscapeSettings;
+  onChange: (patch: Partial<SoundscapeSettings>) => void;
+}
+
+// Soundscape switch, mood, volume and radio mix for the ambient screen
+const SoundscapeControls: React.FC<SoundscapeControlsProps> = ({ settings, onChange }) => (
+  <div className="flex flex-wrap items-center justify-end gap-2 bg-black/40 backdrop-blur-md px-3 py-2 rounded-full border border-white/10 text-white/90 text-sm">
+    <button
+        onClick={() => onChange({ enabled: !settings.enabled })}
+        className={`flex items-center gap-2 px-3 py-1 rounded-full font-bold transition ${settings.enabled ? 'bg-white/20' : 'text-white/60 hover:text-white'}`}
+        aria-pressed={settings.enabled}
+    >
+        <Waves size={16} /> {t('soundscape.title')}
+    </button>
+    {settings.enabled && (
+        <>
+            <select
+                value={settings.mood}
+                onChange={(e) => onChange({ mood: e.target.value as SoundscapeMood | 'auto' })}
+                className="px-2 py-1 rounded-full bg-transparent outline-none cursor-pointer"
+                aria-label={t('soundscape.mood')}
+            >
+                <option value="auto" className="text-gray-900">{t('soundscape.auto')}</option>
+                {SOUNDSCAPE_MOODS.map(mood => (
+                    <option key={mood} value={mood} className="text-gray-900">{t(`soundscape.mood.${mood}` as MessageKey)}</option>
+                ))}
+            </select>
+            <input
+                type="range"
+                min="0"
+                max="1"
+                step="0.01"
+                value={settings.volume}
+                onChange={(e) => onChange({ volume: parseFloat(e.target.value) })}
+                className="w-20 h-2 rounded-lg appearance-none cursor-pointer accent-white bg-white/20"
+                aria-label={t('soundscape.volume')}
+            />
+            <button
+                onClick={() => onChange({ radio: settings.radio === 'mix' ? 'replace' : 'mix' })}
+                className="flex items-center gap-1 px-3 py-1 rounded-full hover:bg-white/10 transition"
+                title={t('soundscape.radioHint')}
+            >
+                <Radio size={14} /> {settings.radio === 'mix' ? t('soundscape.radioMix') : t('soundscape.radioReplace')}
+            </button>
+        </>
+    )}
+  </div>
+);
+
+export default SoundscapeControls;
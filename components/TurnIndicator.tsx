@@ -0,0 +1,65 @@
+import React from 'react';
+import { GameSession } from '../types';
+import { totalPoints } from '../services/scoreBoard';
+import { getWedges, hasAllWedges, isFinalChallenge } from '../services/gameSession';
+import WedgeRing from './WedgeRing';
+import { t } from '../services/i18n';
+import { X } from 'lucide-react';
+
+interface TurnIndicatorProps {
+  session: GameSession;
+  onStop: () => void;
+}
+
+const TurnIndicator: React.FC<TurnIndicatorProps> = ({ session, onStop }) => {
+  const active = session.players[session.currentPlayerIndex];
+
+  return (
+    <div className="bg-black/50 border border-white/10 rounded-2xl p-4 backdrop-blur-md mb-8">
+        <div className="flex justify-between items-center mb-3">
+            <div>
+                <p className="text-xs text-gray-400 uppercase tracking-widest">
+                    {session.mode === 'wedges'
+                        ? t('turn.wedgesRound', { round: session.round })
+                        : t('turn.round', { round: session.round, total: session.totalRounds })}
+                </p>
+                <p className="text-white text-lg font-bold">
+                    {t('turn.active')} <span className="text-amber-400">{active.name}</span>
+                </p>
+                {isFinalChallenge(session) && (
+                    <p className="text-yellow-300 text-sm font-bold animate-pulse">
+                        {t('turn.final')}
+                    </p>
+                )}
+            </div>
+            <button
+                onClick={onStop}
+                className="flex items-center gap-1 text-xs text-gray-400 hover:text-white bg-white/5 hover:bg-white/10 px-3 py-1.5 rounded-full border border-white/10 transition"
+            >
+                <X size={14} /> {t('turn.stop')}
+            </button>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+            {session.players.map((player, i) => (
+                <div
+                    key={player.id}
+                    className={`flex items-center gap-2 px-3 py-1.5 rounded-full text-sm border transition ${
+                        i === session.currentPlayerIndex
+                        ? 'bg-amber-500 border-amber-300 text-white font-bold scale-105'
+                        : 'bg-white/5 border-white/10 text-gray-300'
+                    }`}
+                >
+                    {session.mode === 'wedges' && (
+                        <WedgeRing wedges={getWedges(player)} size={24} isComplete={hasAllWedges(player)} />
+                    )}
+                    <span>{player.name}</span>
+                    <span className="font-mono text-xs bg-black/30 px-1.5 rounded">{totalPoints(player.scores)}</span>
+                </div>
+            ))}
+        </div>
+    </div>
+  );
+};
+
+export default TurnIndicator;
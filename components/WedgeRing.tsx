@@ -0,0 +1,52 @@
+import React from 'react';
+import * as d3 from 'd3';
+import { Category } from '../types';
+import { categoryColor, categoryName, getCategoryIds } from '../services/categories';
+import { t } from '../services/i18n';
+
+interface WedgeRingProps {
+  wedges: Category[];
+  size?: number;
+  // Glow when all wedges are collected and the final challenge is up
+  isComplete?: boolean;
+}
+
+const RADIUS = 50; // Internal SVG units
+
+// Progress ring in the style of the dartboard: one segment per category, colored once earned
+const WedgeRing: React.FC<WedgeRingProps> = ({ wedges, size = 32, isComplete = false }) => {
+  const categories = getCategoryIds();
+  const pie = d3.pie<Category>()
+    .value(1)
+    .sort(null)
+    .padAngle(0.04);
+
+  const arc = d3.arc<d3.PieArcDatum<Category>>()
+    .innerRadius(RADIUS * 0.55)
+    .outerRadius(RADIUS);
+
+  return (
+    <svg
+        width={size}
+        height={size}
+        viewBox={`-${RADIUS} -${RADIUS} ${RADIUS * 2} ${RADIUS * 2}`}
+        className={isComplete ? 'animate-pulse drop-shadow-[0_0_6px_rgba(250,204,21,0.9)]' : ''}
+        aria-label={t('wedges.label', { count: wedges.length, total: categories.length })}
+    >
+        {pie(categories).map(d => (
+            <path
+                key={d.data}
+                d={arc(d) || undefined}
+                fill={wedges.includes(d.data) ? categoryColor(d.data) : 'rgba(255,255,255,0.12)'}
+            >
+                <title>{categoryName(d.data)}</title>
+            </path>
+        ))}
+        <text textAnchor="middle" dominantBaseline="central" fill="white" fontSize="26" fontWeight="bold">
+            {wedges.length}
+        </text>
+    </svg>
+  );
+};
+
+export default WedgeRing;
@@ -0,0 +1,138 @@
+// Small local proxy that lets the browser read ICY now-playing metadata from radio streams.
+// Most Icecast/Shoutcast servers neither allow the Icy-MetaData request header from another origin
+// nor expose the icy-metaint response header, so the app asks this proxy instead:
+//
+//   npm run radio-proxy
+//   RADIO_METADATA_PROXY=http://localhost:8787/?url=   (in .env.local)
+//
+// GET /?url=<stream url> relays the stream with metadata requested and CORS headers added.
+// It only listens on 127.0.0.1, only answers the app's own origin (the Vite dev server, or
+// RADIO_PROXY_ORIGIN) and only relays public addresses, so other sites cannot use it to reach
+// the local machine or the network behind it.
+
+import http from 'node:http';
+import net from 'node:net';
+import { lookup } from 'node:dns/promises';
+import { Readable } from 'node:stream';
+
+const HOST = '127.0.0.1';
+const PORT = Number(process.env.RADIO_PROXY_PORT) || 8787;
+const ALLOWED_ORIGINS = (process.env.RADIO_PROXY_ORIGIN || 'http://localhost:3000,http://127.0.0.1:3000')
+  .split(',')
+  .map(origin => origin.trim())
+  .filter(Boolean);
+// Streams often move to https or a load balancer; every hop is checked again
+const MAX_REDIRECTS = 5;
+
+// Loopback, private, link-local and other non-public ranges. The families get separate lists:
+// BlockList also matches IPv4 addresses against IPv6 rules for their mapped form.
+const blocked4 = new net.BlockList();
+const blocked6 = new net.BlockList();
+[
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3],
+].forEach(([address, prefix]) => blocked4.addSubnet(address, prefix, 'ipv4'));
+[
+  ['::', 128], ['::1', 128], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+].forEach(([address, prefix]) => blocked6.addSubnet(address, prefix, 'ipv6'));
+
+const isPublicAddress = (address) => {
+  if (!net.isIPv6(address)) return !blocked4.check(address, 'ipv4');
+  // IPv4-mapped addresses (::ffff:10.0.0.1) could hide a private IPv4 range; no stream needs them
+  if (/^::ffff:/i.test(address)) return false;
+  return !blocked6.check(address, 'ipv6');
+};
+
+// Every address the host name resolves to must be public, else a rebinding name could slip through
+const isPublicTarget = async (url) => {
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  try {
+    const addresses = net.isIP(host) ? [{ address: host }] : await lookup(host, { all: true });
+    return addresses.length > 0 && addresses.every(({ address }) => isPublicAddress(address));
+  } catch {
+    return false;
+  }
+};
+
+const corsHeaders = (origin) => ({
+  'Access-Control-Allow-Origin': origin,
+  'Access-Control-Allow-Headers': 'Icy-MetaData',
+  'Access-Control-Expose-Headers': 'icy-metaint, icy-name, icy-genre',
+  'Vary': 'Origin',
+});
+
+const streamUrl = (request) => {
+  const target = new URL(request.url ?? '/', 'http://localhost').searchParams.get('url');
+  try {
+    const url = new URL(target ?? '');
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url : null;
+  } catch {
+    return null;
+  }
+};
+
+// Follow redirects by hand, so a public stream cannot send the proxy on to a private address
+const fetchStream = async (url, signal) => {
+  let target = url;
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    if (!(await isPublicTarget(target))) return { refused: true };
+    const response = await fetch(target, { headers: { 'Icy-MetaData': '1' }, redirect: 'manual', signal });
+    const location = response.headers.get('location');
+    if (response.status < 300 || response.status >= 400 || !location) return { response };
+    response.body?.cancel().catch(() => {});
+    target = new URL(location, target);
+    if (target.protocol !== 'http:' && target.protocol !== 'https:') return { refused: true };
+  }
+  return { refused: true };
+};
+
+const server = http.createServer(async (request, response) => {
+  const origin = request.headers.origin;
+  if (origin !== undefined && !ALLOWED_ORIGINS.includes(origin)) {
+    response.writeHead(403).end('Origin not allowed');
+    return;
+  }
+  const cors = corsHeaders(origin ?? ALLOWED_ORIGINS[0]);
+
+  if (request.method === 'OPTIONS') {
+    response.writeHead(204, cors).end();
+    return;
+  }
+
+  const url = streamUrl(request);
+  if (request.method !== 'GET' || !url) {
+    response.writeHead(400, cors).end('Expected GET /?url=<http(s) stream url>');
+    return;
+  }
+
+  // The app stops reading after the first title; stop pulling the stream along with it
+  const controller = new AbortController();
+  request.on('close', () => controller.abort());
+
+  try {
+    const { response: upstream, refused } = await fetchStream(url, controller.signal);
+    if (refused) {
+      response.writeHead(403, cors).end('Only public stream addresses are relayed');
+      return;
+    }
+    const headers = { ...cors, 'Content-Type': upstream.headers.get('content-type') ?? 'audio/mpeg' };
+    ['icy-metaint', 'icy-name', 'icy-genre'].forEach(name => {
+      const value = upstream.headers.get(name);
+      if (value) headers[name] = value;
+    });
+    response.writeHead(upstream.status, headers);
+    if (!upstream.body) {
+      response.end();
+      return;
+    }
+    Readable.fromWeb(upstream.body).on('error', () => response.destroy()).pipe(response);
+  } catch (error) {
+    if (controller.signal.aborted) return;
+    console.error(`Stream error for ${url}:`, error.message);
+    response.writeHead(502, cors).end('Stream unreachable');
+  }
+});
+
+server.listen(PORT, HOST, () => {
+  console.log(`Radio metadata proxy on http://localhost:${PORT}/?url=, for ${ALLOWED_ORIGINS.join(', ')}`);
+});
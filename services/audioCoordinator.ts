@@ -0,0 +1,64 @@
+// Keeps background audio out of the way of narration: while any narration plays, listeners
+// (the radio, the soundscape) are told to duck, and once the last one stops they are told to come back up.
+// A soundscape can also take the radio's place, which silences the radio until it ends.
+
+// Share of its volume the radio keeps while a narration plays
+export const DUCK_LEVEL = 0.2;
+
+const DUCK_FADE_MS = 400;
+
+type DuckingListener = (ducked: boolean) => void;
+
+const speaking = new Set<object>();
+const listeners = new Set<DuckingListener>();
+
+export const isDucked = (): boolean => speaking.size > 0;
+
+// Narrations report here when they start and stop; the object only identifies the narration
+export const setNarrationActive = (narration: object, active: boolean) => {
+  const wasDucked = isDucked();
+  if (active) speaking.add(narration);
+  else speaking.delete(narration);
+  if (isDucked() !== wasDucked) listeners.forEach(listener => listener(isDucked()));
+};
+
+export const subscribeDucking = (listener: DuckingListener): (() => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+// --- Soundscape taking over from the radio ---
+
+type SilenceListener = (silenced: boolean) => void;
+
+let radioSilenced = false;
+const silenceListeners = new Set<SilenceListener>();
+
+export const isRadioSilenced = (): boolean => radioSilenced;
+
+export const setRadioSilenced = (silenced: boolean) => {
+  if (silenced === radioSilenced) return;
+  radioSilenced = silenced;
+  silenceListeners.forEach(listener => listener(silenced));
+};
+
+export const subscribeRadioSilenced = (listener: SilenceListener): (() => void) => {
+  silenceListeners.add(listener);
+  return () => { silenceListeners.delete(listener); };
+};
+
+// Glide an element's volume to the target instead of jumping; returns a function that stops the fade
+export const fadeVolume = (audio: HTMLAudioElement, target: number, durationMs: number = DUCK_FADE_MS): (() => void) => {
+  const from = audio.volume;
+  const startedAt = performance.now();
+  let frame = 0;
+
+  const step = (now: number) => {
+    const t = Math.min(1, (now - startedAt) / durationMs);
+    audio.volume = Math.min(1, Math.max(0, from + (target - from) * t));
+    if (t < 1) frame = requestAnimationFrame(step);
+  };
+  frame = requestAnimationFrame(step);
+
+  return () => cancelAnimationFrame(frame);
+};
@@ -0,0 +1,135 @@
+import { BuiltinCategory, Category, CategoryDefinition } from "../types";
+import { CATEGORY_HEX, CATEGORY_ICON, CATEGORY_ICON_NAMES, UNKNOWN_CATEGORY_HEX } from "./categoryStyle";
+import { LANGUAGES, MessageKey, t, translate } from "./i18n";
+
+const STORAGE_KEY = 'wikiplay.categories';
+// Keeps the dartboard segments wide enough to hit and read
+export const MAX_CUSTOM_CATEGORIES = 8;
+const MAX_NAME_LENGTH = 24;
+
+export type CategoryInput = Pick<CategoryDefinition, 'name' | 'color' | 'icon' | 'promptHint'>;
+
+const BUILTIN_IDS = Object.values(BuiltinCategory) as BuiltinCategory[];
+
+const builtinNameKey = (id: BuiltinCategory) => `category.${id}` as MessageKey;
+
+// Built-in names follow the interface language, so they are looked up on every call
+const builtinCategories = (): CategoryDefinition[] => BUILTIN_IDS.map(id => ({
+  id,
+  name: t(builtinNameKey(id)),
+  color: CATEGORY_HEX[id],
+  icon: CATEGORY_ICON[id],
+  promptHint: '',
+  builtin: true,
+}));
+
+let custom: CategoryDefinition[] | null = null;
+
+const load = (): CategoryDefinition[] => {
+  if (custom) return custom;
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    custom = Array.isArray(stored) ? stored.filter(c => c && typeof c.id === 'string' && typeof c.name === 'string') : [];
+  } catch (error) {
+    console.error("Category storage error:", error);
+    custom = [];
+  }
+  return custom;
+};
+
+const save = () => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(custom ?? []));
+  } catch (error) {
+    console.error("Category storage error:", error);
+  }
+};
+
+// Built-in categories first, then the user's own in the order they were added
+export const getCategories = (): CategoryDefinition[] => [...builtinCategories(), ...load()];
+
+export const getCategoryIds = (): Category[] => getCategories().map(c => c.id);
+
+export const getCategory = (id: Category): CategoryDefinition | null =>
+  getCategories().find(c => c.id === id) ?? null;
+
+// Label and color for display; ids of removed categories are shown as they are
+export const categoryName = (id: Category): string => getCategory(id)?.name ?? id;
+
+export const categoryColor = (id: Category): string => getCategory(id)?.color ?? UNKNOWN_CATEGORY_HEX;
+
+/**
+ * The id behind a stored category: an id as is, or a name as written by older versions (built-in
+ * categories were keyed by their Dutch name), fact packs and dumps. Built-in names match in every
+ * language; null when nothing matches.
+ */
+export const resolveCategoryId = (value: unknown): Category | null => {
+  if (typeof value !== 'string') return null;
+  const label = value.trim().toLowerCase();
+  const builtin = BUILTIN_IDS.find(id =>
+    id === label || LANGUAGES.some(l => translate(l, builtinNameKey(id)).toLowerCase() === label)
+  );
+  if (builtin) return builtin;
+  return load().find(c => c.id === value || c.name.toLowerCase() === label)?.id ?? null;
+};
+
+// A record keyed by category, with keys from older versions moved to their id; unknown keys are kept
+export const migrateCategoryKeys = <T>(record: Partial<Record<string, T>>): Partial<Record<Category, T>> => {
+  const migrated: Partial<Record<Category, T>> = {};
+  Object.entries(record).forEach(([key, value]) => {
+    migrated[resolveCategoryId(key) ?? key] = value;
+  });
+  return migrated;
+};
+
+const isHexColor = (value: unknown): value is string => typeof value === 'string' && /^#[0-9a-f]{6}$/i.test(value);
+
+export const validateCategoryInput = (input: CategoryInput, ownId: Category | null = null): string[] => {
+  const errors: string[] = [];
+  const name = input.name.trim();
+  if (!name) errors.push(t('categories.error.nameMissing'));
+  if (name.length > MAX_NAME_LENGTH) errors.push(t('categories.error.nameTooLong', { max: MAX_NAME_LENGTH }));
+  // Built-in names are taken in every language, so switching languages can't make two categories look alike
+  const existing = name ? resolveCategoryId(name) : null;
+  if (existing && existing !== ownId) errors.push(t('categories.error.nameTaken', { name }));
+  if (!isHexColor(input.color)) errors.push(t('categories.error.color'));
+  if (!CATEGORY_ICON_NAMES.includes(input.icon)) errors.push(t('categories.error.icon'));
+  return errors;
+};
+
+const clean = (input: CategoryInput): CategoryInput => ({
+  name: input.name.trim(),
+  color: input.color.toLowerCase(),
+  icon: input.icon,
+  promptHint: input.promptHint.trim(),
+});
+
+export const addCategory = (input: CategoryInput): { category: CategoryDefinition | null; errors: string[] } => {
+  const errors = validateCategoryInput(input);
+  if (load().length >= MAX_CUSTOM_CATEGORIES) errors.push(t('categories.error.tooMany', { max: MAX_CUSTOM_CATEGORIES }));
+  if (errors.length > 0) return { category: null, errors };
+
+  const category: CategoryDefinition = { id: `eigen-${Date.now().toString(36)}`, ...clean(input), builtin: false };
+  load().push(category);
+  save();
+  return { category, errors };
+};
+
+// Only the user's own categories can change; the id stays, so scores and history keep pointing at it
+export const updateCategory = (id: Category, input: CategoryInput): string[] => {
+  const categories = load();
+  const index = categories.findIndex(c => c.id === id);
+  if (index < 0) return [t('categories.error.builtin')];
+
+  const errors = validateCategoryInput(input, id);
+  if (errors.length > 0) return errors;
+
+  categories[index] = { ...categories[index], ...clean(input) };
+  save();
+  return [];
+};
+
+export const removeCategory = (id: Category) => {
+  custom = load().filter(c => c.id !== id);
+  save();
+};
@@ -0,0 +1,33 @@
+import { BuiltinCategory } from "../types";
+
+// Segment colors of the dartboard, also used wherever a category needs a plain color (SVG, charts)
+export const CATEGORY_HEX: Record<BuiltinCategory, string> = {
+  [BuiltinCategory.HISTORY]: '#ef4444', // Red
+  [BuiltinCategory.SCIENCE]: '#3b82f6', // Blue
+  [BuiltinCategory.NATURE]: '#10b981', // Emerald
+  [BuiltinCategory.SPORTS]: '#f59e0b', // Amber
+  [BuiltinCategory.ART]: '#8b5cf6', // Violet
+  [BuiltinCategory.TECH]: '#ec4899', // Pink
+  [BuiltinCategory.GEOGRAPHY]: '#06b6d4', // Cyan
+  [BuiltinCategory.ENTERTAINMENT]: '#f97316', // Orange
+};
+
+// Icons a category can have; components/CategoryIcon.tsx maps them to lucide icons
+export const CATEGORY_ICON_NAMES = [
+  'landmark', 'flask', 'leaf', 'trophy', 'palette', 'cpu', 'globe', 'clapperboard',
+  'music', 'book', 'star', 'heart', 'rocket', 'utensils', 'car', 'gamepad', 'camera', 'anchor',
+];
+
+export const CATEGORY_ICON: Record<BuiltinCategory, string> = {
+  [BuiltinCategory.HISTORY]: 'landmark',
+  [BuiltinCategory.SCIENCE]: 'flask',
+  [BuiltinCategory.NATURE]: 'leaf',
+  [BuiltinCategory.SPORTS]: 'trophy',
+  [BuiltinCategory.ART]: 'palette',
+  [BuiltinCategory.TECH]: 'cpu',
+  [BuiltinCategory.GEOGRAPHY]: 'globe',
+  [BuiltinCategory.ENTERTAINMENT]: 'clapperboard',
+};
+
+// Fallback for categories that no longer exist, e.g. in old history entries
+export const UNKNOWN_CATEGORY_HEX = '#6b7280';
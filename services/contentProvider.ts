@@ -0,0 +1,80 @@
+import { Category, ContentProvider, ContentProviderId, Difficulty, QuizKind, QuizRoundQuestion, TopicContent } from "../types";
+import { geminiProvider } from "./geminiService";
+import { offlineProvider } from "./offlineProvider";
+import { mockProvider } from "./mockProvider";
+import { findRepeat, getAvoidSubjects } from "./topicMemory";
+import { clampRoundSize, drawQuizRoundFromFactPacks } from "./quizRound";
+import { isDisputed, isQuestionDisputed } from "./disputes";
+import { getLanguage } from "./i18n";
+import { getNarrationSettings } from "./narration";
+
+const PROVIDERS: Record<ContentProviderId, ContentProvider> = {
+  gemini: geminiProvider,
+  offline: offlineProvider,
+  mock: mockProvider,
+};
+
+// CONTENT_PROVIDER is injected by vite.config.ts; empty means "pick automatically"
+const configuredId = (typeof process !== "undefined" && process.env && process.env.CONTENT_PROVIDER) ? process.env.CONTENT_PROVIDER : "";
+
+const resolveProvider = (id: string): ContentProvider => {
+  if (id) {
+    const provider = PROVIDERS[id as ContentProviderId];
+    if (provider && provider.isAvailable()) return provider;
+    console.warn(`Content provider "${id}" is unknown or unavailable, falling back to automatic selection.`);
+  }
+
+  if (geminiProvider.isAvailable()) return geminiProvider;
+
+  console.warn("API Key missing or invalid. Using the offline content provider.");
+  return offlineProvider;
+};
+
+let activeProvider: ContentProvider | null = null;
+
+export const getContentProvider = (): ContentProvider => {
+  if (!activeProvider) {
+    activeProvider = resolveProvider(configuredId);
+  }
+  return activeProvider;
+};
+
+// Swap the backend at runtime, e.g. to force the mock provider during development
+export const setContentProvider = (id: ContentProviderId) => {
+  activeProvider = resolveProvider(id);
+};
+
+// Providers steer away from subjects the user has already seen (remembered once a topic is on screen,
+// not when it is prefetched); facts the player reported as wrong never come back. Content is asked for in the interface language.
+export const fetchTopicContent = async (category: Category, difficulty?: Difficulty, quizKind?: QuizKind): Promise<TopicContent | null> => {
+  const content = await getContentProvider().fetchTopicContent(category, {
+    avoidSubjects: getAvoidSubjects(category),
+    rejectContent: c => findRepeat(category, c) ?? (isDisputed(c) ? "Dit weetje is eerder als fout gemeld" : null),
+    difficulty,
+    quizKind,
+    language: getLanguage(),
+  });
+  if (!content || isDisputed(content)) return null;
+  return content;
+};
+
+// Providers without round support, or a failed request, fall back to questions from the fact packs
+export const fetchQuizRound = async (categories: Category[], count: number): Promise<QuizRoundQuestion[]> => {
+  const size = clampRoundSize(count);
+  const provider = getContentProvider();
+  const questions = (provider.fetchQuizRound ? await provider.fetchQuizRound(categories, size, getLanguage()) : null)
+    ?.filter(q => !isQuestionDisputed(q.quiz));
+  if (questions && questions.length > 0) return questions;
+  return drawQuizRoundFromFactPacks(categories, size);
+};
+
+export const fetchTriviaImage = async (textContext: string): Promise<string | null> => {
+  const provider = getContentProvider();
+  return provider.fetchImage ? provider.fetchImage(textContext) : null;
+};
+
+// Read in the voice the player picked
+export const fetchTriviaAudio = async (text: string): Promise<string | null> => {
+  const provider = getContentProvider();
+  return provider.fetchAudio ? provider.fetchAudio(text, getNarrationSettings().voice) : null;
+};
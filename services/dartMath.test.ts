@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import {
+  BOARD_RADIUS,
+  SPIN_START_SPEED,
+  createRng,
+  resolveHit,
+  stepSpin,
+  throwDart,
+} from './dartMath';
+
+// Four quarters: top-right, bottom-right, bottom-left, top-left on an unrotated board
+const SEGMENTS = ['a', 'b', 'c', 'd'];
+
+describe('resolveHit', () => {
+  it('finds the segment clockwise from the top', () => {
+    expect(resolveHit({ x: 50, y: -200 }, 0, SEGMENTS)).toMatchObject({ index: 0, segment: 'a' });
+    expect(resolveHit({ x: 200, y: 50 }, 0, SEGMENTS)).toMatchObject({ index: 1, segment: 'b' });
+    expect(resolveHit({ x: -50, y: 200 }, 0, SEGMENTS)).toMatchObject({ index: 2, segment: 'c' });
+    expect(resolveHit({ x: -200, y: -50 }, 0, SEGMENTS)).toMatchObject({ index: 3, segment: 'd' });
+  });
+
+  it('takes the board rotation into account', () => {
+    // Turned a quarter clockwise, the first segment sits on the right
+    expect(resolveHit({ x: 200, y: 50 }, 90, SEGMENTS)).toMatchObject({ index: 0, segment: 'a' });
+    expect(resolveHit({ x: 50, y: -200 }, 90, SEGMENTS)).toMatchObject({ index: 3, segment: 'd' });
+    // A full turn lands where it started
+    expect(resolveHit({ x: 50, y: -200 }, 360, SEGMENTS)).toMatchObject({ index: 0, segment: 'a' });
+  });
+
+  it('tells the rings apart by distance', () => {
+    expect(resolveHit({ x: 0, y: -100 }, 0, SEGMENTS)).toMatchObject({ zone: 'single', multiplier: 1 });
+    expect(resolveHit({ x: 0, y: -160 }, 0, SEGMENTS)).toMatchObject({ zone: 'treble', multiplier: 3 });
+    expect(resolveHit({ x: 0, y: -220 }, 0, SEGMENTS)).toMatchObject({ zone: 'single', multiplier: 1 });
+    expect(resolveHit({ x: 0, y: -280 }, 0, SEGMENTS)).toMatchObject({ zone: 'double', multiplier: 2 });
+  });
+
+  it('scores the bullseye', () => {
+    expect(resolveHit({ x: 0, y: 0 }, 0, SEGMENTS)).toMatchObject({ zone: 'bullseye', multiplier: 2 });
+    expect(resolveHit({ x: 10, y: -10 }, 45, SEGMENTS)).toMatchObject({ zone: 'bullseye', multiplier: 2 });
+  });
+
+  it('misses off the board without a segment', () => {
+    const hit = resolveHit({ x: 0, y: -(BOARD_RADIUS + 1) }, 0, SEGMENTS);
+    expect(hit).toMatchObject({ zone: 'miss', multiplier: 0, index: null, segment: null });
+  });
+});
+
+describe('stepSpin', () => {
+  it('slows down until the board stands still', () => {
+    let state = { rotation: 0, speed: SPIN_START_SPEED };
+    let frames = 0;
+    while (state.speed > 0 && frames < 10000) {
+      const next = stepSpin(state, 16);
+      expect(next.speed).toBeLessThan(state.speed);
+      expect(next.rotation).toBeGreaterThanOrEqual(0);
+      expect(next.rotation).toBeLessThan(360);
+      state = next;
+      frames++;
+    }
+    expect(state.speed).toBe(0);
+    expect(frames).toBeLessThan(10000);
+  });
+
+  it('leaves a board at rest alone', () => {
+    const state = { rotation: 42, speed: 0 };
+    expect(stepSpin(state, 16)).toBe(state);
+  });
+});
+
+describe('seeded throws', () => {
+  it('replays the same random sequence', () => {
+    const a = createRng(42);
+    const b = createRng(42);
+    const first = Array.from({ length: 10 }, () => a());
+    expect(Array.from({ length: 10 }, () => b())).toEqual(first);
+    first.forEach(n => {
+      expect(n).toBeGreaterThanOrEqual(0);
+      expect(n).toBeLessThan(1);
+    });
+  });
+
+  it('replays the same darts', () => {
+    const aim = { x: 30, y: -160 };
+    const throwAll = (seed: number) => {
+      const random = createRng(seed);
+      return Array.from({ length: 5 }, () => throwDart(aim, 40, 15, SEGMENTS, random));
+    };
+    expect(throwAll(7)).toEqual(throwAll(7));
+    expect(throwAll(7)).not.toEqual(throwAll(8));
+  });
+});
@@ -0,0 +1,123 @@
+import { DartHit, DartZone } from "../types";
+
+// Pure dartboard geometry, physics and hit calculation. Everything here is deterministic
+// given its inputs (including the RNG), so throws can be replayed.
+
+// Board layout in internal SVG units, centered on (0,0)
+export const BOARD_RADIUS = 300;
+export const BULLSEYE_RADIUS = 20;
+export const TREBLE_RING = { inner: 150, outer: 175 };
+export const DOUBLE_RING = { inner: 270, outer: BOARD_RADIUS };
+// The SVG viewBox includes the rim around the board
+export const BOARD_VIEW_SIZE = (BOARD_RADIUS + 20) * 2;
+
+export const ZONE_MULTIPLIERS: Record<DartZone, number> = {
+  miss: 0,
+  single: 1,
+  treble: 3,
+  double: 2,
+  bullseye: 2,
+};
+
+// Spin physics: angular speed in degrees per millisecond, decaying exponentially
+export const SPIN_START_SPEED = 0.48;
+export const SPIN_FRICTION = 0.0007;
+const SPIN_MIN_SPEED = 0.002;
+
+export interface SpinState {
+  rotation: number;
+  speed: number;
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// mulberry32: tiny seedable PRNG, good enough for gameplay and replayable in tests
+export const createRng = (seed: number): (() => number) => {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6D2B79F5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Advance the spin by dt milliseconds; integrates the exponential decay exactly
+export const stepSpin = (state: SpinState, dt: number, friction: number = SPIN_FRICTION): SpinState => {
+  if (state.speed === 0 || dt <= 0) return state;
+
+  const decay = Math.exp(-friction * dt);
+  const travelled = friction > 0 ? (state.speed * (1 - decay)) / friction : state.speed * dt;
+  const speed = state.speed * decay;
+
+  return {
+    rotation: (state.rotation + travelled) % 360,
+    speed: speed < SPIN_MIN_SPEED ? 0 : speed,
+  };
+};
+
+// Convert a pointer position on the rendered board element to board coordinates
+export const pointerToBoard = (
+  clientX: number,
+  clientY: number,
+  rect: { left: number; top: number; width: number; height: number }
+): Point => ({
+  x: ((clientX - rect.left) / rect.width - 0.5) * BOARD_VIEW_SIZE,
+  y: ((clientY - rect.top) / rect.height - 0.5) * BOARD_VIEW_SIZE,
+});
+
+// Scatter the aim point with a 2D normal distribution (Box-Muller); spread is the standard deviation
+export const applySpread = (aim: Point, spread: number, random: () => number): Point => {
+  if (spread <= 0) return aim;
+  const u = 1 - random(); // (0, 1], avoids log(0)
+  const v = random();
+  const r = Math.sqrt(-2 * Math.log(u)) * spread;
+  return {
+    x: aim.x + r * Math.cos(2 * Math.PI * v),
+    y: aim.y + r * Math.sin(2 * Math.PI * v),
+  };
+};
+
+const zoneAt = (distance: number): DartZone => {
+  if (distance > BOARD_RADIUS) return 'miss';
+  if (distance <= BULLSEYE_RADIUS) return 'bullseye';
+  if (distance >= DOUBLE_RING.inner) return 'double';
+  if (distance >= TREBLE_RING.inner && distance <= TREBLE_RING.outer) return 'treble';
+  return 'single';
+};
+
+/**
+ * Which segment and zone a point hits, with the board rotated clockwise by `rotation` degrees.
+ * Segments start at 12 o'clock and run clockwise, matching the unsorted d3.pie layout.
+ */
+export const resolveHit = <T>(point: Point, rotation: number, segments: T[]): DartHit<T> => {
+  const distance = Math.hypot(point.x, point.y);
+  const zone = zoneAt(distance);
+
+  // Screen angle in degrees, 0 at the top, clockwise
+  let hitAngle = (Math.atan2(point.y, point.x) * 180) / Math.PI + 90;
+  if (hitAngle < 0) hitAngle += 360;
+
+  // The same spot on the unrotated board
+  let boardAngle = (hitAngle - rotation) % 360;
+  if (boardAngle < 0) boardAngle += 360;
+
+  const segmentSize = 360 / segments.length;
+  const index = Math.min(segments.length - 1, Math.floor(boardAngle / segmentSize));
+
+  return {
+    x: point.x,
+    y: point.y,
+    zone,
+    multiplier: ZONE_MULTIPLIERS[zone],
+    index: zone === 'miss' ? null : index,
+    segment: zone === 'miss' ? null : segments[index],
+  };
+};
+
+export const throwDart = <T>(aim: Point, spread: number, rotation: number, segments: T[], random: () => number): DartHit<T> =>
+  resolveHit(applySpread(aim, spread, random), rotation, segments);
@@ -0,0 +1,50 @@
+import { Category, CategoryScore, Difficulty, DifficultySetting, HistoryEntry, ScoreBoard } from "../types";
+import { categoryScore } from "./scoreBoard";
+import { MessageKey, t } from "./i18n";
+
+// Ordered from easiest to hardest
+export const DIFFICULTIES: Difficulty[] = ['easy', 'medium', 'hard', 'expert'];
+
+export const difficultyLabel = (difficulty: Difficulty): string => t(`difficulty.${difficulty}` as MessageKey);
+
+export const DEFAULT_DIFFICULTY: Difficulty = 'medium';
+
+// Below this many answers in a category the adaptive mode sticks to the default
+const ADAPTIVE_MIN_ANSWERS = 3;
+// Minimum share of correct answers to be promoted to each level, hardest first
+const ADAPTIVE_THRESHOLDS: [Difficulty, number][] = [
+  ['expert', 0.85],
+  ['hard', 0.65],
+  ['medium', 0.4],
+];
+
+export const isDifficulty = (value: unknown): value is Difficulty => DIFFICULTIES.includes(value as Difficulty);
+
+export const difficultyRank = (difficulty: Difficulty | undefined) =>
+  difficulty ? DIFFICULTIES.indexOf(difficulty) : DIFFICULTIES.indexOf(DEFAULT_DIFFICULTY);
+
+// Pick a level from the category's share of correct answers
+export const adaptiveDifficulty = (score: CategoryScore): Difficulty => {
+  const answered = score.correct + score.wrong;
+  if (answered < ADAPTIVE_MIN_ANSWERS) return DEFAULT_DIFFICULTY;
+
+  const ratio = score.correct / answered;
+  return ADAPTIVE_THRESHOLDS.find(([, min]) => ratio >= min)?.[0] ?? 'easy';
+};
+
+export const resolveDifficulty = (setting: DifficultySetting, board: ScoreBoard, category: Category): Difficulty =>
+  setting === 'adaptive' ? adaptiveDifficulty(categoryScore(board, category)) : setting;
+
+// Answered history questions per level; entries from before difficulty levels and reported facts are left out
+export const answersByDifficulty = (entries: HistoryEntry[]): Record<Difficulty, { correct: number; wrong: number }> => {
+  const stats = {} as Record<Difficulty, { correct: number; wrong: number }>;
+  DIFFICULTIES.forEach(d => stats[d] = { correct: 0, wrong: 0 });
+
+  entries.forEach(entry => {
+    const level = entry.quiz?.difficulty;
+    if (!entry.answer || !level || entry.disputed) return;
+    if (entry.answer.isCorrect) stats[level].correct++;
+    else stats[level].wrong++;
+  });
+  return stats;
+};
@@ -0,0 +1,58 @@
+import { Category, DisputedFact, QuizData } from "../types";
+import { normalizeAnswer } from "./topicValidation";
+import { resolveCategoryId } from "./categories";
+
+const STORAGE_KEY = 'wikiplay.disputes';
+
+let disputes: DisputedFact[] | null = null;
+
+const load = (): DisputedFact[] => {
+  if (disputes) return disputes;
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    // Reports from before stable category ids name their category
+    disputes = Array.isArray(stored) ? stored.map(d => ({ ...d, category: resolveCategoryId(d?.category) ?? d?.category })) : [];
+  } catch (error) {
+    console.error("Dispute storage error:", error);
+    disputes = [];
+  }
+  return disputes;
+};
+
+const save = () => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(disputes ?? []));
+  } catch (error) {
+    console.error("Dispute storage error:", error);
+  }
+};
+
+// Facts compare without their "- Category -" header, case and punctuation
+const textKey = (text: string) => normalizeAnswer(text.replace(/^\s*-[^\n]*-\s*/, ''));
+
+export const getDisputes = (): DisputedFact[] => [...load()];
+
+export const reportDispute = (category: Category, fact: string, quiz: QuizData | null, reason: string = '') => {
+  if (isFactDisputed(fact)) return;
+  load().push({ category, fact, question: quiz?.question ?? null, reason: reason.trim(), reportedAt: Date.now() });
+  save();
+};
+
+export const isFactDisputed = (fact: string): boolean => {
+  const key = textKey(fact);
+  return load().some(d => textKey(d.fact) === key);
+};
+
+// Quiz rounds serve questions without their facts, so questions are matched on their own
+export const isQuestionDisputed = (quiz: QuizData): boolean => {
+  const key = textKey(quiz.question);
+  return load().some(d => d.question !== null && textKey(d.question) === key);
+};
+
+export const isDisputed = (content: { fact: string; quiz: QuizData }): boolean =>
+  isFactDisputed(content.fact) || isQuestionDisputed(content.quiz);
+
+export const clearDisputes = () => {
+  disputes = [];
+  save();
+};
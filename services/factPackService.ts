@@ -0,0 +1,230 @@
+import { BuiltinCategory, Category, FactPack, FactPackEntry, Language } from "../types";
+import { OFFLINE_FACTS } from "./offlineFacts";
+import { isObject, validateQuizData } from "./topicValidation";
+import { isDisputed } from "./disputes";
+import { resolveCategoryId } from "./categories";
+import { getLanguage, isLanguage, t } from "./i18n";
+
+export const FACT_PACK_FORMAT = 'wikiplay-factpack';
+export const FACT_PACK_VERSION = 1;
+
+const STORAGE_KEY = 'wikiplay.factPacks';
+
+export interface FactPackImportResult {
+  pack: FactPack | null;
+  errors: string[];
+  added: number;
+  duplicates: number;
+}
+
+// The curated offline facts, exposed as a pack so they share the loader with imported packs
+export const BUILTIN_PACK: FactPack = {
+  format: FACT_PACK_FORMAT,
+  version: FACT_PACK_VERSION,
+  id: 'builtin',
+  name: 'Wikiplay basis',
+  language: 'nl',
+  facts: (Object.keys(OFFLINE_FACTS) as BuiltinCategory[]).flatMap(category =>
+    OFFLINE_FACTS[category].map(content => ({ ...content, category }))
+  ),
+};
+
+const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0;
+
+const validateEntry = (entry: unknown, errors: string[], where: string): entry is FactPackEntry => {
+  if (!isObject(entry)) {
+    errors.push(t('factPack.error.notObject', { where }));
+    return false;
+  }
+  const before = errors.length;
+  // Packs may name their categories instead of using the id, in any language
+  const category = resolveCategoryId(entry.category);
+  if (category) entry.category = category;
+  else errors.push(t('factPack.error.category', { where, category: String(entry.category) }));
+  if (!isNonEmptyString(entry.fact)) errors.push(t('factPack.error.fact', { where }));
+
+  // Packs are curated, so keep the authored option order but apply the same repairs as for Gemini
+  const quiz = validateQuizData(entry.quiz, { shuffle: false });
+  quiz.errors.forEach(e => errors.push(`${where}: ${e}`));
+  if (quiz.value) entry.quiz = quiz.value;
+
+  if (entry.image !== undefined && !isNonEmptyString(entry.image)) errors.push(t('factPack.error.image', { where }));
+  if (entry.audio !== undefined && !isNonEmptyString(entry.audio)) errors.push(t('factPack.error.audio', { where }));
+  const source = entry.source;
+  if (source !== undefined && !(isObject(source) && isNonEmptyString(source.title) && isNonEmptyString(source.url))) {
+    errors.push(t('factPack.error.source', { where }));
+  }
+  return errors.length === before;
+};
+
+/**
+ * Validate a parsed pack. A broken header rejects the whole pack,
+ * broken entries are dropped and reported so the rest can still be used.
+ */
+export const validateFactPack = (raw: unknown): { pack: FactPack | null; errors: string[] } => {
+  const errors: string[] = [];
+
+  if (!isObject(raw)) return { pack: null, errors: [t('factPack.error.notJsonObject')] };
+  const data = raw;
+  if (data.format !== FACT_PACK_FORMAT) errors.push(t('factPack.error.format', { format: FACT_PACK_FORMAT }));
+  if (typeof data.version !== 'number' || data.version > FACT_PACK_VERSION) errors.push(t('factPack.error.version', { version: String(data.version) }));
+  if (!isNonEmptyString(data.id)) errors.push(t('factPack.error.id'));
+  if (!isNonEmptyString(data.name)) errors.push(t('factPack.error.name'));
+  if (!Array.isArray(data.facts)) errors.push(t('factPack.error.facts'));
+  if (data.language !== undefined && !isLanguage(data.language)) errors.push(t('factPack.error.language', { language: String(data.language) }));
+  if (errors.length > 0) return { pack: null, errors };
+
+  // The header fields were checked above
+  const facts = (data.facts as unknown[]).filter((entry, i): entry is FactPackEntry =>
+    validateEntry(entry, errors, t('factPack.entry', { n: i + 1 }))
+  );
+
+  return {
+    pack: {
+      format: FACT_PACK_FORMAT,
+      version: data.version as number,
+      id: data.id as string,
+      name: data.name as string,
+      language: (data.language as Language | undefined) ?? 'nl',
+      facts,
+    },
+    errors,
+  };
+};
+
+// Normalized fact text, ignoring the "- Category -" header, casing and punctuation
+export const factKey = (fact: string) =>
+  fact
+    .replace(/^\s*-[^\n]*-\s*/, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+
+// --- Persistence of imported packs ---
+
+const loadStoredPacks = (): FactPack[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return [];
+    return (JSON.parse(raw) as unknown[])
+      .map(p => validateFactPack(p).pack)
+      .filter((p): p is FactPack => p !== null);
+  } catch (error) {
+    console.error("Fact pack storage error:", error);
+    return [];
+  }
+};
+
+const saveStoredPacks = (packs: FactPack[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(packs));
+  } catch (error) {
+    // Packs with embedded images can exceed the quota; they still work for this session
+    console.error("Fact pack storage error:", error);
+  }
+};
+
+interface MergedFact {
+  entry: FactPackEntry;
+  language: Language;
+}
+
+let importedPacks: FactPack[] | null = null;
+let mergedFacts: Partial<Record<Category, MergedFact[]>> | null = null;
+// Draw position per language and category
+const cursors: Partial<Record<string, number>> = {};
+
+export const getFactPacks = (): FactPack[] => {
+  if (!importedPacks) importedPacks = loadStoredPacks();
+  return [BUILTIN_PACK, ...importedPacks];
+};
+
+// All pack facts per category, de-duplicated across packs (first pack wins)
+const getMergedFacts = (): Partial<Record<Category, MergedFact[]>> => {
+  if (mergedFacts) return mergedFacts;
+
+  const seen = new Set<string>();
+  const merged: Partial<Record<Category, MergedFact[]>> = {};
+
+  getFactPacks().forEach(pack => {
+    pack.facts.forEach(entry => {
+      const key = factKey(entry.fact);
+      if (seen.has(key)) return;
+      seen.add(key);
+      (merged[entry.category] ??= []).push({ entry, language: pack.language ?? 'nl' });
+    });
+  });
+
+  mergedFacts = merged;
+  return merged;
+};
+
+// Facts in the requested language come first; without any, the other languages are better than nothing
+export const drawFromFactPacks = (category: Category, language: Language = getLanguage()): FactPackEntry | null => {
+  const all = getMergedFacts()[category] ?? [];
+  const inLanguage = all.filter(f => f.language === language);
+  const facts = (inLanguage.length > 0 ? inLanguage : all).map(f => f.entry);
+  if (facts.length === 0) return null;
+
+  // Walk on past facts the player reported as wrong
+  const cursorKey = `${inLanguage.length > 0 ? language : '*'}:${category}`;
+  let cursor = (cursors[cursorKey] ?? Math.floor(Math.random() * facts.length)) % facts.length;
+  for (let tries = 0; tries < facts.length; tries++) {
+    const entry = facts[cursor];
+    cursor = (cursor + 1) % facts.length;
+    if (!isDisputed(entry)) {
+      cursors[cursorKey] = cursor;
+      return entry;
+    }
+  }
+  return null;
+};
+
+// Look up the pack entry behind a fact text, to resolve its optional image and audio
+export const findFactPackEntry = (fact: string): FactPackEntry | null => {
+  const key = factKey(fact);
+  for (const facts of Object.values(getMergedFacts())) {
+    const found = facts.find(f => factKey(f.entry.fact) === key);
+    if (found) return found.entry;
+  }
+  return null;
+};
+
+export const importFactPack = (raw: unknown): FactPackImportResult => {
+  const { pack, errors } = validateFactPack(raw);
+  if (!pack) return { pack: null, errors, added: 0, duplicates: 0 };
+  if (pack.id === BUILTIN_PACK.id) {
+    return { pack: null, errors: [t('factPack.error.reservedId', { id: pack.id })], added: 0, duplicates: 0 };
+  }
+
+  // Re-importing a pack replaces the previous version with the same id
+  const others = getFactPacks().filter(p => p.id !== pack.id);
+  const known = new Set(others.flatMap(p => p.facts.map(f => factKey(f.fact))));
+  let duplicates = 0;
+  pack.facts.forEach(f => {
+    const key = factKey(f.fact);
+    if (known.has(key)) duplicates++;
+    known.add(key);
+  });
+
+  importedPacks = [...others.filter(p => p.id !== BUILTIN_PACK.id), pack];
+  mergedFacts = null;
+  saveStoredPacks(importedPacks);
+
+  return { pack, errors, added: pack.facts.length - duplicates, duplicates };
+};
+
+export const importFactPackFile = async (file: File): Promise<FactPackImportResult> => {
+  try {
+    return importFactPack(JSON.parse(await file.text()));
+  } catch (error) {
+    console.error("Fact pack import error:", error);
+    return { pack: null, errors: [t('factPack.error.invalidJson')], added: 0, duplicates: 0 };
+  }
+};
+
+export const removeFactPack = (id: string) => {
+  importedPacks = (importedPacks ?? loadStoredPacks()).filter(p => p.id !== id);
+  mergedFacts = null;
+  saveStoredPacks(importedPacks);
+};
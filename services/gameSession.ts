@@ -0,0 +1,130 @@
+import { Category, GameMode, GameSession, Player, QuizAnswerResult } from "../types";
+import { applyAnswer, categoryScore, emptyScoreBoard, refundAnswer, totalCorrect, totalPoints, totalWrong } from "./scoreBoard";
+import { getCategoryIds } from "./categories";
+
+export const MIN_PLAYERS = 2;
+export const MAX_PLAYERS = 8;
+export const DEFAULT_ROUNDS = 5;
+
+// The wedge race also works solo; a rounds game needs someone to beat
+export const minPlayersFor = (mode: GameMode) => mode === 'wedges' ? 1 : MIN_PLAYERS;
+
+export const createSession = (names: string[], totalRounds: number = DEFAULT_ROUNDS, mode: GameMode = 'rounds'): GameSession => {
+  const players: Player[] = names
+    .map(n => n.trim())
+    .filter(Boolean)
+    .slice(0, MAX_PLAYERS)
+    .map((name, i) => ({ id: `speler-${i + 1}`, name, scores: emptyScoreBoard() }));
+
+  if (players.length < minPlayersFor(mode)) {
+    throw new Error(`Minimaal ${minPlayersFor(mode)} spelers nodig`);
+  }
+
+  return {
+    mode,
+    players,
+    currentPlayerIndex: 0,
+    round: 1,
+    totalRounds: Math.max(1, totalRounds),
+    finished: false,
+    winnerId: null,
+  };
+};
+
+export const currentPlayer = (session: GameSession): Player => session.players[session.currentPlayerIndex];
+
+// Wedges are earned with at least one correct answer in a category; categories added mid-game count too
+export const getWedges = (player: Player): Category[] => getCategoryIds().filter(c => categoryScore(player.scores, c).correct > 0);
+
+export const hasAllWedges = (player: Player) => getWedges(player).length === getCategoryIds().length;
+
+// In the wedge race, a player holding every wedge plays their turns as the final challenge
+export const isFinalChallenge = (session: GameSession) =>
+  session.mode === 'wedges' && !session.finished && hasAllWedges(currentPlayer(session));
+
+// Score the current player's answer; the turn itself advances separately with endTurn
+export const scoreAnswer = (session: GameSession, category: Category, result: QuizAnswerResult, multiplier: number = 1): GameSession => {
+  const wonFinal = result.isCorrect && !result.timedOut && isFinalChallenge(session);
+  const player = currentPlayer(session);
+
+  return {
+    ...session,
+    players: session.players.map((p, i) =>
+      i === session.currentPlayerIndex ? { ...p, scores: applyAnswer(p.scores, category, result, multiplier) } : p
+    ),
+    finished: session.finished || wonFinal,
+    winnerId: wonFinal ? player.id : session.winnerId,
+  };
+};
+
+// Take back the current player's answer; a final challenge won with it is reopened
+export const refundCurrentAnswer = (session: GameSession, category: Category, result: QuizAnswerResult, points: number): GameSession => {
+  const player = currentPlayer(session);
+  const revokeWin = session.mode === 'wedges' && session.winnerId === player.id && result.isCorrect && !result.timedOut;
+
+  return {
+    ...session,
+    players: session.players.map((p, i) =>
+      i === session.currentPlayerIndex ? { ...p, scores: refundAnswer(p.scores, category, result, points) } : p
+    ),
+    finished: revokeWin ? false : session.finished,
+    winnerId: revokeWin ? null : session.winnerId,
+  };
+};
+
+// Pass the turn to the next player; a rounds game is over after the last player of the last round
+export const endTurn = (session: GameSession): GameSession => {
+  if (session.finished) return session;
+
+  const nextIndex = (session.currentPlayerIndex + 1) % session.players.length;
+  const nextRound = nextIndex === 0 ? session.round + 1 : session.round;
+
+  if (session.mode === 'rounds' && nextRound > session.totalRounds) {
+    return { ...session, finished: true };
+  }
+  return { ...session, currentPlayerIndex: nextIndex, round: nextRound };
+};
+
+export interface Standing {
+  player: Player;
+  points: number;
+  correct: number;
+  wrong: number;
+  wedges: number;
+  // 1-based; tied players share a rank
+  rank: number;
+}
+
+/**
+ * Rounds games rank on points, then correct answers (fewer wrong answers breaks ties).
+ * The wedge race puts the winner first, then ranks on wedges collected.
+ */
+export const getStandings = (session: GameSession): Standing[] => {
+  const compareKey = (s: Standing) => session.mode === 'wedges'
+    ? [s.player.id === session.winnerId ? 1 : 0, s.wedges, s.correct, -s.wrong]
+    : [s.points, s.correct, -s.wrong];
+
+  const sorted = session.players
+    .map(player => ({
+      player,
+      points: totalPoints(player.scores),
+      correct: totalCorrect(player.scores),
+      wrong: totalWrong(player.scores),
+      wedges: getWedges(player).length,
+      rank: 0,
+    }))
+    .sort((a, b) => {
+      const ka = compareKey(a);
+      const kb = compareKey(b);
+      for (let i = 0; i < ka.length; i++) {
+        if (ka[i] !== kb[i]) return kb[i] - ka[i];
+      }
+      return 0;
+    });
+
+  sorted.forEach((s, i) => {
+    const prev = sorted[i - 1];
+    s.rank = prev && compareKey(prev).join() === compareKey(s).join() ? prev.rank : i + 1;
+  });
+  return sorted;
+};
@@ -1,6 +1,13 @@
 
 import { GoogleGenAI, Modality, Type } from "@google/genai";
-import { Category, TopicContent } from "../types";
+import { Category, ContentProvider, Difficulty, FactCheck, Language, NarrationVoice, QuizKind, QuizRoundQuestion, TopicContent, TopicRequestOptions, WikipediaArticle } from "../types";
+import { ORDER_ITEM_RANGE, isObject, validateQuizRound, validateTopicContent } from "./topicValidation";
+import { DIFFICULTIES } from "./difficulty";
+import { orderByDifficulty } from "./quizRound";
+import { fetchSourceArticle } from "./wikipediaSource";
+import { formatCorrectAnswer, quizKind } from "./quizFormats";
+import { getCategory } from "./categories";
+import { MessageKey, getLanguage, translate } from "./i18n";
 
 // Safely retrieve API key or default to empty string to prevent ReferenceError
 const apiKey = (typeof process !== "undefined" && process.env && process.env.API_KEY) ? process.env.API_KEY : "";
@@ -10,68 +17,407 @@ const apiKey = (typeof process !== "undefined" && process.env && process.env.API
 // unless the key is injected during build. This prevents the immediate "crash" on load.
 const ai = apiKey ? new GoogleGenAI({ apiKey }) : null;
 
-export const fetchTopicContent = async (category: Category): Promise<TopicContent | null> => {
-  if (!ai) {
-    console.warn("API Key missing or invalid. Cannot fetch content.");
-    return null;
-  }
+// How often we re-request a topic after an unrepairable response
+const MAX_REPAIR_ATTEMPTS = 2;
 
-  try {
-    const prompt = `
+// Answer fields per question format; 'kind' is pinned so the validator knows what it got
+const QUIZ_ANSWER_PROPERTIES: Record<QuizKind, Record<string, object>> = {
+  choice: {
+    options: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING },
+      description: "Array van precies 3 opties"
+    },
+    correctAnswer: { type: Type.STRING },
+  },
+  truefalse: {
+    correctAnswer: { type: Type.BOOLEAN, description: "true als de stelling klopt" },
+  },
+  estimate: {
+    correctAnswer: { type: Type.NUMBER },
+    tolerance: { type: Type.NUMBER, description: "Afwijking die nog als goed telt" },
+    unit: { type: Type.STRING, description: "Eenheid van het antwoord, bijv. km of jaar" },
+  },
+  order: {
+    items: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING },
+      description: `${ORDER_ITEM_RANGE.min} tot ${ORDER_ITEM_RANGE.max} items in de juiste volgorde`
+    },
+  },
+  text: {
+    correctAnswer: { type: Type.STRING },
+    acceptedAnswers: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING },
+      description: "Andere schrijfwijzen die ook goed zijn"
+    },
+  },
+};
+
+const REQUIRED_ANSWER_FIELDS: Record<QuizKind, string[]> = {
+  choice: ["options", "correctAnswer"],
+  truefalse: ["correctAnswer"],
+  estimate: ["correctAnswer", "tolerance"],
+  order: ["items"],
+  text: ["correctAnswer"],
+};
+
+const quizSchema = (kind: QuizKind) => ({
+  type: Type.OBJECT,
+  properties: {
+    kind: { type: Type.STRING, enum: [kind] },
+    question: { type: Type.STRING },
+    ...QUIZ_ANSWER_PROPERTIES[kind],
+    explanation: { type: Type.STRING }
+  },
+  required: ["kind", "question", ...REQUIRED_ANSWER_FIELDS[kind], "explanation"]
+});
+
+const topicSchema = (kind: QuizKind) => ({
+  type: Type.OBJECT,
+  properties: {
+    fact: { type: Type.STRING },
+    subject: { type: Type.STRING, description: "Het onderwerp van het weetje in 2 tot 5 woorden" },
+    quiz: quizSchema(kind)
+  },
+  required: ["fact", "subject", "quiz"]
+});
+
+// What the quiz question looks like in each format
+const QUIZ_KIND_PROMPTS: Record<QuizKind, string> = {
+  choice: `Een uitdagende multiple-choice vraag.
+         - 3 opties in 'options'.
+         - 1 correct antwoord in 'correctAnswer', letterlijk gelijk aan een van de opties.`,
+  truefalse: `Een stelling die waar of niet waar is, geformuleerd als vraag (bijv. "Waar of niet waar: ...").
+         - Zet in 'correctAnswer' true als de stelling klopt en anders false.
+         - Maak ongeveer de helft van de stellingen onwaar.`,
+  estimate: `Een schattingsvraag met een getal als antwoord (een jaartal, afstand, aantal, ...).
+         - Zet het exacte getal in 'correctAnswer' en de eenheid in 'unit'.
+         - Zet in 'tolerance' hoeveel een schatting ernaast mag zitten en toch goed is.`,
+  order: `Een volgordevraag, bijvoorbeeld een chronologie of een rangorde van groot naar klein.
+         - Zet ${ORDER_ITEM_RANGE.min} tot ${ORDER_ITEM_RANGE.max} korte items in 'items', in de JUISTE volgorde.
+         - Vermeld in de vraag welke volgorde wordt gevraagd.`,
+  text: `Een open vraag met een kort antwoord van hooguit een paar woorden (een naam, plaats of begrip).
+         - Zet het antwoord in 'correctAnswer' en andere gangbare schrijfwijzen in 'acceptedAnswers'.`,
+};
+
+// The instructions stay Dutch; these set the language the player reads and hears
+const CONTENT_LANGUAGES: Record<Language, { name: string; opener: string }> = {
+  nl: { name: 'het Nederlands', opener: 'Wist je dat...' },
+  en: { name: 'het Engels', opener: 'Did you know...' },
+};
+
+// How each level translates into instructions for the quiz question
+const DIFFICULTY_PROMPTS: Record<Difficulty, string> = {
+  easy: 'Makkelijk: algemene kennis die de meeste mensen hebben, met duidelijk verschillende opties.',
+  medium: 'Gemiddeld: vraagt wat nadenken of schoolkennis; de foute opties zijn aannemelijk.',
+  hard: 'Moeilijk: voor liefhebbers van het onderwerp, met opties die dicht bij elkaar liggen.',
+  expert: 'Expert: specialistische kennis of details die alleen kenners weten; alle opties klinken geloofwaardig.',
+};
+
+const buildTopicPrompt = (
+  category: Category,
+  previousErrors: string[],
+  avoidSubjects: string[],
+  kind: QuizKind,
+  language: Language,
+  difficulty?: Difficulty,
+  article?: WikipediaArticle | null
+) => {
+  const definition = getCategory(category);
+  const name = definition?.name ?? category;
+  const { name: languageName, opener } = CONTENT_LANGUAGES[language];
+  let prompt = `
       Je bent de host van een kennis-app genaamd Wikiplay.
-      De gebruiker heeft de categorie "${category}" gekozen.
+      De gebruiker heeft de categorie "${name}" gekozen.
+      ${definition?.promptHint ? `Deze categorie gaat over: ${definition.promptHint}` : ''}
 
       Genereer een JSON object met twee onderdelen:
       1. 'fact': Een interessant, minder bekend Wikipedia-weetje over dit onderwerp.
-         - Begin de tekst ALTIJD met: "- ${category} - \n\nWist je dat..."
+         - Begin de tekst ALTIJD met: "- ${name} - \n\n${opener}"
          - Houd het beknopt (max 3-4 zinnen).
-         - Schrijf in het Nederlands.
+         - Schrijf in ${languageName}.
+
+      Geef in 'subject' het onderwerp van het weetje in 2 tot 5 woorden (bijv. "Afsluitdijk" of "Octopus bloed").
       
-      2. 'quiz': Een uitdagende multiple-choice vraag die gaat over de bredere context of achtergrond van dit specifieke onderwerp.
+      2. 'quiz': Een vraag die gaat over de bredere context of achtergrond van dit specifieke onderwerp.
          - BELANGRIJK: Het antwoord mag NIET letterlijk in de tekst van 'fact' staan. De gebruiker moet nadenken of algemene kennis gebruiken.
          - Het moet wel direct gerelateerd zijn aan het onderwerp van het weetje.
-         - 3 opties.
-         - 1 correct antwoord.
+         - Vorm: ${QUIZ_KIND_PROMPTS[kind]}
+         - Zet in 'kind' de waarde "${kind}".
          - Een korte uitleg.
+         - Schrijf de vraag, de antwoorden en de uitleg in ${languageName}.
+    `;
+
+  if (article) {
+    prompt += `
+      Baseer het weetje en de quizvraag UITSLUITEND op het Wikipedia-artikel hieronder, zodat de gebruiker alles kan nalezen.
+      Verzin geen feiten die niet in de tekst staan. Zet in 'subject' de titel van het artikel.
+      Titel: ${article.title}
+      Tekst: ${article.extract}
+    `;
+  }
+
+  if (difficulty) {
+    prompt += `
+      Moeilijkheid van de quizvraag: ${DIFFICULTY_PROMPTS[difficulty]}
+    `;
+  }
+
+  if (avoidSubjects.length > 0) {
+    prompt += `
+      De gebruiker kent deze onderwerpen al. Gebruik ze NIET en kies iets duidelijk anders:
+      ${avoidSubjects.map(s => `- ${s}`).join('\n      ')}
+    `;
+  }
+
+  if (previousErrors.length > 0) {
+    prompt += `
+      Je vorige antwoord was ongeldig om de volgende redenen:
+      ${previousErrors.map(e => `- ${e}`).join('\n      ')}
+      Lever een nieuw antwoord dat deze fouten niet bevat.${kind === 'choice' ? " 'correctAnswer' moet letterlijk gelijk zijn aan een van de 3 'options'." : ''}
+    `;
+  }
+  return prompt;
+};
+
+// Checked facts below this confidence are shown with a warning
+const LOW_CONFIDENCE = 0.7;
+
+const FACT_CHECK_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    factCorrect: { type: Type.BOOLEAN, description: "Klopt het weetje?" },
+    answerCorrect: { type: Type.BOOLEAN, description: "Is het gegeven antwoord op de quizvraag juist?" },
+    confidence: { type: Type.NUMBER, description: "Hoe zeker je bent van je oordeel, van 0 tot 1" },
+    issues: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Gevonden fouten of twijfels" }
+  },
+  required: ["factCorrect", "answerCorrect", "confidence", "issues"]
+};
+
+const buildFactCheckPrompt = (content: TopicContent, article: WikipediaArticle | null, language: Language) => {
+  let prompt = `
+      Je bent de feitencontroleur van een kennis-app. Controleer het weetje en de quizvraag hieronder kritisch.
+      - Klopt het weetje?
+      - Is het gegeven antwoord op de vraag juist, en passen weetje, vraag, antwoord en uitleg bij elkaar?
+      - Geef in 'confidence' aan hoe zeker je bent (1 = zeker juist, 0 = zeker fout) en noem twijfels in 'issues'.
+      - Schrijf de 'issues' in ${CONTENT_LANGUAGES[language].name}; de speler krijgt ze te zien.
+
+      Weetje: ${content.fact}
+      Vraag (${translate('nl', `quizKind.${quizKind(content.quiz)}` as MessageKey)}): ${content.quiz.question}
+      Gegeven antwoord: ${formatCorrectAnswer(content.quiz)}
+      Uitleg: ${content.quiz.explanation}
     `;
 
+  if (article) {
+    prompt += `
+      Controleer ook of alles overeenkomt met deze brontekst van Wikipedia ("${article.title}"):
+      ${article.extract}
+    `;
+  }
+  return prompt;
+};
+
+// Second opinion on a generated topic; null when the check itself fails, so the topic goes out unchecked
+const checkTopic = async (content: TopicContent, article: WikipediaArticle | null, language: Language): Promise<(FactCheck & { rejected: boolean }) | null> => {
+  if (!ai) return null;
+  try {
     const response = await ai.models.generateContent({
       model: 'gemini-2.5-flash',
-      contents: prompt,
+      contents: buildFactCheckPrompt(content, article, language),
       config: {
         responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            fact: { type: Type.STRING },
-            quiz: {
-              type: Type.OBJECT,
-              properties: {
-                question: { type: Type.STRING },
-                options: { 
-                  type: Type.ARRAY, 
-                  items: { type: Type.STRING },
-                  description: "Array van precies 3 opties"
-                },
-                correctAnswer: { type: Type.STRING },
-                explanation: { type: Type.STRING }
-              },
-              required: ["question", "options", "correctAnswer", "explanation"]
-            }
-          },
-          required: ["fact", "quiz"]
-        }
+        responseSchema: FACT_CHECK_SCHEMA
       }
     });
-
-    if (response.text) {
-      return JSON.parse(response.text) as TopicContent;
+    const data: unknown = JSON.parse(response.text ?? '');
+    // Without both verdicts the answer says nothing, which counts as a failed check
+    if (!isObject(data) || typeof data.factCorrect !== 'boolean' || typeof data.answerCorrect !== 'boolean') {
+      console.warn("Gemini fact check gave no verdict:", data);
+      return null;
     }
-    return null;
+    const confidence = typeof data.confidence === 'number' && Number.isFinite(data.confidence)
+      ? Math.min(1, Math.max(0, data.confidence))
+      : 0;
+    const issues = Array.isArray(data.issues)
+      ? data.issues.filter((i: unknown): i is string => typeof i === 'string' && i.trim() !== '')
+      : [];
+    return {
+      confidence,
+      issues,
+      flagged: confidence < LOW_CONFIDENCE,
+      rejected: data.factCorrect === false || data.answerCorrect === false,
+    };
   } catch (error) {
-    console.error("Gemini Content Error:", error);
+    console.warn("Gemini fact check failed:", error);
+    return null;
+  }
+};
+
+export const fetchTopicContent = async (category: Category, options: TopicRequestOptions = {}): Promise<TopicContent | null> => {
+  if (!ai) {
+    console.warn("API Key missing or invalid. Cannot fetch content.");
     return null;
   }
+
+  const kind = options.quizKind ?? 'choice';
+  const avoidSubjects = options.avoidSubjects ?? [];
+  const language = options.language ?? getLanguage();
+  let errors: string[] = [];
+  // Ground the topic in a real article when one can be fetched; otherwise Gemini writes freely
+  let article = await fetchSourceArticle(category, avoidSubjects, language);
+
+  // First attempt plus re-requests that feed the validation errors back to the model
+  for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+    try {
+      const response = await ai.models.generateContent({
+        model: 'gemini-2.5-flash',
+        contents: buildTopicPrompt(category, errors, avoidSubjects, kind, language, options.difficulty, article),
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: topicSchema(kind)
+        }
+      });
+
+      if (!response.text) return null;
+
+      let raw: unknown;
+      try {
+        raw = JSON.parse(response.text);
+      } catch {
+        errors = ["Het antwoord was geen geldige JSON"];
+        continue;
+      }
+
+      const validated = validateTopicContent(raw);
+      // A grounded topic is about its article, whatever the model echoed back
+      const result = validated.value && article
+        ? { ...validated, value: { ...validated.value, subject: article.title, source: { title: article.title, url: article.url } } }
+        : validated;
+      const rejection = result.value && options.rejectContent ? options.rejectContent(result.value) : null;
+      const check = result.value && !rejection ? await checkTopic(result.value, article, language) : null;
+      if (result.value && !rejection && !check?.rejected) {
+        if (result.repairs.length > 0) console.info("Gemini content repaired:", result.repairs);
+        if (check?.flagged) console.info("Gemini content flagged by the fact check:", check.issues);
+        const checked = check ? { ...result.value, check: { confidence: check.confidence, issues: check.issues, flagged: check.flagged } } : result.value;
+        // The question was written for the requested level, whatever the model echoed back
+        return options.difficulty ? { ...checked, quiz: { ...checked.quiz, difficulty: options.difficulty } } : checked;
+      }
+      // A repeated article won't get better by rewriting it, so try another one
+      if (rejection && article) article = await fetchSourceArticle(category, [...avoidSubjects, article.title], language);
+      errors = rejection
+        ? [rejection]
+        : check?.rejected
+        ? (check.issues.length > 0 ? check.issues : ["De feitencontrole vond een fout in het weetje of het antwoord"])
+        : result.errors;
+      console.warn(`Gemini content invalid (attempt ${attempt + 1}):`, errors);
+    } catch (error) {
+      console.error("Gemini Content Error:", error);
+      return null;
+    }
+  }
+
+  return null;
+};
+
+const QUIZ_ROUND_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    questions: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          category: { type: Type.STRING },
+          difficulty: { type: Type.STRING, enum: DIFFICULTIES },
+          question: { type: Type.STRING },
+          options: {
+            type: Type.ARRAY,
+            items: { type: Type.STRING },
+            description: "Array van precies 3 opties"
+          },
+          correctAnswer: { type: Type.STRING },
+          explanation: { type: Type.STRING }
+        },
+        required: ["category", "difficulty", "question", "options", "correctAnswer", "explanation"]
+      }
+    }
+  },
+  required: ["questions"]
+};
+
+const describeCategory = (category: Category) => {
+  const definition = getCategory(category);
+  const name = `"${definition?.name ?? category}"`;
+  return definition?.promptHint ? `${name} (${definition.promptHint})` : name;
+};
+
+const buildQuizRoundPrompt = (categories: Category[], count: number, language: Language, previousErrors: string[]) => {
+  let prompt = `
+      Je bent de quizmaster van een kennis-app genaamd Wikiplay.
+      Stel een quizronde samen van precies ${count} multiple-choice vragen.
+
+      - Gebruik alleen deze categorieën: ${categories.map(describeCategory).join(', ')}. Verdeel de vragen zo gelijk mogelijk.
+      - Zet in 'category' letterlijk de naam van de categorie.
+      - Laat de moeilijkheid oplopen van "easy" via "medium" en "hard" naar "expert", en zet het niveau in 'difficulty':
+        ${DIFFICULTIES.map(d => `${d}: ${DIFFICULTY_PROMPTS[d]}`).join('\n        ')}
+      - Elke vraag gaat over een ander onderwerp, gebaseerd op Wikipedia-kennis.
+      - 3 opties per vraag, waarvan 1 correct antwoord, plus een korte uitleg.
+      - Schrijf in ${CONTENT_LANGUAGES[language].name}.
+    `;
+
+  if (previousErrors.length > 0) {
+    prompt += `
+      Je vorige antwoord was ongeldig om de volgende redenen:
+      ${previousErrors.map(e => `- ${e}`).join('\n      ')}
+      Lever een nieuwe quizronde die deze fouten niet bevat.
+    `;
+  }
+  return prompt;
+};
+
+// A round is accepted once enough questions survive validation; missing ones are not worth a re-request
+export const fetchQuizRound = async (categories: Category[], count: number, language: Language = getLanguage()): Promise<QuizRoundQuestion[] | null> => {
+  if (!ai || categories.length === 0) return null;
+
+  let errors: string[] = [];
+
+  for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+    try {
+      const response = await ai.models.generateContent({
+        model: 'gemini-2.5-flash',
+        contents: buildQuizRoundPrompt(categories, count, language, errors),
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: QUIZ_ROUND_SCHEMA
+        }
+      });
+
+      if (!response.text) return null;
+
+      let raw: unknown;
+      try {
+        raw = JSON.parse(response.text);
+      } catch {
+        errors = ["Het antwoord was geen geldige JSON"];
+        continue;
+      }
+
+      const result = validateQuizRound(raw, categories);
+      if (result.value && result.value.length >= Math.ceil(count / 2)) {
+        if (result.repairs.length > 0) console.info("Gemini quiz round repaired:", result.repairs);
+        return orderByDifficulty(result.value).slice(0, count);
+      }
+      errors = result.errors.length > 0 ? result.errors : [`Te weinig geldige vragen (${result.value?.length ?? 0} van ${count})`];
+      console.warn(`Gemini quiz round invalid (attempt ${attempt + 1}):`, errors);
+    } catch (error) {
+      console.error("Gemini Quiz Round Error:", error);
+      return null;
+    }
+  }
+
+  return null;
 };
 
 export const fetchTriviaImage = async (textContext: string): Promise<string | null> => {
@@ -79,7 +425,7 @@ export const fetchTriviaImage = async (textContext: string): Promise<string | nu
   
   try {
     // Shorten context if too long to save tokens/avoid confusion, keep essence
-    const cleanContext = textContext.replace(/^-.*?Wist je dat/i, '').substring(0, 300);
+    const cleanContext = textContext.replace(/^\s*-[^\n]*-\s*/, '').substring(0, 300);
 
     const response = await ai.models.generateContent({
       model: 'gemini-2.5-flash-image',
@@ -107,7 +453,7 @@ export const fetchTriviaImage = async (textContext: string): Promise<string | nu
   }
 };
 
-export const fetchTriviaAudio = async (text: string): Promise<string | null> => {
+export const fetchTriviaAudio = async (text: string, voice: NarrationVoice = 'Fenrir'): Promise<string | null> => {
     if (!ai) return null;
 
     try {
@@ -118,7 +464,7 @@ export const fetchTriviaAudio = async (text: string): Promise<string | null> =>
           responseModalities: [Modality.AUDIO],
           speechConfig: {
               voiceConfig: {
-                prebuiltVoiceConfig: { voiceName: 'Fenrir' }, 
+                prebuiltVoiceConfig: { voiceName: voice },
               },
           },
         },
@@ -131,3 +477,13 @@ export const fetchTriviaAudio = async (text: string): Promise<string | null> =>
       return null;
     }
   };
+
+export const geminiProvider: ContentProvider = {
+  id: 'gemini',
+  label: 'Google Gemini',
+  isAvailable: () => ai !== null,
+  fetchTopicContent,
+  fetchQuizRound,
+  fetchImage: fetchTriviaImage,
+  fetchAudio: fetchTriviaAudio,
+};
@@ -0,0 +1,250 @@
+import { HistoryEntry, QuizAnswerRecord, ScoreBoard, TopicSource } from "../types";
+import { applyAnswer, emptyScoreBoard, normalizeScoreBoard } from "./scoreBoard";
+import { resolveCategoryId } from "./categories";
+import { isObject, validateQuizData } from "./topicValidation";
+import { t } from "./i18n";
+
+const DB_NAME = 'wikiplay';
+const DB_VERSION = 1;
+const SCORES_STORE = 'scores';
+const HISTORY_STORE = 'history';
+const SCOREBOARD_KEY = 'scoreboard';
+
+export const HISTORY_EXPORT_FORMAT = 'wikiplay-history';
+export const HISTORY_EXPORT_VERSION = 1;
+
+export interface HistoryExport {
+  format: typeof HISTORY_EXPORT_FORMAT;
+  version: number;
+  exportedAt: number;
+  scores: ScoreBoard;
+  entries: HistoryEntry[];
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SCORES_STORE)) {
+          db.createObjectStore(SCORES_STORE);
+        }
+        if (!db.objectStoreNames.contains(HISTORY_STORE)) {
+          const history = db.createObjectStore(HISTORY_STORE, { keyPath: 'id', autoIncrement: true });
+          history.createIndex('timestamp', 'timestamp');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a retry on the next call instead of caching the failure
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+// Run a single request in its own transaction and resolve with its result
+const withStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = run(db.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// --- Scores ---
+
+export const loadScores = async (): Promise<ScoreBoard> => {
+  try {
+    const stored = await withStore<Partial<ScoreBoard> | undefined>(SCORES_STORE, 'readonly', s => s.get(SCOREBOARD_KEY));
+    // Merge onto an empty board so categories and fields added later still get an entry
+    return normalizeScoreBoard(stored);
+  } catch (error) {
+    console.error("History DB Error (Scores):", error);
+    return emptyScoreBoard();
+  }
+};
+
+export const saveScores = async (scores: ScoreBoard): Promise<void> => {
+  try {
+    await withStore(SCORES_STORE, 'readwrite', s => s.put(scores, SCOREBOARD_KEY));
+  } catch (error) {
+    console.error("History DB Error (Scores):", error);
+  }
+};
+
+// --- History ---
+
+export const addHistoryEntry = async (entry: HistoryEntry): Promise<number | null> => {
+  try {
+    const { id, ...withoutId } = entry;
+    return await withStore(HISTORY_STORE, 'readwrite', s => s.add(withoutId)) as number;
+  } catch (error) {
+    console.error("History DB Error (Add):", error);
+    return null;
+  }
+};
+
+export const updateHistoryEntry = async (id: number, patch: Partial<HistoryEntry>): Promise<void> => {
+  try {
+    const existing = await withStore<HistoryEntry | undefined>(HISTORY_STORE, 'readonly', s => s.get(id));
+    if (!existing) return;
+    await withStore(HISTORY_STORE, 'readwrite', s => s.put({ ...existing, ...patch, id }));
+  } catch (error) {
+    console.error("History DB Error (Update):", error);
+  }
+};
+
+export const recordAnswer = (id: number, answer: QuizAnswerRecord) => updateHistoryEntry(id, { answer });
+
+// Entries from before stable category ids name their category; removed custom categories keep their id
+const withCategoryId = (entry: HistoryEntry): HistoryEntry => {
+  const category = resolveCategoryId(entry.category);
+  return category && category !== entry.category ? { ...entry, category } : entry;
+};
+
+// Newest first
+export const getHistory = async (): Promise<HistoryEntry[]> => {
+  try {
+    const entries = await withStore<HistoryEntry[]>(HISTORY_STORE, 'readonly', s => s.index('timestamp').getAll());
+    return entries.map(withCategoryId).reverse();
+  } catch (error) {
+    console.error("History DB Error (Read):", error);
+    return [];
+  }
+};
+
+// --- Export / import ---
+
+export const exportHistory = async (): Promise<string> => {
+  const data: HistoryExport = {
+    format: HISTORY_EXPORT_FORMAT,
+    version: HISTORY_EXPORT_VERSION,
+    exportedAt: Date.now(),
+    scores: await loadScores(),
+    entries: await getHistory(),
+  };
+  return JSON.stringify(data, null, 2);
+};
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+// An answer from an export file, or null when a field is missing or out of range
+const parseAnswer = (raw: unknown): QuizAnswerRecord | null => {
+  if (!isObject(raw)) return null;
+  const { chosenOption, correctAnswer, isCorrect, answeredAt, responseTimeMs, timedOut, points, accuracy } = raw;
+  if (typeof chosenOption !== 'string' || typeof correctAnswer !== 'string') return null;
+  if (typeof isCorrect !== 'boolean' || !isFiniteNumber(answeredAt)) return null;
+  if (responseTimeMs !== undefined && !(isFiniteNumber(responseTimeMs) && responseTimeMs >= 0)) return null;
+  if (timedOut !== undefined && typeof timedOut !== 'boolean') return null;
+  if (points !== undefined && !isFiniteNumber(points)) return null;
+  if (accuracy !== undefined && !(isFiniteNumber(accuracy) && accuracy >= 0 && accuracy <= 1)) return null;
+  return {
+    chosenOption,
+    correctAnswer,
+    isCorrect,
+    answeredAt,
+    ...(isFiniteNumber(responseTimeMs) ? { responseTimeMs } : {}),
+    ...(typeof timedOut === 'boolean' ? { timedOut } : {}),
+    ...(isFiniteNumber(points) ? { points } : {}),
+    ...(isFiniteNumber(accuracy) ? { accuracy } : {}),
+  };
+};
+
+const parseSource = (raw: unknown): TopicSource | null =>
+  isObject(raw) && typeof raw.title === 'string' && typeof raw.url === 'string' ? { title: raw.title, url: raw.url } : null;
+
+// An entry from an export file, or null when it cannot be trusted
+const parseEntry = (raw: unknown): HistoryEntry | null => {
+  if (!isObject(raw)) return null;
+  const { timestamp, category, fact, image, disputed } = raw;
+  if (!isFiniteNumber(timestamp) || typeof category !== 'string' || typeof fact !== 'string' || !fact.trim()) return null;
+  if (image !== undefined && image !== null && typeof image !== 'string') return null;
+  if (disputed !== undefined && typeof disputed !== 'boolean') return null;
+
+  // The quiz goes through the same checks as new content, keeping its option order
+  const hasQuiz = raw.quiz !== undefined && raw.quiz !== null;
+  const quiz = hasQuiz ? validateQuizData(raw.quiz, { shuffle: false }).value : null;
+  const answer = raw.answer === undefined ? null : parseAnswer(raw.answer);
+  const source = raw.source === undefined ? null : parseSource(raw.source);
+  if ((hasQuiz && !quiz) || (raw.answer !== undefined && !answer) || (raw.source !== undefined && !source)) return null;
+
+  return withCategoryId({
+    timestamp,
+    category,
+    fact,
+    quiz,
+    image: typeof image === 'string' ? image : null,
+    ...(source ? { source } : {}),
+    ...(answer ? { answer } : {}),
+    ...(disputed === true ? { disputed } : {}),
+  });
+};
+
+/**
+ * Merge an exported history into the local one. Entries that already exist
+ * (same timestamp and fact) and entries that are malformed are skipped; answers of new entries
+ * are added to the scores.
+ */
+export const importHistory = async (json: string): Promise<{ imported: number; skipped: number }> => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error(t('history.error.invalidFile'));
+  }
+  if (!isObject(data) || data.format !== HISTORY_EXPORT_FORMAT || !Array.isArray(data.entries)) {
+    throw new Error(t('history.error.invalidFile'));
+  }
+  if (!isFiniteNumber(data.version) || data.version > HISTORY_EXPORT_VERSION) {
+    throw new Error(t('history.error.version', { version: String(data.version) }));
+  }
+
+  const existing = await getHistory();
+  const known = new Set(existing.map(e => `${e.timestamp}|${e.fact}`));
+  const answered: HistoryEntry[] = [];
+  let imported = 0;
+  let skipped = 0;
+
+  for (const raw of data.entries as unknown[]) {
+    const entry = parseEntry(raw);
+    const key = entry ? `${entry.timestamp}|${entry.fact}` : '';
+    if (!entry || known.has(key)) {
+      skipped++;
+      continue;
+    }
+    known.add(key);
+    await addHistoryEntry(entry);
+    // Answers to facts reported as wrong were refunded and stay that way
+    if (entry.answer && !entry.disputed) answered.push(entry);
+    imported++;
+  }
+
+  // Only answers from newly imported entries count, so importing the same file twice is harmless
+  if (answered.length > 0) {
+    let scores = await loadScores();
+    answered.forEach(entry => {
+      if (!scores[entry.category] || !entry.answer) return;
+      scores = applyAnswer(scores, entry.category, {
+        isCorrect: entry.answer.isCorrect,
+        accuracy: entry.answer.accuracy ?? (entry.answer.isCorrect ? 1 : 0),
+        chosenOption: entry.answer.chosenOption || null,
+        responseTimeMs: entry.answer.responseTimeMs ?? null,
+        // The countdown is not part of the record, so imported answers earn no speed bonus
+        timeLimitMs: null,
+        timedOut: entry.answer.timedOut ?? false,
+      });
+    });
+    await saveScores(scores);
+  }
+
+  return { imported, skipped };
+};
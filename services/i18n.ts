@@ -0,0 +1,55 @@
+import { Language } from "../types";
+import { loadPreference, savePreference } from "./preferences";
+import nl, { MessageKey } from "./locales/nl";
+import en from "./locales/en";
+
+export type { MessageKey };
+
+export const LANGUAGES: Language[] = ['nl', 'en'];
+
+// Each language in its own words, for the switcher
+export const LANGUAGE_LABELS: Record<Language, string> = {
+  nl: 'Nederlands',
+  en: 'English',
+};
+
+const MESSAGES: Record<Language, Record<MessageKey, string>> = { nl, en };
+
+// Locale for dates and numbers
+const LOCALES: Record<Language, string> = {
+  nl: 'nl-NL',
+  en: 'en-GB',
+};
+
+export const isLanguage = (value: unknown): value is Language => LANGUAGES.includes(value as Language);
+
+// The stored choice, else the browser's language; Dutch speakers and unknown browsers get Dutch
+const initialLanguage = (): Language => {
+  const stored = loadPreference<unknown>('language', null);
+  if (isLanguage(stored)) return stored;
+  const browser = typeof navigator !== 'undefined' ? navigator.language.toLowerCase() : '';
+  return browser && !browser.startsWith('nl') ? 'en' : 'nl';
+};
+
+let current: Language = initialLanguage();
+
+export const getLanguage = (): Language => current;
+
+export const setLanguage = (language: Language) => {
+  current = language;
+  savePreference('language', language);
+};
+
+export const getLocale = (): string => LOCALES[current];
+
+/**
+ * A message in the given language with its {placeholders} filled in. Missing translations
+ * fall back to Dutch, which has every key.
+ */
+export const translate = (language: Language, key: MessageKey, params: Record<string, string | number> = {}): string =>
+  (MESSAGES[language][key] ?? nl[key] ?? key).replace(/\{(\w+)\}/g, (match, name) =>
+    params[name] !== undefined ? String(params[name]) : match
+  );
+
+// A message in the current language
+export const t = (key: MessageKey, params?: Record<string, string | number>): string => translate(current, key, params);
@@ -0,0 +1,304 @@
+import { MessageKey } from "./nl";
+
+const en: Record<MessageKey, string> = {
+  // Shared
+  'common.cancel': 'Cancel',
+  'common.back': 'Back',
+  'common.import': 'Import',
+  'common.export': 'Export',
+  'common.save': 'Save',
+  'common.close': 'Close',
+
+  // App shell
+  'app.noContent': "Sorry, we couldn't find anything about {category}. Please try again.",
+  'header.quizRound': 'Quiz round',
+  'header.playTogether': 'Play together',
+  'header.players': 'Players',
+  'header.categories': 'Categories',
+  'header.history': 'History',
+  'header.ambientMode': 'Ambient mode',
+  'header.ambient': 'Ambient',
+  'header.random': 'Surprise me!',
+  'header.language': 'Language',
+  'playMode.grid': 'Categories',
+  'playMode.board': 'Dartboard',
+  'settings.timer': 'Clock:',
+  'settings.timerOff': 'Off',
+  'settings.difficulty': 'Level:',
+  'settings.adaptive': 'Automatic',
+  'settings.adaptiveHint': 'Adapts to your score in each category',
+  'settings.quizKind': 'Question:',
+  'settings.mixed': 'Mixed',
+  'settings.narration': 'Narration:',
+  'settings.voice': 'Voice',
+  'settings.autoPlay': 'Auto-play',
+  'intro.gridTitle': 'Pick your category',
+  'intro.boardTitle': 'Throw a dart',
+  'intro.grid': 'Read a fact or jump straight into a quiz.',
+  'intro.board': 'Aim with your click: the segment you hit picks the category. The rings give double or triple points, a bullseye a joker!',
+  'grid.fact': 'Fact',
+  'grid.quiz': 'Quiz',
+  'ambient.imageAlt': 'Fullscreen atmosphere',
+  'ambient.back': 'Back to home',
+  'ambient.nowPlaying': '{title} · on {station}',
+
+  // Categories
+  'category.history': 'History',
+  'category.science': 'Science',
+  'category.nature': 'Nature',
+  'category.sports': 'Sports',
+  'category.art': 'Art',
+  'category.tech': 'Technology',
+  'category.geography': 'Geography',
+  'category.entertainment': 'Entertainment',
+  'categories.error.nameMissing': 'Give the category a name',
+  'categories.error.nameTooLong': 'The name can be at most {max} characters',
+  'categories.error.nameTaken': 'There is already a category "{name}"',
+  'categories.error.color': 'Pick a valid color',
+  'categories.error.icon': 'Pick an icon',
+  'categories.error.tooMany': 'You can create at most {max} categories of your own',
+  'categories.error.builtin': 'Only your own categories can be changed',
+  'categories.confirmRemove': 'Remove "{name}"? The scores in this category will be lost.',
+  'categories.intro': 'Create your own categories next to the built-in ones. A short description helps find fitting facts and questions.',
+  'categories.builtin': 'Built-in category',
+  'categories.noHint': 'No description',
+  'categories.edit': 'Edit category',
+  'categories.remove': 'Remove category',
+  'categories.add': 'Add category',
+  'categories.limit': "You've reached the maximum of {max} custom categories.",
+  'categories.namePlaceholder': 'Name, e.g. Cooking',
+  'categories.color': 'Colour',
+  'categories.hintPlaceholder': 'What is this category about? E.g. recipes, world cuisines and cooking techniques',
+
+  // Difficulty and question formats
+  'difficulty.easy': 'Easy',
+  'difficulty.medium': 'Medium',
+  'difficulty.hard': 'Hard',
+  'difficulty.expert': 'Expert',
+  'quizKind.choice': 'Multiple choice',
+  'quizKind.truefalse': 'True or false',
+  'quizKind.estimate': 'Estimate',
+  'quizKind.order': 'Order',
+  'quizKind.text': 'Open question',
+
+  // Fact modal
+  'fact.loading': 'Loading...',
+  'fact.finalChallenge': 'Final question',
+  'fact.joker': 'Joker',
+  'fact.bonus': 'Bonus',
+  'fact.fetching': 'Gathering knowledge...',
+  'fact.imageAlt': 'Subject',
+  'fact.paintingImage': 'Painting the picture...',
+  'fact.readAloud': 'Read aloud',
+  'fact.source': 'Source: {title} (Wikipedia)',
+  'fact.checkWarning': 'The fact check doubts this fact',
+  'fact.quiz': 'Quiz',
+  'fact.finalWon': '🏆 Final won!',
+  'fact.correctMultiplied': '🎯 Well spotted! {multiplier}x points!',
+  'fact.correct': '🎉 Well spotted!',
+  'report.thanks': 'Thanks for your report',
+  'report.removed': "This fact won't come back.",
+  'report.refunded': 'The {points} points for your answer have been taken back.',
+  'report.notCounted': "Your answer doesn't count towards the scoreboard.",
+  'report.button': 'Report error',
+  'report.question': "What's wrong?",
+  'report.placeholder': 'E.g. the answer is wrong (optional)',
+  'report.submit': 'Report',
+  'share.question': 'Quiz question: {question}',
+  'share.source': 'Source: {url}',
+  'share.copied': 'Text copied!',
+  'share.button': 'Share',
+
+  // Narration
+  'narration.pause': 'Pause',
+  'narration.speed': 'Playback speed',
+  'narration.download': 'Download as WAV',
+  'narration.unavailable': 'Narration is not available',
+  'narration.browserVoice': 'browser voice',
+  'narration.browserVoiceHint': "Read aloud by your browser's speech synthesis",
+  'narration.voice.Fenrir': 'Fenrir · excitable',
+  'narration.voice.Kore': 'Kore · firm',
+  'narration.voice.Puck': 'Puck · upbeat',
+  'narration.voice.Charon': 'Charon · informative',
+  'narration.voice.Aoede': 'Aoede · breezy',
+
+  // Quiz questions
+  'quiz.true': 'True',
+  'quiz.false': 'False',
+  'quiz.label': 'Test your knowledge',
+  'quiz.startClock': 'Start the clock ({seconds} seconds)',
+  'quiz.timeUp': "⏰ Time's up!",
+  'quiz.partial': 'Almost! {percent}% right.',
+  'quiz.wrong': "Sorry, that's not quite right.",
+  'quiz.correctAnswer': 'Correct answer:',
+  'quiz.responseTime': 'Answered in {seconds} s',
+  'quiz.points': '+{points} points',
+  'quiz.estimatePlaceholder': 'Your estimate',
+  'quiz.moveUp': 'Move up',
+  'quiz.moveDown': 'Move down',
+  'quiz.checkOrder': 'Check order',
+  'quiz.textPlaceholder': 'Type your answer',
+
+  // Quiz round
+  'round.loading': 'Collecting questions...',
+  'round.correct': 'answered correctly',
+  'round.points': 'points',
+  'round.averageTime': 'avg. response time',
+  'round.timedOut': "time's up",
+  'round.question': 'Question {n}',
+  'round.failed': 'No questions could be made. Please try again.',
+  'round.intro': 'A series of questions in a row, from easy to hard. Every question counts towards the scoreboard.',
+  'round.category': 'Category',
+  'round.count': 'Number of questions: {count}',
+  'round.again': 'New round',
+  'round.next': 'Next question',
+  'round.results': 'See results',
+  'round.start': 'Start round',
+
+  // Scores and multiplayer
+  'scoreboard.playerTitle': "{name}'s scoreboard",
+  'scoreboard.title': 'Your scoreboard',
+  'scoreboard.bestStreak': 'Longest streak',
+  'scoreboard.averageTime': 'Average response time',
+  'scoreboard.empty': 'No scores yet. Pick a topic to get started!',
+  'players.intro': 'Players take turns throwing or picking a category and answering the quiz question. Then pass the screen on!',
+  'players.placeholder': 'Player {n}',
+  'players.remove': 'Remove player',
+  'players.add': 'Add player',
+  'players.duplicate': 'Every player needs their own name.',
+  'players.mode': 'Game mode',
+  'players.rounds': 'Rounds',
+  'players.roundsHint': 'Most points wins',
+  'players.wedges': 'Wedges',
+  'players.wedgesHint': 'All categories right + final question',
+  'players.roundCount': 'Number of rounds',
+  'players.start': 'Start game',
+  'turn.wedgesRound': 'Wedges · round {round}',
+  'turn.round': 'Round {round} of {total}',
+  'turn.active': 'Your turn:',
+  'turn.final': 'Final question! Answer it correctly and you win the game.',
+  'turn.stop': 'Stop game',
+  'podium.title': 'Final standings',
+  'podium.winner': 'collected every wedge and won the final!',
+  'podium.again': 'Play again',
+  'podium.stop': 'Stop',
+  'wedges.label': '{count} of {total} categories',
+
+  // Dartboard
+  'dartboard.bullseye': 'Bullseye! Joker!',
+  'dartboard.double': 'Double! x2',
+  'dartboard.treble': 'Triple! x3',
+  'dartboard.miss': 'Miss!',
+  'dartboard.spin': 'Click to spin!',
+  'dartboard.throw': 'THROW NOW!',
+
+  // History
+  'history.error.invalidFile': 'Not a valid Wikiplay history file',
+  'history.error.version': 'Version {version} is not supported',
+  'history.imported': '{imported} items imported.',
+  'history.importedSkipped': '{imported} items imported, {skipped} skipped.',
+  'history.importFailed': 'Import failed: {reason}',
+  'history.invalidFile': 'invalid file',
+  'history.disputed': "Reported as wrong · doesn't count",
+  'history.yourAnswer': 'Your answer: {answer}',
+  'history.unanswered': 'Not answered.',
+  'history.timedOut': 'Time was up.',
+  'history.points': '{points} points',
+  'history.allCategories': 'All categories',
+  'history.allLevels': 'All levels',
+  'history.levelTally': '{correct} right · {wrong} wrong',
+  'history.exportFileName': 'wikiplay-history-{date}.json',
+  'history.empty': "You haven't read any facts yet.",
+
+  // Fact packs
+  'factPack.entry': 'Fact {n}',
+  'factPack.error.notObject': '{where}: not an object',
+  'factPack.error.category': '{where}: unknown category "{category}"',
+  'factPack.error.fact': "{where}: 'fact' is missing",
+  'factPack.error.image': "{where}: 'image' must be a URL",
+  'factPack.error.audio': "{where}: 'audio' must be base64 text",
+  'factPack.error.source': "{where}: 'source' needs a 'title' and 'url'",
+  'factPack.error.notJsonObject': 'The file is not a JSON object',
+  'factPack.error.format': '\'format\' must be "{format}"',
+  'factPack.error.version': 'Version {version} is not supported',
+  'factPack.error.id': "'id' is missing",
+  'factPack.error.name': "'name' is missing",
+  'factPack.error.facts': "'facts' must be a list",
+  'factPack.error.language': 'Language "{language}" is not supported',
+  'factPack.error.reservedId': 'Pack id "{id}" is reserved',
+  'factPack.error.invalidJson': 'The file is not valid JSON',
+  'factPack.loadFailed': "The fact pack couldn't be loaded:",
+  'factPack.loaded': '"{name}" loaded: {added} new facts.',
+  'factPack.duplicates': '{count} duplicate facts skipped.',
+  'factPack.invalid': '{count} invalid facts ignored:',
+  'factPack.import': 'Import fact pack',
+  'factPack.button': 'Pack',
+
+  // Radio
+  'radio.error': 'Stream error',
+  'radio.tryAnother': 'Try another one',
+  'radio.pause': 'Pause',
+  'radio.play': 'Play',
+  'radio.next': 'Next station',
+  'radio.ducked': 'Quieter during narration',
+  'radio.silenced': 'Silent during the soundscape',
+  'radio.skipped': '{name} did not play, skipped',
+  'radio.stations': 'Stations',
+  'radio.noStations': 'No stations',
+  'radio.failures': 'Failed {count}x in a row',
+  'radio.moveUp': 'Move up',
+  'radio.moveDown': 'Move down',
+  'radio.remove': 'Remove station',
+  'radio.confirmRemove': 'Remove "{name}"?',
+  'radio.add': 'Add station',
+  'radio.namePlaceholder': 'Name',
+  'radio.genrePlaceholder': 'Genre',
+  'radio.reset': 'Restore default stations',
+  'radio.confirmReset': 'Replace your station list with the default stations?',
+  'radio.importPlaylist': 'Import playlist (M3U/PLS)',
+  'radio.imported': '{added} stations added.',
+  'radio.importedSkipped': '{added} stations added, {skipped} were already in the list.',
+  'radio.error.nameMissing': 'Give the station a name',
+  'radio.error.nameTooLong': 'The name can be at most {max} characters',
+  'radio.error.url': 'Enter a valid http(s) stream URL',
+  'radio.error.urlTaken': 'This stream is already in the list ({name})',
+  'radio.error.tooMany': 'You can have at most {max} stations',
+  'radio.error.emptyPlaylist': 'No stations found in this playlist',
+
+  // Soundscapes
+  'soundscape.title': 'Soundscape',
+  'soundscape.mood': 'Sound',
+  'soundscape.auto': 'Matches the category',
+  'soundscape.mood.forest': 'Forest',
+  'soundscape.mood.stadium': 'Stadium',
+  'soundscape.mood.waves': 'Waves',
+  'soundscape.mood.clock': 'Old clock',
+  'soundscape.mood.lab': 'Laboratory',
+  'soundscape.mood.circuit': 'Server room',
+  'soundscape.mood.gallery': 'Gallery',
+  'soundscape.mood.theatre': 'Theatre',
+  'soundscape.mood.calm': 'Calm',
+  'soundscape.volume': 'Soundscape volume',
+  'soundscape.radioMix': 'With radio',
+  'soundscape.radioReplace': 'Without radio',
+  'soundscape.radioHint': 'Mix with the radio or silence the radio while the soundscape plays',
+
+  // Slideshow
+  'slideshow.previous': 'Previous fact',
+  'slideshow.next': 'Next fact',
+  'slideshow.play': 'Play slideshow',
+  'slideshow.pause': 'Pause slideshow',
+  'slideshow.interval': 'Time per fact',
+  'slideshow.seconds': '{seconds} s',
+  'slideshow.minutes': '{minutes} min',
+  'slideshow.narrate': 'Read aloud',
+  'slideshow.revealQuiz': 'Quiz question',
+  'slideshow.fullscreen': 'Full screen',
+  'slideshow.keys': '← → previous/next · space pause · Q answer · N read aloud · F full screen · Esc back',
+  'slideshow.loading': 'Gathering facts...',
+  'slideshow.empty': 'No facts to show yet. Look at a few topics first; the show starts by itself once facts are ready.',
+  'slideshow.question': 'Quiz question',
+  'slideshow.answer': 'Answer: {answer}',
+};
+
+export default en;
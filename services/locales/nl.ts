@@ -0,0 +1,305 @@
+// Dutch is the source language: it has every message and is the fallback for missing translations
+const nl = {
+  // Shared
+  'common.cancel': 'Annuleren',
+  'common.back': 'Terug',
+  'common.import': 'Importeren',
+  'common.export': 'Exporteren',
+  'common.save': 'Opslaan',
+  'common.close': 'Sluiten',
+
+  // App shell
+  'app.noContent': 'Excuses, we konden geen informatie vinden over {category}. Probeer het nog eens.',
+  'header.quizRound': 'Quizronde',
+  'header.playTogether': 'Samen spelen',
+  'header.players': 'Spelers',
+  'header.categories': 'Categorieën',
+  'header.history': 'Geschiedenis',
+  'header.ambientMode': 'Sfeermodus',
+  'header.ambient': 'Sfeer',
+  'header.random': 'Verras me!',
+  'header.language': 'Taal',
+  'playMode.grid': 'Categorieën',
+  'playMode.board': 'Dartbord',
+  'settings.timer': 'Klok:',
+  'settings.timerOff': 'Uit',
+  'settings.difficulty': 'Niveau:',
+  'settings.adaptive': 'Automatisch',
+  'settings.adaptiveHint': 'Past zich per categorie aan je score aan',
+  'settings.quizKind': 'Vraag:',
+  'settings.mixed': 'Gemengd',
+  'settings.narration': 'Voorlezen:',
+  'settings.voice': 'Stem',
+  'settings.autoPlay': 'Automatisch afspelen',
+  'intro.gridTitle': 'Kies je categorie',
+  'intro.boardTitle': 'Gooi een pijltje',
+  'intro.grid': 'Lees een weetje of start direct een quiz.',
+  'intro.board': 'Mik met je klik: het vak dat je raakt bepaalt de categorie. De ringen geven dubbele of driedubbele punten, een bullseye een joker!',
+  'grid.fact': 'Weetje',
+  'grid.quiz': 'Quiz',
+  'ambient.imageAlt': 'Sfeerbeeld op volledig scherm',
+  'ambient.back': 'Terug naar Home',
+  'ambient.nowPlaying': '{title} · op {station}',
+
+  // Categories
+  'category.history': 'Geschiedenis',
+  'category.science': 'Wetenschap',
+  'category.nature': 'Natuur',
+  'category.sports': 'Sport',
+  'category.art': 'Kunst',
+  'category.tech': 'Technologie',
+  'category.geography': 'Geografie',
+  'category.entertainment': 'Entertainment',
+  'categories.error.nameMissing': 'Geef de categorie een naam',
+  'categories.error.nameTooLong': 'De naam mag hooguit {max} tekens zijn',
+  'categories.error.nameTaken': 'Er is al een categorie "{name}"',
+  'categories.error.color': 'Kies een geldige kleur',
+  'categories.error.icon': 'Kies een icoon',
+  'categories.error.tooMany': 'Je kunt hooguit {max} eigen categorieën maken',
+  'categories.error.builtin': 'Alleen eigen categorieën kunnen worden aangepast',
+  'categories.confirmRemove': '"{name}" verwijderen? De scores in deze categorie gaan verloren.',
+  'categories.intro': 'Maak je eigen categorieën naast de vaste. Een korte omschrijving helpt om passende weetjes en vragen te vinden.',
+  'categories.builtin': 'Vaste categorie',
+  'categories.noHint': 'Geen omschrijving',
+  'categories.edit': 'Categorie aanpassen',
+  'categories.remove': 'Categorie verwijderen',
+  'categories.add': 'Categorie toevoegen',
+  'categories.limit': 'Je hebt het maximum van {max} eigen categorieën bereikt.',
+  'categories.namePlaceholder': 'Naam, bijv. Koken',
+  'categories.color': 'Kleur',
+  'categories.hintPlaceholder': 'Waar gaat deze categorie over? Bijv. recepten, keukens van de wereld en kooktechnieken',
+
+  // Difficulty and question formats
+  'difficulty.easy': 'Makkelijk',
+  'difficulty.medium': 'Gemiddeld',
+  'difficulty.hard': 'Moeilijk',
+  'difficulty.expert': 'Expert',
+  'quizKind.choice': 'Meerkeuze',
+  'quizKind.truefalse': 'Waar of niet waar',
+  'quizKind.estimate': 'Schatting',
+  'quizKind.order': 'Volgorde',
+  'quizKind.text': 'Open vraag',
+
+  // Fact modal
+  'fact.loading': 'Laden...',
+  'fact.finalChallenge': 'Finalevraag',
+  'fact.joker': 'Joker',
+  'fact.bonus': 'Bonus',
+  'fact.fetching': 'Kennis ophalen...',
+  'fact.imageAlt': 'Onderwerp',
+  'fact.paintingImage': 'Schilderij maken...',
+  'fact.readAloud': 'Lees voor',
+  'fact.source': 'Bron: {title} (Wikipedia)',
+  'fact.checkWarning': 'De feitencontrole twijfelt aan dit weetje',
+  'fact.quiz': 'Quiz',
+  'fact.finalWon': '🏆 Finale gewonnen!',
+  'fact.correctMultiplied': '🎯 Goed gezien! {multiplier}x punten!',
+  'fact.correct': '🎉 Goed gezien!',
+  'report.thanks': 'Bedankt voor je melding',
+  'report.removed': 'Dit weetje komt niet meer terug.',
+  'report.refunded': 'De {points} punten voor je antwoord zijn teruggedraaid.',
+  'report.notCounted': 'Je antwoord telt niet mee op het scorebord.',
+  'report.button': 'Meld fout',
+  'report.question': 'Wat klopt er niet?',
+  'report.placeholder': 'Bijv. het antwoord is fout (optioneel)',
+  'report.submit': 'Melden',
+  'share.question': 'Quizvraag: {question}',
+  'share.source': 'Bron: {url}',
+  'share.copied': 'Tekst gekopieerd!',
+  'share.button': 'Delen',
+
+  // Narration
+  'narration.pause': 'Pauzeren',
+  'narration.speed': 'Afspeelsnelheid',
+  'narration.download': 'Download als WAV',
+  'narration.unavailable': 'Voorlezen is niet beschikbaar',
+  'narration.browserVoice': 'browserstem',
+  'narration.browserVoiceHint': 'Voorgelezen door de spraakfunctie van je browser',
+  'narration.voice.Fenrir': 'Fenrir · enthousiast',
+  'narration.voice.Kore': 'Kore · stellig',
+  'narration.voice.Puck': 'Puck · opgewekt',
+  'narration.voice.Charon': 'Charon · informatief',
+  'narration.voice.Aoede': 'Aoede · luchtig',
+
+  // Quiz questions
+  'quiz.true': 'Waar',
+  'quiz.false': 'Niet waar',
+  'quiz.label': 'Test je kennis',
+  'quiz.startClock': 'Start de klok ({seconds} seconden)',
+  'quiz.timeUp': '⏰ De tijd is om!',
+  'quiz.partial': 'Bijna! {percent}% goed.',
+  'quiz.wrong': 'Helaas, dat klopt niet helemaal.',
+  'quiz.correctAnswer': 'Juiste antwoord:',
+  'quiz.responseTime': 'Antwoord in {seconds} s',
+  'quiz.points': '+{points} punten',
+  'quiz.estimatePlaceholder': 'Jouw schatting',
+  'quiz.moveUp': 'Omhoog',
+  'quiz.moveDown': 'Omlaag',
+  'quiz.checkOrder': 'Controleer volgorde',
+  'quiz.textPlaceholder': 'Typ je antwoord',
+
+  // Quiz round
+  'round.loading': 'Vragen verzamelen...',
+  'round.correct': 'goed beantwoord',
+  'round.points': 'punten',
+  'round.averageTime': 'gem. antwoordtijd',
+  'round.timedOut': 'tijd om',
+  'round.question': 'Vraag {n}',
+  'round.failed': 'Er konden geen vragen worden gemaakt. Probeer het opnieuw.',
+  'round.intro': 'Een reeks vragen achter elkaar, van makkelijk naar moeilijk. Elke vraag telt mee op het scorebord.',
+  'round.category': 'Categorie',
+  'round.count': 'Aantal vragen: {count}',
+  'round.again': 'Nieuwe ronde',
+  'round.next': 'Volgende vraag',
+  'round.results': 'Bekijk uitslag',
+  'round.start': 'Start ronde',
+
+  // Scores and multiplayer
+  'scoreboard.playerTitle': 'Scorebord van {name}',
+  'scoreboard.title': 'Jouw Scorebord',
+  'scoreboard.bestStreak': 'Langste reeks',
+  'scoreboard.averageTime': 'Gemiddelde antwoordtijd',
+  'scoreboard.empty': 'Nog geen scores. Kies een onderwerp om te beginnen!',
+  'players.intro': 'Om de beurt gooit of kiest iedere speler een categorie en beantwoordt de quizvraag. Geef het scherm daarna door!',
+  'players.placeholder': 'Speler {n}',
+  'players.remove': 'Speler verwijderen',
+  'players.add': 'Speler toevoegen',
+  'players.duplicate': 'Iedere speler heeft een eigen naam nodig.',
+  'players.mode': 'Spelvorm',
+  'players.rounds': 'Rondes',
+  'players.roundsHint': 'Meeste punten wint',
+  'players.wedges': 'Taartpunten',
+  'players.wedgesHint': 'Alle categorieën goed + finalevraag',
+  'players.roundCount': 'Aantal rondes',
+  'players.start': 'Start spel',
+  'turn.wedgesRound': 'Taartpunten · ronde {round}',
+  'turn.round': 'Ronde {round} van {total}',
+  'turn.active': 'Aan de beurt:',
+  'turn.final': 'Finalevraag! Beantwoord deze goed en je wint het spel.',
+  'turn.stop': 'Stop spel',
+  'podium.title': 'Eindstand',
+  'podium.winner': 'verzamelde alle taartpunten en won de finale!',
+  'podium.again': 'Nog een potje',
+  'podium.stop': 'Stoppen',
+  'wedges.label': '{count} van {total} categorieën',
+
+  // Dartboard
+  'dartboard.bullseye': 'Bullseye! Joker!',
+  'dartboard.double': 'Dubbel! x2',
+  'dartboard.treble': 'Triple! x3',
+  'dartboard.miss': 'Mis!',
+  'dartboard.spin': 'Klik om te draaien!',
+  'dartboard.throw': 'GOOI NU!',
+
+  // History
+  'history.error.invalidFile': 'Geen geldig Wikiplay-geschiedenisbestand',
+  'history.error.version': 'Versie {version} wordt niet ondersteund',
+  'history.imported': '{imported} items geïmporteerd.',
+  'history.importedSkipped': '{imported} items geïmporteerd, {skipped} overgeslagen.',
+  'history.importFailed': 'Importeren mislukt: {reason}',
+  'history.invalidFile': 'ongeldig bestand',
+  'history.disputed': 'Gemeld als fout · telt niet mee',
+  'history.yourAnswer': 'Jouw antwoord: {answer}',
+  'history.unanswered': 'Niet beantwoord.',
+  'history.timedOut': 'De tijd was om.',
+  'history.points': '{points} punten',
+  'history.allCategories': 'Alle categorieën',
+  'history.allLevels': 'Alle niveaus',
+  'history.levelTally': '{correct} goed · {wrong} fout',
+  'history.exportFileName': 'wikiplay-geschiedenis-{date}.json',
+  'history.empty': 'Nog geen weetjes bekeken.',
+
+  // Fact packs
+  'factPack.entry': 'Weetje {n}',
+  'factPack.error.notObject': '{where}: geen object',
+  'factPack.error.category': '{where}: onbekende categorie "{category}"',
+  'factPack.error.fact': "{where}: 'fact' ontbreekt",
+  'factPack.error.image': "{where}: 'image' moet een URL zijn",
+  'factPack.error.audio': "{where}: 'audio' moet base64-tekst zijn",
+  'factPack.error.source': "{where}: 'source' moet een 'title' en 'url' hebben",
+  'factPack.error.notJsonObject': 'Bestand is geen JSON-object',
+  'factPack.error.format': '\'format\' moet "{format}" zijn',
+  'factPack.error.version': 'Versie {version} wordt niet ondersteund',
+  'factPack.error.id': "'id' ontbreekt",
+  'factPack.error.name': "'name' ontbreekt",
+  'factPack.error.facts': "'facts' moet een lijst zijn",
+  'factPack.error.language': 'Taal "{language}" wordt niet ondersteund',
+  'factPack.error.reservedId': 'Pack-id "{id}" is gereserveerd',
+  'factPack.error.invalidJson': 'Bestand is geen geldige JSON',
+  'factPack.loadFailed': 'Weetjespakket kon niet worden geladen:',
+  'factPack.loaded': '"{name}" geladen: {added} nieuwe weetjes.',
+  'factPack.duplicates': '{count} dubbele weetjes overgeslagen.',
+  'factPack.invalid': '{count} ongeldige weetjes genegeerd:',
+  'factPack.import': 'Weetjespakket importeren',
+  'factPack.button': 'Pakket',
+
+  // Radio
+  'radio.error': 'Stream fout',
+  'radio.tryAnother': 'Probeer een andere',
+  'radio.pause': 'Pauzeren',
+  'radio.play': 'Afspelen',
+  'radio.next': 'Volgende zender',
+  'radio.ducked': 'Zachter tijdens voorlezen',
+  'radio.silenced': 'Stil tijdens sfeergeluid',
+  'radio.skipped': '{name} gaf geen geluid, overgeslagen',
+  'radio.stations': 'Zenders',
+  'radio.noStations': 'Geen zenders',
+  'radio.failures': '{count}x mislukt op rij',
+  'radio.moveUp': 'Omhoog',
+  'radio.moveDown': 'Omlaag',
+  'radio.remove': 'Zender verwijderen',
+  'radio.confirmRemove': '"{name}" verwijderen?',
+  'radio.add': 'Zender toevoegen',
+  'radio.namePlaceholder': 'Naam',
+  'radio.genrePlaceholder': 'Genre',
+  'radio.reset': 'Standaardzenders terugzetten',
+  'radio.confirmReset': 'Je eigen zenderlijst vervangen door de standaardzenders?',
+  'radio.importPlaylist': 'Playlist importeren (M3U/PLS)',
+  'radio.imported': '{added} zenders toegevoegd.',
+  'radio.importedSkipped': '{added} zenders toegevoegd, {skipped} stonden er al.',
+  'radio.error.nameMissing': 'Geef de zender een naam',
+  'radio.error.nameTooLong': 'De naam mag hooguit {max} tekens zijn',
+  'radio.error.url': 'Vul een geldige http(s)-streamlink in',
+  'radio.error.urlTaken': 'Deze stream staat al in de lijst ({name})',
+  'radio.error.tooMany': 'Je kunt hooguit {max} zenders hebben',
+  'radio.error.emptyPlaylist': 'Geen zenders gevonden in deze playlist',
+
+  // Soundscapes
+  'soundscape.title': 'Sfeergeluid',
+  'soundscape.mood': 'Geluid',
+  'soundscape.auto': 'Past bij de categorie',
+  'soundscape.mood.forest': 'Bos',
+  'soundscape.mood.stadium': 'Stadion',
+  'soundscape.mood.waves': 'Golven',
+  'soundscape.mood.clock': 'Oude klok',
+  'soundscape.mood.lab': 'Laboratorium',
+  'soundscape.mood.circuit': 'Serverruimte',
+  'soundscape.mood.gallery': 'Galerie',
+  'soundscape.mood.theatre': 'Theaterzaal',
+  'soundscape.mood.calm': 'Rustig',
+  'soundscape.volume': 'Volume sfeergeluid',
+  'soundscape.radioMix': 'Met radio',
+  'soundscape.radioReplace': 'Zonder radio',
+  'soundscape.radioHint': 'Mengen met de radio of de radio stil zetten zolang het sfeergeluid speelt',
+
+  // Slideshow
+  'slideshow.previous': 'Vorige weetje',
+  'slideshow.next': 'Volgende weetje',
+  'slideshow.play': 'Diavoorstelling afspelen',
+  'slideshow.pause': 'Diavoorstelling pauzeren',
+  'slideshow.interval': 'Tijd per weetje',
+  'slideshow.seconds': '{seconds} s',
+  'slideshow.minutes': '{minutes} min',
+  'slideshow.narrate': 'Voorlezen',
+  'slideshow.revealQuiz': 'Quizvraag',
+  'slideshow.fullscreen': 'Volledig scherm',
+  'slideshow.keys': '← → vorige/volgende · spatie pauze · Q antwoord · N voorlezen · F volledig scherm · Esc terug',
+  'slideshow.loading': 'Weetjes verzamelen...',
+  'slideshow.empty': 'Nog geen weetjes om te tonen. Bekijk eerst een paar onderwerpen; zodra er weetjes klaarstaan begint de voorstelling vanzelf.',
+  'slideshow.question': 'Quizvraag',
+  'slideshow.answer': 'Antwoord: {answer}',
+};
+
+export type MessageKey = keyof typeof nl;
+
+export default nl;
@@ -0,0 +1,87 @@
+import { Category, ContentProvider, QuizData, QuizKind, QuizRoundQuestion, TopicContent, TopicRequestOptions } from "../types";
+import { rampDifficulty } from "./quizRound";
+import { categoryName } from "./categories";
+
+// Deterministic provider for development and tests: the n-th request for a category
+// always yields the same content, and the correct answer is always the first option
+// (or true, the number n, the items A-B-C in that order, or the text of answer A).
+const counters: Partial<Record<Category, number>> = {};
+
+export const resetMockProvider = () => {
+  (Object.keys(counters) as Category[]).forEach(c => delete counters[c]);
+};
+
+const fetchTopicContent = async (category: Category, options: TopicRequestOptions = {}): Promise<TopicContent | null> => {
+  const n = (counters[category] ?? 0) + 1;
+  counters[category] = n;
+  const name = categoryName(category);
+
+  const base = {
+    question: `Testvraag #${n} over ${name}?`,
+    explanation: `Antwoord A${n} is altijd goed in de mock-provider.`,
+    ...(options.difficulty ? { difficulty: options.difficulty } : {}),
+  };
+
+  return {
+    fact: `- ${name} - \n\nWist je dat dit testweetje #${n} over ${name} is?`,
+    quiz: mockQuiz(options.quizKind ?? 'choice', n, base),
+  };
+};
+
+const mockQuiz = (kind: QuizKind, n: number, base: Pick<QuizData, 'question' | 'explanation' | 'difficulty'>): QuizData => {
+  switch (kind) {
+    case 'truefalse': return { ...base, kind, correctAnswer: true };
+    case 'estimate': return { ...base, kind, correctAnswer: n, tolerance: 0, unit: 'stuks' };
+    case 'order': return { ...base, kind, items: [`Antwoord A${n}`, `Antwoord B${n}`, `Antwoord C${n}`] };
+    case 'text': return { ...base, kind, correctAnswer: `Antwoord A${n}` };
+    default: return {
+      ...base,
+      options: [`Antwoord A${n}`, `Antwoord B${n}`, `Antwoord C${n}`],
+      correctAnswer: `Antwoord A${n}`,
+    };
+  }
+};
+
+// Cycles through the categories with a steady difficulty ramp, using the same numbered questions
+const fetchQuizRound = async (categories: Category[], count: number): Promise<QuizRoundQuestion[] | null> => {
+  const questions: QuizRoundQuestion[] = [];
+  for (let i = 0; i < count; i++) {
+    const category = categories[i % categories.length];
+    const content = await fetchTopicContent(category, { difficulty: rampDifficulty(i, count) });
+    if (content) questions.push({ category, quiz: content.quiz });
+  }
+  return questions;
+};
+
+// Solid card with the first words of the fact, as an inline SVG
+const fetchImage = async (textContext: string): Promise<string | null> => {
+  const label = textContext.replace(/^-.*?-\s*/s, '').substring(0, 40).replace(/[<>&"]/g, '');
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="1600" height="900"><rect width="100%" height="100%" fill="#92400e"/><text x="50%" y="50%" fill="#fde68a" font-size="48" text-anchor="middle" font-family="sans-serif">${label}</text></svg>`;
+  return `data:image/svg+xml;utf8,${encodeURIComponent(svg)}`;
+};
+
+// Half a second of 440Hz tone as raw 16-bit PCM at 24kHz, matching the Gemini TTS format
+const fetchAudio = async (_text: string): Promise<string | null> => {
+  const sampleRate = 24000;
+  const samples = sampleRate / 2;
+  const pcm = new Int16Array(samples);
+  for (let i = 0; i < samples; i++) {
+    pcm[i] = Math.round(Math.sin((2 * Math.PI * 440 * i) / sampleRate) * 8000);
+  }
+  const bytes = new Uint8Array(pcm.buffer);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+};
+
+export const mockProvider: ContentProvider = {
+  id: 'mock',
+  label: 'Mock (test)',
+  isAvailable: () => true,
+  fetchTopicContent,
+  fetchQuizRound,
+  fetchImage,
+  fetchAudio,
+};
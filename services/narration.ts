@@ -0,0 +1,292 @@
+import { NarrationSettings, NarrationVoice } from "../types";
+import { loadPreference, savePreference } from "./preferences";
+import { getLanguage, getLocale } from "./i18n";
+import { setNarrationActive } from "./audioCoordinator";
+
+export const NARRATION_VOICES: NarrationVoice[] = ['Fenrir', 'Kore', 'Puck', 'Charon', 'Aoede'];
+
+export const NARRATION_RATES = [0.75, 1, 1.25, 1.5];
+
+const DEFAULT_SETTINGS: NarrationSettings = {
+  voice: 'Fenrir',
+  rate: 1,
+  autoPlay: false,
+};
+
+// Stored settings are checked field by field, so an unknown voice or rate falls back to the default
+const loadSettings = (): NarrationSettings => {
+  const stored = loadPreference<Partial<NarrationSettings> | null>('narration', null) ?? {};
+  return {
+    voice: NARRATION_VOICES.includes(stored.voice as NarrationVoice) ? stored.voice! : DEFAULT_SETTINGS.voice,
+    rate: NARRATION_RATES.includes(stored.rate as number) ? stored.rate! : DEFAULT_SETTINGS.rate,
+    autoPlay: typeof stored.autoPlay === 'boolean' ? stored.autoPlay : DEFAULT_SETTINGS.autoPlay,
+  };
+};
+
+let settings: NarrationSettings = loadSettings();
+
+export const getNarrationSettings = (): NarrationSettings => settings;
+
+export const updateNarrationSettings = (patch: Partial<NarrationSettings>): NarrationSettings => {
+  settings = { ...settings, ...patch };
+  savePreference('narration', settings);
+  return settings;
+};
+
+// --- PCM to WAV ---
+
+// Narration arrives as headerless 16-bit mono PCM at 24kHz (Gemini TTS and fact packs alike)
+const SAMPLE_RATE = 24000;
+const BYTES_PER_SAMPLE = 2;
+
+const base64ToBytes = (base64: string): Uint8Array => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+// Wrap the PCM in a WAV header, so the browser can play, seek and download it like any audio file
+export const pcmToWav = (base64: string): Blob => {
+  const pcm = base64ToBytes(base64);
+  const header = new DataView(new ArrayBuffer(44));
+  const writeAscii = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) header.setUint8(offset + i, text.charCodeAt(i));
+  };
+
+  writeAscii(0, 'RIFF');
+  header.setUint32(4, 36 + pcm.length, true);
+  writeAscii(8, 'WAVE');
+  writeAscii(12, 'fmt ');
+  header.setUint32(16, 16, true);
+  header.setUint16(20, 1, true); // PCM
+  header.setUint16(22, 1, true); // Mono
+  header.setUint32(24, SAMPLE_RATE, true);
+  header.setUint32(28, SAMPLE_RATE * BYTES_PER_SAMPLE, true);
+  header.setUint16(32, BYTES_PER_SAMPLE, true);
+  header.setUint16(34, BYTES_PER_SAMPLE * 8, true);
+  writeAscii(36, 'data');
+  header.setUint32(40, pcm.length, true);
+
+  return new Blob([header, pcm], { type: 'audio/wav' });
+};
+
+// Object URLs of converted narrations, so a replay skips the decoding; the least recently used are released
+const URL_CACHE_LIMIT = 10;
+const urlCache = new Map<string, string>();
+
+export const narrationUrl = (base64: string): string => {
+  const cached = urlCache.get(base64);
+  if (cached) {
+    urlCache.delete(base64);
+    urlCache.set(base64, cached);
+    return cached;
+  }
+
+  const url = URL.createObjectURL(pcmToWav(base64));
+  urlCache.set(base64, url);
+  if (urlCache.size > URL_CACHE_LIMIT) {
+    const [oldest, oldestUrl] = urlCache.entries().next().value as [string, string];
+    urlCache.delete(oldest);
+    URL.revokeObjectURL(oldestUrl);
+  }
+  return url;
+};
+
+// --- Playback ---
+
+export interface NarrationProgress {
+  isPlaying: boolean;
+  // Share of the narration done, 0 to 1
+  progress: number;
+  // Seconds, when the engine knows them
+  position: number | null;
+  duration: number | null;
+}
+
+/**
+ * A playable narration. Recorded audio and the browser's speech synthesis both sit behind
+ * this interface, so the player works the same whichever engine reads the text.
+ */
+export interface Narration {
+  play: () => void;
+  pause: () => void;
+  setRate: (rate: number) => void;
+  // Jump to a share of the narration, 0 to 1
+  seek: (fraction: number) => void;
+  // WAV file of the narration; only recorded audio can be downloaded
+  downloadUrl: string | null;
+  dispose: () => void;
+}
+
+let active: Narration | null = null;
+
+// Only one narration plays at a time: starting one pauses the other. Background audio ducks
+// while a narration is playing, which the engines report through the coordinator.
+const claimPlayback = (narration: Narration) => {
+  if (active && active !== narration) active.pause();
+  active = narration;
+};
+
+// Recorded PCM narration, played as a WAV file
+export const createAudioNarration = (audioBase64: string, onProgress: (progress: NarrationProgress) => void): Narration => {
+  const url = narrationUrl(audioBase64);
+  const audio = new Audio(url);
+  audio.preload = 'auto';
+
+  const report = () => {
+    const duration = Number.isFinite(audio.duration) ? audio.duration : null;
+    const isPlaying = !audio.paused && !audio.ended;
+    setNarrationActive(narration, isPlaying);
+    onProgress({
+      isPlaying,
+      progress: duration ? audio.currentTime / duration : 0,
+      position: audio.currentTime,
+      duration,
+    });
+  };
+  const events = ['play', 'pause', 'ended', 'timeupdate', 'durationchange'];
+  events.forEach(e => audio.addEventListener(e, report));
+
+  const narration: Narration = {
+    play: () => {
+      claimPlayback(narration);
+      audio.play().catch(error => console.error("Narration playback error:", error));
+    },
+    pause: () => audio.pause(),
+    setRate: rate => {
+      audio.defaultPlaybackRate = rate;
+      audio.playbackRate = rate;
+    },
+    seek: fraction => {
+      if (Number.isFinite(audio.duration)) audio.currentTime = fraction * audio.duration;
+    },
+    downloadUrl: url,
+    dispose: () => {
+      audio.pause();
+      events.forEach(e => audio.removeEventListener(e, report));
+      setNarrationActive(narration, false);
+    },
+  };
+  return narration;
+};
+
+export const canSynthesizeSpeech = (): boolean => typeof window !== 'undefined' && 'speechSynthesis' in window;
+
+// A browser voice for the locale, else any voice in the language; null leaves the choice to the browser
+const pickSpeechVoice = (): SpeechSynthesisVoice | null => {
+  const locale = getLocale().toLowerCase();
+  const language = getLanguage();
+  const voices = window.speechSynthesis.getVoices();
+  return voices.find(v => v.lang.replace('_', '-').toLowerCase() === locale)
+    ?? voices.find(v => v.lang.toLowerCase().startsWith(language))
+    ?? null;
+};
+
+/**
+ * Fallback narration through the Web Speech API, in the current language. Pausing cancels the
+ * utterance and resuming speaks on from the last word reached, which also makes speed changes
+ * and seeking possible; the browser's own pause is unreliable across engines.
+ */
+export const createSpeechNarration = (text: string, onProgress: (progress: NarrationProgress) => void): Narration => {
+  const synth = window.speechSynthesis;
+  let current: SpeechSynthesisUtterance | null = null;
+  let offset = 0;
+  let rate = 1;
+
+  const report = (isPlaying: boolean) => {
+    setNarrationActive(narration, isPlaying);
+    onProgress({ isPlaying, progress: text.length ? offset / text.length : 0, position: null, duration: null });
+  };
+
+  // Start of the word at or before the index, so resuming never begins halfway through a word
+  const wordStart = (index: number) => {
+    let i = Math.max(0, Math.min(index, text.length));
+    while (i > 0 && /\S/.test(text[i - 1])) i--;
+    return i;
+  };
+
+  const stop = () => {
+    current = null;
+    synth.cancel();
+  };
+
+  const speakFrom = (start: number) => {
+    stop();
+    offset = wordStart(start);
+
+    const utterance = new SpeechSynthesisUtterance(text.slice(offset));
+    const from = offset;
+    utterance.lang = getLocale();
+    utterance.voice = pickSpeechVoice();
+    utterance.rate = rate;
+    utterance.onboundary = e => {
+      if (current !== utterance) return;
+      offset = from + e.charIndex;
+      report(true);
+    };
+    utterance.onend = () => {
+      if (current !== utterance) return;
+      current = null;
+      offset = text.length;
+      report(false);
+    };
+    utterance.onerror = e => {
+      if (current !== utterance) return;
+      console.error("Speech synthesis error:", e.error);
+      current = null;
+      report(false);
+    };
+
+    current = utterance;
+    synth.speak(utterance);
+    report(true);
+  };
+
+  const narration: Narration = {
+    play: () => {
+      claimPlayback(narration);
+      // A finished narration starts over
+      speakFrom(offset >= text.length ? 0 : offset);
+    },
+    pause: () => {
+      if (!current) return;
+      stop();
+      report(false);
+    },
+    setRate: next => {
+      rate = next;
+      if (current) speakFrom(offset);
+    },
+    seek: fraction => {
+      offset = wordStart(Math.round(fraction * text.length));
+      if (current) speakFrom(offset);
+      else report(false);
+    },
+    downloadUrl: null,
+    dispose: () => {
+      if (current) stop();
+      setNarrationActive(narration, false);
+    },
+  };
+  return narration;
+};
+
+// Recorded audio when there is any, else the browser reads the text; null when neither is possible
+export const createNarration = (
+  audioBase64: string | null,
+  text: string,
+  onProgress: (progress: NarrationProgress) => void
+): Narration | null => {
+  if (audioBase64) return createAudioNarration(audioBase64, onProgress);
+  if (canSynthesizeSpeech()) return createSpeechNarration(text, onProgress);
+  return null;
+};
+
+// m:ss for the progress display
+export const formatPlaybackTime = (seconds: number): string => {
+  const total = Number.isFinite(seconds) ? Math.floor(seconds) : 0;
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+};
@@ -0,0 +1,167 @@
+import { BuiltinCategory, TopicContent } from "../types";
+
+// Small curated set of facts that ships with the app, so it stays playable without an API key.
+const fact = (category: BuiltinCategory, body: string) => `- ${category} - \n\n${body}`;
+
+export const OFFLINE_FACTS: Record<BuiltinCategory, TopicContent[]> = {
+  [BuiltinCategory.HISTORY]: [
+    {
+      fact: fact(BuiltinCategory.HISTORY, "Wist je dat de Afsluitdijk in 1932 werd gesloten en ruim 32 kilometer lang is? De dijk maakte van de Zuiderzee het IJsselmeer en beschermt sindsdien een groot deel van Nederland tegen de zee."),
+      quiz: {
+        question: "Welke ingenieur werkte de plannen voor de afsluiting van de Zuiderzee uit?",
+        options: ["Cornelis Lely", "Jan Leeghwater", "Johan van Veen"],
+        correctAnswer: "Cornelis Lely",
+        explanation: "Cornelis Lely ontwierp de Zuiderzeewerken. De stad Lelystad is naar hem vernoemd.",
+      },
+    },
+    {
+      fact: fact(BuiltinCategory.HISTORY, "Wist je dat de Tachtigjarige Oorlog officieel eindigde met de Vrede van Münster in 1648? Daarmee werd de Republiek der Zeven Verenigde Nederlanden internationaal erkend als onafhankelijke staat."),
+      quiz: {
+        question: "Tegen welk land vochten de Nederlanden in de Tachtigjarige Oorlog?",
+        options: ["Spanje", "Frankrijk", "Engeland"],
+        correctAnswer: "Spanje",
+        explanation: "De opstand was gericht tegen het bewind van de Spaanse koning Filips II.",
+      },
+    },
+  ],
+  [BuiltinCategory.SCIENCE]: [
+    {
+      fact: fact(BuiltinCategory.SCIENCE, "Wist je dat Antoni van Leeuwenhoek in de 17e eeuw als eerste bacteriën zag? Hij gebruikte zelfgeslepen lensjes en noemde de kleine wezentjes 'diertgens'."),
+      quiz: {
+        question: "In welke stad woonde en werkte Antoni van Leeuwenhoek?",
+        options: ["Delft", "Leiden", "Haarlem"],
+        correctAnswer: "Delft",
+        explanation: "Van Leeuwenhoek was lakenkoopman in Delft en deed daar zijn microscopische ontdekkingen.",
+      },
+    },
+    {
+      fact: fact(BuiltinCategory.SCIENCE, "Wist je dat water bij ongeveer 4 °C zijn grootste dichtheid heeft? Daardoor bevriezen meren van bovenaf en kan het leven onder het ijs de winter doorkomen."),
+      quiz: {
+        question: "Waarom drijft ijs op water?",
+        options: ["IJs heeft een lagere dichtheid dan water", "IJs bevat altijd luchtbellen", "Opgeloste zouten maken water zwaarder"],
+        correctAnswer: "IJs heeft een lagere dichtheid dan water",
+        explanation: "Bij het bevriezen vormen watermoleculen een open kristalrooster dat meer ruimte inneemt dan vloeibaar water.",
+      },
+    },
+  ],
+  [BuiltinCategory.NATURE]: [
+    {
+      fact: fact(BuiltinCategory.NATURE, "Wist je dat een octopus drie harten heeft? Twee harten pompen bloed door de kieuwen en het derde pompt het naar de rest van het lichaam."),
+      quiz: {
+        question: "Welke kleur heeft het bloed van een octopus?",
+        options: ["Blauw", "Groen", "Rood"],
+        correctAnswer: "Blauw",
+        explanation: "Octopussen gebruiken het koperhoudende hemocyanine om zuurstof te vervoeren, wat hun bloed blauw kleurt.",
+      },
+    },
+    {
+      fact: fact(BuiltinCategory.NATURE, "Wist je dat de Oostvaardersplassen pas ontstonden na de drooglegging van Zuidelijk Flevoland in 1968? Het gebied was bedoeld voor industrie, maar groeide uit tot een belangrijk vogelgebied."),
+      quiz: {
+        question: "Welke grote grazers werden in de Oostvaardersplassen uitgezet?",
+        options: ["Konikpaarden", "Wisenten", "Elanden"],
+        correctAnswer: "Konikpaarden",
+        explanation: "Naast konikpaarden werden ook heckrunderen en edelherten uitgezet om het landschap open te houden.",
+      },
+    },
+  ],
+  [BuiltinCategory.SPORTS]: [
+    {
+      fact: fact(BuiltinCategory.SPORTS, "Wist je dat de eerste Elfstedentocht in 1909 werd verreden? Winnaar Minne Hoekstra deed er bijna 14 uur over."),
+      quiz: {
+        question: "In welke stad begint en eindigt de Elfstedentocht traditioneel?",
+        options: ["Leeuwarden", "Sneek", "Dokkum"],
+        correctAnswer: "Leeuwarden",
+        explanation: "Start en finish liggen in de Friese hoofdstad Leeuwarden, met de Bonkevaart als bekende finishplek.",
+      },
+    },
+    {
+      fact: fact(BuiltinCategory.SPORTS, "Wist je dat tijdens de Olympische Spelen van 1928 in Amsterdam voor het eerst een Olympisch vuur brandde? Het vuur stond in een toren naast het stadion."),
+      quiz: {
+        question: "Welke architect ontwierp het Olympisch Stadion van Amsterdam?",
+        options: ["Jan Wils", "Hendrik Petrus Berlage", "Pierre Cuypers"],
+        correctAnswer: "Jan Wils",
+        explanation: "Jan Wils kreeg voor zijn ontwerp zelfs een gouden medaille in de kunstwedstrijden van de Spelen.",
+      },
+    },
+  ],
+  [BuiltinCategory.ART]: [
+    {
+      fact: fact(BuiltinCategory.ART, "Wist je dat 'De Nachtwacht' van Rembrandt eigenlijk geen nachtscène is? Het schilderij werd pas zo genoemd toen het door vergeeld vernis steeds donkerder werd."),
+      quiz: {
+        question: "In welk museum hangt De Nachtwacht?",
+        options: ["Rijksmuseum", "Mauritshuis", "Van Gogh Museum"],
+        correctAnswer: "Rijksmuseum",
+        explanation: "De Nachtwacht is het pronkstuk van het Rijksmuseum in Amsterdam.",
+      },
+    },
+    {
+      fact: fact(BuiltinCategory.ART, "Wist je dat Vermeers 'Meisje met de parel' geen portret van een bestaand persoon is? Het is een 'tronie': een studie van een gezicht met een bijzondere uitdrukking of kleding."),
+      quiz: {
+        question: "In welk museum hangt het Meisje met de parel?",
+        options: ["Mauritshuis", "Rijksmuseum", "Museum Boijmans Van Beuningen"],
+        correctAnswer: "Mauritshuis",
+        explanation: "Het schilderij hangt in het Mauritshuis in Den Haag.",
+      },
+    },
+  ],
+  [BuiltinCategory.TECH]: [
+    {
+      fact: fact(BuiltinCategory.TECH, "Wist je dat de programmeertaal Python is bedacht door de Nederlander Guido van Rossum? Hij begon er eind 1989 aan bij het Centrum Wiskunde & Informatica in Amsterdam."),
+      quiz: {
+        question: "Waar is de naam Python op gebaseerd?",
+        options: ["Monty Python's Flying Circus", "Een slangensoort", "Een figuur uit de Griekse mythologie"],
+        correctAnswer: "Monty Python's Flying Circus",
+        explanation: "Van Rossum was fan van de Britse comedyserie en koos daarom deze naam.",
+      },
+    },
+    {
+      fact: fact(BuiltinCategory.TECH, "Wist je dat de compact cassette door Philips werd ontwikkeld en in 1963 werd gepresenteerd? Philips gaf het formaat vrij in licentie, waardoor het wereldwijd de standaard werd."),
+      quiz: {
+        question: "Welk geluidsformaat ontwikkelde Philips later samen met Sony?",
+        options: ["De cd", "De minidisc", "De mp3"],
+        correctAnswer: "De cd",
+        explanation: "De compact disc werd begin jaren tachtig door Philips en Sony samen geïntroduceerd.",
+      },
+    },
+  ],
+  [BuiltinCategory.GEOGRAPHY]: [
+    {
+      fact: fact(BuiltinCategory.GEOGRAPHY, "Wist je dat het laagste punt van Nederland bij Nieuwerkerk aan den IJssel ligt? Daar ligt de grond ruim 6,7 meter onder NAP."),
+      quiz: {
+        question: "Wat is het hoogste punt van het Europese deel van Nederland?",
+        options: ["Vaalserberg", "Posbank", "Amerongse Berg"],
+        correctAnswer: "Vaalserberg",
+        explanation: "De Vaalserberg in Zuid-Limburg is ongeveer 322 meter hoog.",
+      },
+    },
+    {
+      fact: fact(BuiltinCategory.GEOGRAPHY, "Wist je dat in Baarle-Nassau de landsgrens soms dwars door huizen loopt? Het huisnummerbordje laat zien in welk land de voordeur ligt."),
+      quiz: {
+        question: "Met welk land deelt Baarle-Nassau deze bijzondere grens?",
+        options: ["België", "Duitsland", "Luxemburg"],
+        correctAnswer: "België",
+        explanation: "Het Belgische Baarle-Hertog bestaat uit tientallen enclaves binnen Baarle-Nassau.",
+      },
+    },
+  ],
+  [BuiltinCategory.ENTERTAINMENT]: [
+    {
+      fact: fact(BuiltinCategory.ENTERTAINMENT, "Wist je dat Nijntje in 1955 werd bedacht door Dick Bruna? De boekjes zijn in meer dan vijftig talen vertaald."),
+      quiz: {
+        question: "In welke stad staat het Nijntje Museum?",
+        options: ["Utrecht", "Amsterdam", "Rotterdam"],
+        correctAnswer: "Utrecht",
+        explanation: "Dick Bruna woonde en werkte in Utrecht, waar ook het Nijntje Museum staat.",
+      },
+    },
+    {
+      fact: fact(BuiltinCategory.ENTERTAINMENT, "Wist je dat Nederland het Eurovisiesongfestival vijf keer heeft gewonnen? De laatste overwinning was in 2019."),
+      quiz: {
+        question: "Met welk nummer won Duncan Laurence in 2019?",
+        options: ["Arcade", "Calm After the Storm", "Birds"],
+        correctAnswer: "Arcade",
+        explanation: "'Arcade' won in Tel Aviv en werd daarna een wereldwijde hit.",
+      },
+    },
+  ],
+};
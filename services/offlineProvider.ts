@@ -0,0 +1,26 @@
+import { Category, ContentProvider, TopicContent, TopicRequestOptions } from "../types";
+import { drawFromFactPacks, findFactPackEntry } from "./factPackService";
+
+const fetchTopicContent = async (category: Category, options: TopicRequestOptions = {}): Promise<TopicContent | null> => {
+  const entry = drawFromFactPacks(category, options.language);
+  if (!entry) return null;
+  return entry.source ? { fact: entry.fact, quiz: entry.quiz, source: entry.source } : { fact: entry.fact, quiz: entry.quiz };
+};
+
+// Images and audio only exist when the pack that holds the fact ships them
+const fetchImage = async (textContext: string): Promise<string | null> => {
+  return findFactPackEntry(textContext)?.image ?? null;
+};
+
+const fetchAudio = async (text: string): Promise<string | null> => {
+  return findFactPackEntry(text)?.audio ?? null;
+};
+
+export const offlineProvider: ContentProvider = {
+  id: 'offline',
+  label: 'Offline weetjes',
+  isAvailable: () => true,
+  fetchTopicContent,
+  fetchImage,
+  fetchAudio,
+};
@@ -0,0 +1,22 @@
+// Small user preferences, kept in localStorage under a shared prefix.
+// Reads fall back to the default when storage is unavailable or holds garbage.
+
+const PREFIX = 'wikiplay.pref.';
+
+export const loadPreference = <T>(key: string, fallback: T): T => {
+  try {
+    const raw = localStorage.getItem(PREFIX + key);
+    return raw === null ? fallback : (JSON.parse(raw) as T);
+  } catch (error) {
+    console.error("Preference storage error:", error);
+    return fallback;
+  }
+};
+
+export const savePreference = <T>(key: string, value: T): void => {
+  try {
+    localStorage.setItem(PREFIX + key, JSON.stringify(value));
+  } catch (error) {
+    console.error("Preference storage error:", error);
+  }
+};
@@ -0,0 +1,145 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { QuizData, QuizKindSetting, TopicContent } from '../types';
+import { fetchTopicContent } from './contentProvider';
+import { createPrefetchQueue } from './prefetchQueue';
+
+vi.mock('./contentProvider', () => ({
+  fetchTopicContent: vi.fn(),
+  fetchTriviaImage: vi.fn(async () => null),
+  fetchTriviaAudio: vi.fn(async () => null),
+}));
+
+const fetchTopic = vi.mocked(fetchTopicContent);
+
+const topic = (quiz: Partial<QuizData> = {}): TopicContent => ({
+  fact: 'Wist je dat de Domtoren 465 treden heeft?',
+  quiz: {
+    question: 'Hoeveel treden heeft de Domtoren?',
+    explanation: 'Wie naar boven wil, beklimt 465 treden.',
+    options: ['365', '465', '565'],
+    correctAnswer: '465',
+    ...quiz,
+  } as QuizData,
+});
+
+// Let the queued fetches and their follow-up work settle
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const startQueue = (kindSetting: QuizKindSetting = 'choice') => {
+  const queue = createPrefetchQueue(
+    () => ['history'],
+    { perCategory: 1, concurrency: 1, budget: 5 },
+    () => 'medium',
+    () => kindSetting
+  );
+  queue.start();
+  return queue;
+};
+
+describe('take', () => {
+  beforeEach(() => {
+    fetchTopic.mockReset();
+  });
+
+  it('hands out a topic whose quiz has no difficulty at any level', async () => {
+    fetchTopic.mockResolvedValue(topic());
+    const queue = startQueue();
+    await settle();
+
+    expect(queue.readyCount('history')).toBe(1);
+    expect(queue.take('history', 'hard')).not.toBeNull();
+    queue.stop();
+  });
+
+  it('drops a topic prepared at another level', async () => {
+    fetchTopic.mockResolvedValue(topic({ difficulty: 'easy' }));
+    const queue = startQueue();
+    await settle();
+
+    expect(queue.take('history', 'hard')).toBeNull();
+    queue.stop();
+  });
+
+  it('hands out a topic prepared at the requested level', async () => {
+    fetchTopic.mockResolvedValue(topic({ difficulty: 'medium' }));
+    const queue = startQueue();
+    await settle();
+
+    expect(queue.take('history', 'medium')?.content.quiz.difficulty).toBe('medium');
+    queue.stop();
+  });
+
+  it('hands out a choice quiz from a provider that ignored the requested format', async () => {
+    fetchTopic.mockResolvedValue(topic());
+    const queue = startQueue('order');
+    await settle();
+
+    expect(queue.take('history', undefined, 'order')).not.toBeNull();
+    queue.stop();
+  });
+
+  it('drops a topic prepared in another format', async () => {
+    fetchTopic.mockResolvedValue(topic({ kind: 'order', items: ['Romeinen', 'Vikingen', 'Bourgondiërs'] }));
+    const queue = startQueue('order');
+    await settle();
+
+    expect(queue.take('history', undefined, 'truefalse')).toBeNull();
+    queue.stop();
+  });
+});
+
+describe('failing categories', () => {
+  beforeEach(() => {
+    fetchTopic.mockReset();
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('waits longer before every retry and then gives up', async () => {
+    fetchTopic.mockResolvedValue(null);
+    const queue = createPrefetchQueue(() => ['history'], { perCategory: 1, concurrency: 2, budget: 40 });
+    queue.start();
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(fetchTopic).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(4999);
+    expect(fetchTopic).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(fetchTopic).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(10000);
+    expect(fetchTopic).toHaveBeenCalledTimes(3);
+    await vi.advanceTimersByTimeAsync(20000);
+    expect(fetchTopic).toHaveBeenCalledTimes(4);
+    await vi.advanceTimersByTimeAsync(60 * 60 * 1000);
+    expect(fetchTopic).toHaveBeenCalledTimes(4);
+    queue.stop();
+  });
+
+  it('keeps filling the other categories', async () => {
+    fetchTopic.mockImplementation(async category => category === 'history' ? null : topic());
+    const queue = createPrefetchQueue(() => ['history', 'science'], { perCategory: 1, concurrency: 1, budget: 40 });
+    queue.start();
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(queue.readyCount('science')).toBe(1);
+    expect(queue.readyCount('history')).toBe(0);
+    expect(fetchTopic).toHaveBeenCalledTimes(2);
+    queue.stop();
+  });
+
+  it('tries a failed category again after clear', async () => {
+    fetchTopic.mockResolvedValue(null);
+    const queue = createPrefetchQueue(() => ['history'], { perCategory: 1, concurrency: 1, budget: 40 });
+    queue.start();
+    await vi.advanceTimersByTimeAsync(0);
+
+    fetchTopic.mockResolvedValue(topic());
+    queue.clear();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(queue.readyCount('history')).toBe(1);
+    queue.stop();
+  });
+});
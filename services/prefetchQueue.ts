@@ -0,0 +1,220 @@
+import { Category, Difficulty, QuizKind, QuizKindSetting, TopicContent } from "../types";
+import { quizKind, resolveQuizKind } from "./quizFormats";
+import { fetchTopicContent, fetchTriviaImage, fetchTriviaAudio } from "./contentProvider";
+
+// A topic with all its assets loaded, ready to show without waiting
+export interface PreparedTopic {
+  category: Category;
+  content: TopicContent;
+  image: string | null;
+  audio: string | null;
+  // Question format that was asked for; the offline packs only hold multiple choice and answer with that
+  requestedKind?: QuizKind;
+}
+
+export interface PrefetchOptions {
+  // Ready topics to keep per category
+  perCategory: number;
+  // Topics being prepared at the same time
+  concurrency: number;
+  // Maximum number of topics to prepare in total, to cap API usage per session
+  budget: number;
+}
+
+export const DEFAULT_PREFETCH_OPTIONS: PrefetchOptions = {
+  perCategory: 1,
+  concurrency: 2,
+  budget: 40,
+};
+
+// A category that keeps failing (provider down, no facts for it) waits twice as long before each
+// retry and is left alone after a few failures in a row, so it cannot use up the whole budget
+const RETRY_DELAY_MS = 5000;
+const MAX_FAILURES = 4;
+
+// PREFETCH_* values are injected by vite.config.ts; empty values keep the defaults
+const envNumber = (value: string | undefined, fallback: number) => {
+  const parsed = value ? parseInt(value, 10) : NaN;
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+};
+
+export const getPrefetchOptionsFromEnv = (): PrefetchOptions => {
+  const env = (typeof process !== "undefined" && process.env) ? process.env : {};
+  return {
+    perCategory: envNumber(env.PREFETCH_PER_CATEGORY, DEFAULT_PREFETCH_OPTIONS.perCategory),
+    concurrency: envNumber(env.PREFETCH_CONCURRENCY, DEFAULT_PREFETCH_OPTIONS.concurrency),
+    budget: envNumber(env.PREFETCH_BUDGET, DEFAULT_PREFETCH_OPTIONS.budget),
+  };
+};
+
+export interface PrefetchQueue {
+  start: () => void;
+  stop: () => void;
+  // Take a ready topic for the category, or null when none is ready yet. With a difficulty or
+  // question format, topics prepared otherwise are discarded so the queue refills the right way.
+  take: (category: Category, difficulty?: Difficulty, kind?: QuizKind) => PreparedTopic | null;
+  // Take a ready topic from a random category that has one
+  takeAny: () => PreparedTopic | null;
+  // Drop every ready topic and ignore those still being prepared, e.g. after a language switch
+  clear: () => void;
+  readyCount: (category: Category) => number;
+}
+
+export const createPrefetchQueue = (
+  // Categories to keep topics ready for; read on every refill, so added categories join in
+  getCategories: () => Category[],
+  options: Partial<PrefetchOptions> = {},
+  // Level to prepare each category's topics at; read at the moment a topic is requested
+  getDifficulty: (category: Category) => Difficulty | undefined = () => undefined,
+  // Question format to prepare, read the same way
+  getQuizKindSetting: () => QuizKindSetting = () => 'choice'
+): PrefetchQueue => {
+  const { perCategory, concurrency, budget } = { ...DEFAULT_PREFETCH_OPTIONS, ...options };
+
+  const ready = new Map<Category, PreparedTopic[]>();
+  const pending = new Map<Category, number>();
+  const readyFor = (category: Category) => ready.get(category) ?? ready.set(category, []).get(category)!;
+  const pendingFor = (category: Category) => pending.get(category) ?? 0;
+  let inFlight = 0;
+  let spent = 0;
+  let running = false;
+  // Bumped by clear(), so topics started before it are thrown away when they arrive
+  let generation = 0;
+  // Failures in a row per category, and when it may be tried again
+  const failures = new Map<Category, number>();
+  const retryAt = new Map<Category, number>();
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const prepare = async (category: Category): Promise<PreparedTopic | null> => {
+    const requestedKind = resolveQuizKind(getQuizKindSetting());
+    const content = await fetchTopicContent(category, getDifficulty(category), requestedKind);
+    if (!content) return null;
+
+    const [image, audio] = await Promise.all([
+      fetchTriviaImage(content.fact),
+      fetchTriviaAudio(content.fact)
+    ]);
+    return { category, content, image, audio, requestedKind };
+  };
+
+  // Categories furthest below their target are refilled first
+  const nextCategory = (): Category | null => {
+    let best: Category | null = null;
+    let bestMissing = 0;
+    const now = Date.now();
+    for (const c of getCategories()) {
+      if ((failures.get(c) ?? 0) >= MAX_FAILURES || (retryAt.get(c) ?? 0) > now) continue;
+      const missing = perCategory - readyFor(c).length - pendingFor(c);
+      if (missing > bestMissing) {
+        best = c;
+        bestMissing = missing;
+      }
+    }
+    return best;
+  };
+
+  const cancelRetry = () => {
+    if (retryTimer) clearTimeout(retryTimer);
+    retryTimer = null;
+  };
+
+  // Wake up for the first category whose wait is over
+  const scheduleRetry = () => {
+    cancelRetry();
+    const now = Date.now();
+    const next = Math.min(...[...retryAt.values()].filter(at => at > now));
+    if (Number.isFinite(next)) retryTimer = setTimeout(() => { retryTimer = null; pump(); }, next - now);
+  };
+
+  const recordFailure = (category: Category) => {
+    const count = (failures.get(category) ?? 0) + 1;
+    failures.set(category, count);
+    if (count >= MAX_FAILURES) return;
+    retryAt.set(category, Date.now() + RETRY_DELAY_MS * 2 ** (count - 1));
+    scheduleRetry();
+  };
+
+  const pump = () => {
+    while (running && inFlight < concurrency && spent < budget) {
+      const category = nextCategory();
+      if (!category) return;
+
+      inFlight++;
+      spent++;
+      pending.set(category, pendingFor(category) + 1);
+      const startedIn = generation;
+
+      prepare(category)
+        .catch(error => {
+          console.error("Prefetch error:", error);
+          return null;
+        })
+        .then(topic => {
+          inFlight--;
+          pending.set(category, pendingFor(category) - 1);
+          if (startedIn === generation) {
+            if (topic) {
+              readyFor(category).push(topic);
+              failures.delete(category);
+              retryAt.delete(category);
+            } else {
+              recordFailure(category);
+            }
+          }
+          pump();
+        });
+    }
+  };
+
+  // Providers without levels (the offline packs) leave the difficulty out; their quizzes fit any level
+  const fitsDifficulty = (topic: PreparedTopic, difficulty?: Difficulty) =>
+    !difficulty || !topic.content.quiz.difficulty || topic.content.quiz.difficulty === difficulty;
+
+  // A quiz in another format than was asked for comes from a provider that cannot do better; it fits any format
+  const fitsKind = (topic: PreparedTopic, kind?: QuizKind) => {
+    const actual = quizKind(topic.content.quiz);
+    return !kind || actual === kind || actual !== topic.requestedKind;
+  };
+
+  const take = (category: Category, difficulty?: Difficulty, kind?: QuizKind): PreparedTopic | null => {
+    const queue = ready.get(category);
+    if (queue && (difficulty || kind)) {
+      ready.set(category, queue.filter(t =>
+        fitsDifficulty(t, difficulty) && fitsKind(t, kind)
+      ));
+    }
+    const topic = ready.get(category)?.shift() ?? null;
+    pump();
+    return topic;
+  };
+
+  return {
+    start: () => {
+      running = true;
+      pump();
+      scheduleRetry();
+    },
+    stop: () => {
+      running = false;
+      cancelRetry();
+    },
+    take,
+    takeAny: () => {
+      const available = getCategories().filter(c => readyFor(c).length > 0);
+      if (available.length === 0) return null;
+      const category = available[Math.floor(Math.random() * available.length)];
+      const setting = getQuizKindSetting();
+      return take(category, getDifficulty(category), setting === 'mixed' ? undefined : setting);
+    },
+    readyCount: (category: Category) => ready.get(category)?.length ?? 0,
+    clear: () => {
+      generation++;
+      ready.clear();
+      // Another language may well have topics where this one had none
+      failures.clear();
+      retryAt.clear();
+      cancelRetry();
+      pump();
+    },
+  };
+};
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { QuizData } from '../types';
+import { gradeAnswer, textSimilarity } from './quizFormats';
+
+const base = { question: 'Vraag', explanation: 'Uitleg' };
+
+describe('gradeAnswer for estimates', () => {
+  const quiz: QuizData = { ...base, kind: 'estimate', correctAnswer: 1000, tolerance: 10 };
+  const grade = (value: number) => gradeAnswer(quiz, { kind: 'estimate', value });
+
+  it('counts an answer within the tolerance as correct', () => {
+    expect(grade(1000)).toMatchObject({ isCorrect: true, accuracy: 1 });
+    expect(grade(990)).toMatchObject({ isCorrect: true, accuracy: 1 });
+    expect(grade(1010)).toMatchObject({ isCorrect: true, accuracy: 1 });
+  });
+
+  it('loses accuracy over 5% of the answer beyond the tolerance', () => {
+    expect(grade(1035)).toMatchObject({ isCorrect: false, accuracy: 0.5 });
+    expect(grade(965)).toMatchObject({ isCorrect: false, accuracy: 0.5 });
+    expect(grade(1060)).toMatchObject({ isCorrect: false, accuracy: 0 });
+    expect(grade(5000)).toMatchObject({ isCorrect: false, accuracy: 0 });
+  });
+
+  it('spreads small answers over at least 1', () => {
+    const small: QuizData = { ...base, kind: 'estimate', correctAnswer: 4, tolerance: 0 };
+    expect(gradeAnswer(small, { kind: 'estimate', value: 4.5 })).toMatchObject({ isCorrect: false, accuracy: 0.5 });
+  });
+});
+
+describe('gradeAnswer for orderings', () => {
+  const quiz: QuizData = { ...base, kind: 'order', items: ['Romeinen', 'Vikingen', 'Bourgondiërs', 'Habsburgers'] };
+
+  it('scores the share of items in place', () => {
+    expect(gradeAnswer(quiz, { kind: 'order', items: ['Romeinen', 'Vikingen', 'Bourgondiërs', 'Habsburgers'] }))
+      .toMatchObject({ isCorrect: true, accuracy: 1, text: 'Romeinen → Vikingen → Bourgondiërs → Habsburgers' });
+    expect(gradeAnswer(quiz, { kind: 'order', items: ['Romeinen', 'Vikingen', 'Habsburgers', 'Bourgondiërs'] }))
+      .toMatchObject({ isCorrect: false, accuracy: 0.5 });
+    expect(gradeAnswer(quiz, { kind: 'order', items: ['Habsburgers', 'Bourgondiërs', 'Vikingen', 'Romeinen'] }))
+      .toMatchObject({ isCorrect: false, accuracy: 0 });
+  });
+});
+
+describe('gradeAnswer for typed answers', () => {
+  const quiz: QuizData = { ...base, kind: 'text', correctAnswer: 'Rembrandt', acceptedAnswers: ['Rembrandt van Rijn'] };
+  const grade = (text: string) => gradeAnswer(quiz, { kind: 'text', text });
+
+  it('ignores case, punctuation and surrounding space', () => {
+    expect(grade('  rembrandt! ')).toMatchObject({ isCorrect: true, accuracy: 1, text: 'rembrandt!' });
+  });
+
+  it('forgives a small typo', () => {
+    expect(grade('Rembrant')).toMatchObject({ isCorrect: true });
+    expect(grade('Rembrand van Rijn')).toMatchObject({ isCorrect: true });
+  });
+
+  it('rejects answers that are too far off', () => {
+    expect(grade('Rubens')).toMatchObject({ isCorrect: false, accuracy: 0 });
+    expect(grade('Remb')).toMatchObject({ isCorrect: false });
+    expect(grade('')).toMatchObject({ isCorrect: false });
+  });
+
+  it('accepts a similarity of exactly 0.8', () => {
+    const fiveLetters: QuizData = { ...base, kind: 'text', correctAnswer: 'Breda' };
+    expect(textSimilarity('Breda', 'Bredo')).toBe(0.8);
+    expect(gradeAnswer(fiveLetters, { kind: 'text', text: 'Bredo' })).toMatchObject({ isCorrect: true });
+    expect(textSimilarity('Breda', 'Brugo')).toBe(0.4);
+    expect(gradeAnswer(fiveLetters, { kind: 'text', text: 'Brugo' })).toMatchObject({ isCorrect: false });
+  });
+});
+
+describe('gradeAnswer for choice and true/false', () => {
+  it('is right or wrong', () => {
+    const choice: QuizData = { ...base, options: ['Ja', 'Nee', 'Misschien'], correctAnswer: 'Ja' };
+    expect(gradeAnswer(choice, { kind: 'choice', option: 'Ja' })).toMatchObject({ isCorrect: true, accuracy: 1 });
+    expect(gradeAnswer(choice, { kind: 'choice', option: 'Nee' })).toMatchObject({ isCorrect: false, accuracy: 0 });
+
+    const trueFalse: QuizData = { ...base, kind: 'truefalse', correctAnswer: false };
+    expect(gradeAnswer(trueFalse, { kind: 'truefalse', value: false })).toMatchObject({ isCorrect: true });
+    expect(gradeAnswer(trueFalse, { kind: 'truefalse', value: true })).toMatchObject({ isCorrect: false });
+  });
+});
@@ -0,0 +1,112 @@
+import { ChoiceQuiz, QuizAnswer, QuizData, QuizKind, QuizKindSetting } from "../types";
+import { normalizeAnswer } from "./topicValidation";
+import { MessageKey, getLocale, t } from "./i18n";
+
+export const QUIZ_KINDS: QuizKind[] = ['choice', 'truefalse', 'estimate', 'order', 'text'];
+
+export const quizKindLabel = (kind: QuizKind): string => t(`quizKind.${kind}` as MessageKey);
+
+export const trueFalseLabel = (value: boolean): string => t(value ? 'quiz.true' : 'quiz.false');
+
+// Estimates further off than tolerance + this share of the answer earn nothing
+const ESTIMATE_SPREAD = 0.05;
+// Typed answers at least this similar to an accepted answer count as correct
+const TEXT_MATCH_THRESHOLD = 0.8;
+
+export const quizKind = (quiz: QuizData): QuizKind => quiz.kind ?? 'choice';
+
+export const isChoiceQuiz = (quiz: QuizData): quiz is ChoiceQuiz => quizKind(quiz) === 'choice';
+
+// The format to request for the next question
+export const resolveQuizKind = (setting: QuizKindSetting): QuizKind =>
+  setting === 'mixed' ? QUIZ_KINDS[Math.floor(Math.random() * QUIZ_KINDS.length)] : setting;
+
+export interface GradedAnswer {
+  isCorrect: boolean;
+  accuracy: number;
+  // The answer as shown in results and history
+  text: string;
+}
+
+// Edit distance between two strings, two rows at a time
+const levenshtein = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// Similarity between 0 and 1 after normalizing case, punctuation and spacing
+export const textSimilarity = (a: string, b: string): number => {
+  const x = normalizeAnswer(a);
+  const y = normalizeAnswer(b);
+  if (!x || !y) return 0;
+  return 1 - levenshtein(x, y) / Math.max(x.length, y.length);
+};
+
+export const formatNumber = (value: number) => value.toLocaleString(getLocale(), { maximumFractionDigits: 2 });
+
+// The right answer as text, for results, history and sharing
+export const formatCorrectAnswer = (quiz: QuizData): string => {
+  switch (quiz.kind) {
+    case 'truefalse': return trueFalseLabel(quiz.correctAnswer);
+    case 'estimate': return `${formatNumber(quiz.correctAnswer)}${quiz.unit ? ` ${quiz.unit}` : ''}`;
+    case 'order': return quiz.items.join(' → ');
+    default: return quiz.correctAnswer;
+  }
+};
+
+/**
+ * Grade an answer. Choice, true/false and text questions are right or wrong; estimates lose
+ * accuracy linearly beyond the tolerance and orderings score the share of items in place.
+ * Only a fully right answer counts as correct.
+ */
+export const gradeAnswer = (quiz: QuizData, answer: QuizAnswer): GradedAnswer => {
+  const binary = (isCorrect: boolean, text: string): GradedAnswer => ({ isCorrect, accuracy: isCorrect ? 1 : 0, text });
+
+  if (quiz.kind === 'truefalse' && answer.kind === 'truefalse') {
+    return binary(answer.value === quiz.correctAnswer, trueFalseLabel(answer.value));
+  }
+
+  if (quiz.kind === 'estimate' && answer.kind === 'estimate') {
+    const error = Math.abs(answer.value - quiz.correctAnswer);
+    const spread = Math.max(1, Math.abs(quiz.correctAnswer) * ESTIMATE_SPREAD);
+    const accuracy = error <= quiz.tolerance ? 1 : Math.max(0, 1 - (error - quiz.tolerance) / spread);
+    return {
+      isCorrect: error <= quiz.tolerance,
+      accuracy,
+      text: `${formatNumber(answer.value)}${quiz.unit ? ` ${quiz.unit}` : ''}`,
+    };
+  }
+
+  if (quiz.kind === 'order' && answer.kind === 'order') {
+    const inPlace = quiz.items.filter((item, i) => answer.items[i] === item).length;
+    return {
+      isCorrect: inPlace === quiz.items.length,
+      accuracy: inPlace / quiz.items.length,
+      text: answer.items.join(' → '),
+    };
+  }
+
+  if (quiz.kind === 'text' && answer.kind === 'text') {
+    const accepted = [quiz.correctAnswer, ...(quiz.acceptedAnswers ?? [])];
+    return binary(accepted.some(a => textSimilarity(a, answer.text) >= TEXT_MATCH_THRESHOLD), answer.text.trim());
+  }
+
+  if (isChoiceQuiz(quiz) && answer.kind === 'choice') {
+    return binary(answer.option === quiz.correctAnswer, answer.option);
+  }
+
+  // The answer doesn't fit the question; can only happen through a programming error
+  console.error(`Answer of kind '${answer.kind}' given to a '${quizKind(quiz)}' question`);
+  return binary(false, '');
+};
@@ -0,0 +1,45 @@
+import { Category, Difficulty, QuizRoundQuestion } from "../types";
+import { drawFromFactPacks } from "./factPackService";
+import { normalizeAnswer } from "./topicValidation";
+import { DIFFICULTIES, difficultyRank } from "./difficulty";
+
+export const QUIZ_ROUND_MIN = 5;
+export const QUIZ_ROUND_MAX = 10;
+export const QUIZ_ROUND_DEFAULT = 6;
+
+export const clampRoundSize = (count: number) => Math.min(QUIZ_ROUND_MAX, Math.max(QUIZ_ROUND_MIN, Math.round(count)));
+
+// Target difficulty for the n-th question, climbing evenly from easy to expert
+export const rampDifficulty = (index: number, count: number): Difficulty =>
+  DIFFICULTIES[Math.min(DIFFICULTIES.length - 1, Math.floor((index * DIFFICULTIES.length) / Math.max(1, count)))];
+
+// Easy questions first; the sort is stable, so equal levels keep their order
+export const orderByDifficulty = (questions: QuizRoundQuestion[]): QuizRoundQuestion[] =>
+  [...questions].sort((a, b) => difficultyRank(a.quiz.difficulty) - difficultyRank(b.quiz.difficulty));
+
+/**
+ * Offline round: draw questions from the fact packs, cycling through the categories.
+ * Questions without a level in their pack get one from their position in the round. The round comes out
+ * shorter than asked when the packs run out of distinct questions.
+ */
+export const drawQuizRoundFromFactPacks = (categories: Category[], count: number): QuizRoundQuestion[] => {
+  const questions: QuizRoundQuestion[] = [];
+  const seen = new Set<string>();
+  // Packs may hold fewer distinct questions than asked, so stop after this many tries
+  const maxDraws = count * 2;
+
+  for (let draw = 0; draw < maxDraws && questions.length < count; draw++) {
+    const category = categories[draw % categories.length];
+    const entry = drawFromFactPacks(category);
+    if (!entry) continue;
+
+    const key = normalizeAnswer(entry.quiz.question);
+    if (seen.has(key)) continue;
+    seen.add(key);
+    questions.push({ category, quiz: entry.quiz });
+  }
+
+  return orderByDifficulty(questions.map((q, i) => q.quiz.difficulty
+    ? q
+    : { ...q, quiz: { ...q.quiz, difficulty: rampDifficulty(i, questions.length) } }));
+};
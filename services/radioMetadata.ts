@@ -0,0 +1,184 @@
+// Now-playing titles from the ICY metadata that Icecast and Shoutcast streams weave into their audio.
+// The browser's <audio> element hides that metadata, so a separate request asks the stream for it and
+// reads until the first title. Most streams do not allow this from another origin; RADIO_METADATA_PROXY
+// points at a local proxy (see scripts/radio-proxy.js) that adds the missing CORS headers.
+
+import { RadioStation } from "../types";
+
+export interface NowPlaying {
+  // Stream URL the title belongs to
+  station: string;
+  // Station name, what to show when there is no title
+  name: string;
+  // "Artist - Title" as the stream announces it; null when the stream sends no metadata
+  title: string | null;
+}
+
+const configuredProxy = (typeof process !== "undefined" && process.env && process.env.RADIO_METADATA_PROXY) ? process.env.RADIO_METADATA_PROXY : "";
+
+const POLL_INTERVAL_MS = 20000;
+// Icecast sends the current title in the first block, some servers only once it changes
+const MAX_BLOCKS = 3;
+const REQUEST_TIMEOUT_MS = 15000;
+
+// Streams that turned out not to offer metadata (no CORS, no icy-metaint), so they are not asked again
+const unsupported = new Set<string>();
+
+const metadataUrl = (streamUrl: string) => configuredProxy ? `${configuredProxy}${encodeURIComponent(streamUrl)}` : streamUrl;
+
+// Metadata is usually UTF-8, but older servers send Latin-1
+const decode = (bytes: Uint8Array): string => {
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  } catch {
+    return new TextDecoder('latin1').decode(bytes);
+  }
+};
+
+export const parseStreamTitle = (metadata: string): string | null => {
+  const match = /StreamTitle='(.*?)';/s.exec(metadata.replace(/\0+$/, ''));
+  const title = match?.[1].trim();
+  // Some stations announce nothing but a dash between an empty artist and title
+  return title && title !== '-' ? title : null;
+};
+
+const concat = (chunks: Uint8Array[]): Uint8Array => {
+  const bytes = new Uint8Array(chunks.reduce((sum, c) => sum + c.length, 0));
+  let offset = 0;
+  chunks.forEach(c => {
+    bytes.set(c, offset);
+    offset += c.length;
+  });
+  return bytes;
+};
+
+/**
+ * Read the stream up to the first metadata block that names a title. Every `icy-metaint` bytes of
+ * audio are followed by a length byte (times 16) and that many bytes of `StreamTitle='...';` text.
+ * Throws when the stream cannot be read from here or has no metadata at all.
+ */
+const readStreamTitle = async (streamUrl: string, signal: AbortSignal): Promise<string | null> => {
+  const response = await fetch(metadataUrl(streamUrl), { headers: { 'Icy-MetaData': '1' }, cache: 'no-store', signal });
+  const metaInt = Number(response.headers.get('icy-metaint'));
+  if (!response.ok || !response.body || !metaInt) {
+    response.body?.cancel().catch(() => {});
+    throw new Error(`No ICY metadata (status ${response.status})`);
+  }
+
+  const reader = response.body.getReader();
+  let audioLeft = metaInt;
+  // Bytes of the current metadata block still to come; -1 while waiting for its length byte
+  let metaLeft = -1;
+  let meta: Uint8Array[] = [];
+  let blocks = 0;
+
+  try {
+    while (blocks < MAX_BLOCKS) {
+      const { done, value } = await reader.read();
+      if (done || !value) return null;
+
+      let i = 0;
+      while (i < value.length && blocks < MAX_BLOCKS) {
+        if (audioLeft > 0) {
+          const skip = Math.min(audioLeft, value.length - i);
+          audioLeft -= skip;
+          i += skip;
+        } else if (metaLeft < 0) {
+          metaLeft = value[i++] * 16;
+          meta = [];
+          if (metaLeft === 0) {
+            blocks++;
+            audioLeft = metaInt;
+            metaLeft = -1;
+          }
+        } else {
+          const take = Math.min(metaLeft, value.length - i);
+          meta.push(value.subarray(i, i + take));
+          metaLeft -= take;
+          i += take;
+          if (metaLeft === 0) {
+            const title = parseStreamTitle(decode(concat(meta)));
+            if (title) return title;
+            blocks++;
+            audioLeft = metaInt;
+            metaLeft = -1;
+          }
+        }
+      }
+    }
+    return null;
+  } finally {
+    reader.cancel().catch(() => {});
+  }
+};
+
+// --- Shared now-playing state ---
+
+type NowPlayingListener = (nowPlaying: NowPlaying | null) => void;
+
+let current: NowPlaying | null = null;
+const listeners = new Set<NowPlayingListener>();
+let stopWatching: (() => void) | null = null;
+
+const publish = (next: NowPlaying | null) => {
+  if (next?.station === current?.station && next?.title === current?.title) return;
+  current = next;
+  listeners.forEach(listener => listener(current));
+};
+
+export const getNowPlaying = (): NowPlaying | null => current;
+
+export const subscribeNowPlaying = (listener: NowPlayingListener): (() => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+/**
+ * Follow the title of the stream that is playing, polling every 20 seconds, until stopNowPlaying or
+ * another stream takes over. Streams without reachable metadata publish a null title once.
+ */
+export const watchNowPlaying = (station: RadioStation) => {
+  const streamUrl = station.url;
+  stopNowPlaying();
+  publish({ station: streamUrl, name: station.name, title: null });
+  if (unsupported.has(streamUrl) || typeof fetch === 'undefined') return;
+
+  let controller: AbortController | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let stopped = false;
+
+  const poll = async () => {
+    controller = new AbortController();
+    const timeout = setTimeout(() => controller?.abort(), REQUEST_TIMEOUT_MS);
+    try {
+      const title = await readStreamTitle(streamUrl, controller.signal);
+      if (stopped) return;
+      publish({ station: streamUrl, name: station.name, title });
+      timer = setTimeout(poll, POLL_INTERVAL_MS);
+    } catch (error) {
+      if (stopped) return;
+      // A slow answer is tried again later, a refusal is final
+      if (controller.signal.aborted) {
+        timer = setTimeout(poll, POLL_INTERVAL_MS);
+        return;
+      }
+      console.warn("Radio metadata unavailable:", error);
+      unsupported.add(streamUrl);
+    } finally {
+      clearTimeout(timeout);
+    }
+  };
+  poll();
+
+  stopWatching = () => {
+    stopped = true;
+    if (timer) clearTimeout(timer);
+    controller?.abort();
+  };
+};
+
+export const stopNowPlaying = () => {
+  stopWatching?.();
+  stopWatching = null;
+  publish(null);
+};
@@ -0,0 +1,228 @@
+import { RadioStation } from "../types";
+import { t } from "./i18n";
+
+const STORAGE_KEY = 'wikiplay.radioStations';
+export const MAX_STATIONS = 50;
+const MAX_NAME_LENGTH = 40;
+// Streams that failed this often in a row are passed over when the player moves on by itself
+export const UNHEALTHY_AFTER = 3;
+
+export type StationInput = Pick<RadioStation, 'name' | 'genre' | 'url'>;
+
+export type PlaylistFormat = 'm3u' | 'pls';
+
+// Reliable streams for a Dutch audience, the list a new player starts with
+export const DEFAULT_STATIONS: RadioStation[] = [
+  { id: 'skyradio', name: "Sky Radio", genre: "Non-stop Hits", url: "https://www.mp3stream.nl/skyradio/mp3" },
+  { id: 'radio10', name: "Radio 10", genre: "Greatest Hits", url: "https://www.mp3stream.nl/radio10/mp3" },
+  { id: 'qmusic', name: "Qmusic", genre: "Top 40", url: "https://icecast-qmusicnl-cdp.triple-it.nl/Qmusic_nl_live_96.mp3" },
+  { id: 'npo-radio2', name: "NPO Radio 2", genre: "Variatie", url: "https://icecast.omroep.nl/radio2-bb-mp3" },
+  { id: 'arrow', name: "Arrow Classic Rock", genre: "Rock", url: "https://stream.arrow.nl/arrow" },
+  { id: 'sublime', name: "Sublime", genre: "Soul & Jazz", url: "https://stream.sublime.nl/sublime" },
+  { id: 'lofi', name: "Lofi Hip Hop", genre: "Chill", url: "https://stream.zeno.fm/0r0xa854rp8uv" },
+  { id: 'npo-klassiek', name: "NPO Klassiek", genre: "Klassiek", url: "https://icecast.omroep.nl/radio4-bb-mp3" },
+];
+
+let stations: RadioStation[] | null = null;
+
+const load = (): RadioStation[] => {
+  if (stations) return stations;
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const stored = raw === null ? null : JSON.parse(raw);
+    stations = Array.isArray(stored)
+      ? stored.filter(s => s && typeof s.id === 'string' && typeof s.name === 'string' && typeof s.url === 'string')
+      : DEFAULT_STATIONS.map(s => ({ ...s }));
+  } catch (error) {
+    console.error("Radio station storage error:", error);
+    stations = DEFAULT_STATIONS.map(s => ({ ...s }));
+  }
+  return stations;
+};
+
+const save = () => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(stations ?? []));
+  } catch (error) {
+    console.error("Radio station storage error:", error);
+  }
+};
+
+// The user's stations in their chosen order
+export const getStations = (): RadioStation[] => [...load()];
+
+export const isHealthy = (station: RadioStation): boolean => (station.failures ?? 0) < UNHEALTHY_AFTER;
+
+const isStreamUrl = (value: string): boolean => {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+};
+
+const sameUrl = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+export const validateStationInput = (input: StationInput): string[] => {
+  const errors: string[] = [];
+  const name = input.name.trim();
+  if (!name) errors.push(t('radio.error.nameMissing'));
+  if (name.length > MAX_NAME_LENGTH) errors.push(t('radio.error.nameTooLong', { max: MAX_NAME_LENGTH }));
+  if (!isStreamUrl(input.url.trim())) errors.push(t('radio.error.url'));
+  else if (load().some(s => sameUrl(s.url, input.url))) errors.push(t('radio.error.urlTaken', { name: name || input.url }));
+  return errors;
+};
+
+let idCounter = 0;
+const newStationId = () => `zender-${Date.now().toString(36)}-${(idCounter++).toString(36)}`;
+
+export const addStation = (input: StationInput): { station: RadioStation | null; errors: string[] } => {
+  const errors = validateStationInput(input);
+  if (load().length >= MAX_STATIONS) errors.push(t('radio.error.tooMany', { max: MAX_STATIONS }));
+  if (errors.length > 0) return { station: null, errors };
+
+  const station: RadioStation = { id: newStationId(), name: input.name.trim(), genre: input.genre.trim(), url: input.url.trim() };
+  load().push(station);
+  save();
+  return { station, errors };
+};
+
+export const removeStation = (id: string) => {
+  stations = load().filter(s => s.id !== id);
+  save();
+};
+
+// Swap a station with its neighbour above (-1) or below (1)
+export const moveStation = (id: string, offset: -1 | 1) => {
+  const list = load();
+  const index = list.findIndex(s => s.id === id);
+  const target = index + offset;
+  if (index < 0 || target < 0 || target >= list.length) return;
+  [list[index], list[target]] = [list[target], list[index]];
+  save();
+};
+
+export const resetStations = () => {
+  stations = DEFAULT_STATIONS.map(s => ({ ...s }));
+  save();
+};
+
+// --- Stream health ---
+
+export const recordStationFailure = (id: string) => {
+  const station = load().find(s => s.id === id);
+  if (!station) return;
+  station.failures = (station.failures ?? 0) + 1;
+  save();
+};
+
+export const recordStationSuccess = (id: string) => {
+  const station = load().find(s => s.id === id);
+  if (!station || !station.failures) return;
+  station.failures = 0;
+  save();
+};
+
+// The first healthy station after the given one, wrapping around and leaving out the ones already tried
+export const nextHealthyStation = (fromId: string, tried: ReadonlySet<string> = new Set()): RadioStation | null => {
+  const list = load();
+  const start = list.findIndex(s => s.id === fromId);
+  for (let step = 1; step <= list.length; step++) {
+    const station = list[(start + step) % list.length];
+    if (station.id !== fromId && !tried.has(station.id) && isHealthy(station)) return station;
+  }
+  return null;
+};
+
+// --- Playlists ---
+
+const hostName = (url: string) => {
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return url;
+  }
+};
+
+// #EXTM3U with #EXTINF titles; the genre comes from #EXTGENRE or a group-title attribute
+const parseM3u = (lines: string[]): StationInput[] => {
+  const entries: StationInput[] = [];
+  let name = '';
+  let genre = '';
+  lines.forEach(line => {
+    if (line.startsWith('#EXTINF:')) {
+      const info = line.slice('#EXTINF:'.length);
+      name = info.includes(',') ? info.slice(info.indexOf(',') + 1).trim() : '';
+      genre = /group-title="([^"]*)"/.exec(info)?.[1] ?? genre;
+    } else if (line.startsWith('#EXTGENRE:')) {
+      genre = line.slice('#EXTGENRE:'.length).trim();
+    } else if (!line.startsWith('#')) {
+      entries.push({ name: name || hostName(line), genre, url: line });
+      name = '';
+      genre = '';
+    }
+  });
+  return entries;
+};
+
+// [playlist] with numbered FileN and TitleN keys
+const parsePls = (lines: string[]): StationInput[] => {
+  const files: Record<string, string> = {};
+  const titles: Record<string, string> = {};
+  lines.forEach(line => {
+    const match = /^(File|Title)(\d+)=(.*)$/i.exec(line);
+    if (!match) return;
+    (match[1].toLowerCase() === 'file' ? files : titles)[match[2]] = match[3].trim();
+  });
+  return Object.keys(files)
+    .sort((a, b) => Number(a) - Number(b))
+    .map(n => ({ name: titles[n] || hostName(files[n]), genre: '', url: files[n] }));
+};
+
+export const parsePlaylist = (text: string): StationInput[] => {
+  const lines = text.split(/\r?\n/).map(l => l.trim()).filter(Boolean);
+  return lines[0]?.toLowerCase() === '[playlist]' ? parsePls(lines) : parseM3u(lines);
+};
+
+/**
+ * Add the stations of an M3U or PLS playlist. Streams already in the list are skipped,
+ * invalid entries are reported by name.
+ */
+export const importPlaylist = (text: string): { added: number; skipped: number; errors: string[] } => {
+  const entries = parsePlaylist(text);
+  if (entries.length === 0) return { added: 0, skipped: 0, errors: [t('radio.error.emptyPlaylist')] };
+
+  let added = 0;
+  let skipped = 0;
+  const errors: string[] = [];
+  entries.forEach(entry => {
+    if (load().some(s => sameUrl(s.url, entry.url))) {
+      skipped++;
+      return;
+    }
+    const result = addStation({ ...entry, name: entry.name.slice(0, MAX_NAME_LENGTH) });
+    if (result.station) added++;
+    else errors.push(`${entry.name}: ${result.errors.join(', ')}`);
+  });
+  return { added, skipped, errors };
+};
+
+export const exportPlaylist = (format: PlaylistFormat): string => {
+  const list = load();
+  if (format === 'pls') {
+    const lines = ['[playlist]'];
+    list.forEach((s, i) => {
+      lines.push(`File${i + 1}=${s.url}`, `Title${i + 1}=${s.name}`, `Length${i + 1}=-1`);
+    });
+    lines.push(`NumberOfEntries=${list.length}`, 'Version=2');
+    return lines.join('\n') + '\n';
+  }
+  const lines = ['#EXTM3U'];
+  list.forEach(s => {
+    lines.push(`#EXTINF:-1,${s.name}`);
+    if (s.genre) lines.push(`#EXTGENRE:${s.genre}`);
+    lines.push(s.url);
+  });
+  return lines.join('\n') + '\n';
+};
@@ -0,0 +1,123 @@
+import { Category, CategoryScore, QuizAnswerResult, ScoreBoard } from "../types";
+import { getCategoryIds, migrateCategoryKeys } from "./categories";
+
+// Points for a correct answer before speed, streak and dartboard bonuses
+export const BASE_POINTS = 100;
+// A timed answer given instantly earns this much on top; it shrinks linearly to 0 at the deadline
+export const MAX_SPEED_BONUS = 100;
+// Each earlier correct answer in the current streak adds this fraction, up to the cap
+const STREAK_BONUS_STEP = 0.1;
+const MAX_STREAK_BONUS = 0.5;
+
+export const emptyCategoryScore = (): CategoryScore => ({
+  correct: 0,
+  wrong: 0,
+  points: 0,
+  streak: 0,
+  bestStreak: 0,
+  totalResponseMs: 0,
+  measuredAnswers: 0,
+});
+
+export const emptyScoreBoard = (): ScoreBoard => {
+  const initial = {} as ScoreBoard;
+  getCategoryIds().forEach(c => initial[c] = emptyCategoryScore());
+  return initial;
+};
+
+// A category's score; categories added after the board was made start empty
+export const categoryScore = (board: ScoreBoard, category: Category): CategoryScore =>
+  board[category] ?? emptyCategoryScore();
+
+// The board without a removed category, so its points no longer count towards the totals
+export const withoutCategory = (board: ScoreBoard, category: Category): ScoreBoard => {
+  const { [category]: _removed, ...rest } = board;
+  return rest;
+};
+
+// Fill in fields missing from boards stored before they existed, and move boards keyed by category name to ids
+export const normalizeScoreBoard = (stored: Partial<Record<Category, Partial<CategoryScore>>> | undefined): ScoreBoard => {
+  const board = emptyScoreBoard();
+  const migrated = migrateCategoryKeys(stored ?? {});
+  (Object.keys(board) as Category[]).forEach(c => {
+    board[c] = { ...board[c], ...(migrated[c] ?? {}) };
+  });
+  return board;
+};
+
+/**
+ * Points for one answer: nothing for a timeout, a share of the base points for a close estimate
+ * or a partly right ordering, otherwise the base points plus a speed bonus (timed questions only),
+ * raised by the running streak and multiplied by the dartboard multiplier.
+ */
+export const pointsForAnswer = (result: QuizAnswerResult, streak: number, multiplier: number = 1): number => {
+  if (result.timedOut) return 0;
+  if (!result.isCorrect) return Math.round(BASE_POINTS * result.accuracy * multiplier);
+
+  const speedBonus = result.timeLimitMs && result.responseTimeMs !== null
+    ? Math.max(0, 1 - result.responseTimeMs / result.timeLimitMs) * MAX_SPEED_BONUS
+    : 0;
+  const streakBonus = Math.min(MAX_STREAK_BONUS, streak * STREAK_BONUS_STEP);
+
+  return Math.round((BASE_POINTS + speedBonus) * (1 + streakBonus) * multiplier);
+};
+
+// The multiplier (dartboard rings and joker rounds) scales the points only; a timeout counts as wrong
+export const applyAnswer = (board: ScoreBoard, category: Category, result: QuizAnswerResult, multiplier: number = 1): ScoreBoard => {
+  const score = categoryScore(board, category);
+  const isCorrect = result.isCorrect && !result.timedOut;
+  const streak = isCorrect ? score.streak + 1 : 0;
+
+  return {
+    ...board,
+    [category]: {
+      correct: score.correct + (isCorrect ? 1 : 0),
+      wrong: score.wrong + (isCorrect ? 0 : 1),
+      points: score.points + pointsForAnswer(result, score.streak, multiplier),
+      streak,
+      bestStreak: Math.max(score.bestStreak, streak),
+      totalResponseMs: score.totalResponseMs + (result.responseTimeMs ?? 0),
+      measuredAnswers: score.measuredAnswers + (result.responseTimeMs === null ? 0 : 1),
+    }
+  };
+};
+
+// Take back an answer that applyAnswer scored, e.g. when the question turns out to be wrong.
+// The points are passed in because the streak they were earned with has moved on since.
+export const refundAnswer = (board: ScoreBoard, category: Category, result: QuizAnswerResult, points: number): ScoreBoard => {
+  const score = categoryScore(board, category);
+  const isCorrect = result.isCorrect && !result.timedOut;
+
+  return {
+    ...board,
+    [category]: {
+      ...score,
+      correct: Math.max(0, score.correct - (isCorrect ? 1 : 0)),
+      wrong: Math.max(0, score.wrong - (isCorrect ? 0 : 1)),
+      points: Math.max(0, score.points - points),
+      streak: isCorrect ? Math.max(0, score.streak - 1) : score.streak,
+      totalResponseMs: Math.max(0, score.totalResponseMs - (result.responseTimeMs ?? 0)),
+      measuredAnswers: Math.max(0, score.measuredAnswers - (result.responseTimeMs === null ? 0 : 1)),
+    }
+  };
+};
+
+export const totalCorrect = (board: ScoreBoard) =>
+  Object.values(board).reduce((sum, s) => sum + s.correct, 0);
+
+export const totalWrong = (board: ScoreBoard) =>
+  Object.values(board).reduce((sum, s) => sum + s.wrong, 0);
+
+export const totalPoints = (board: ScoreBoard) =>
+  Object.values(board).reduce((sum, s) => sum + s.points, 0);
+
+export const bestStreak = (board: ScoreBoard) =>
+  Math.max(0, ...Object.values(board).map(s => s.bestStreak));
+
+// Average response time in milliseconds, for one category or the whole board; null before any answer
+export const averageResponseMs = (board: ScoreBoard, category?: Category): number | null => {
+  const scores = category ? [categoryScore(board, category)] : Object.values(board);
+  const count = scores.reduce((sum, s) => sum + s.measuredAnswers, 0);
+  if (count === 0) return null;
+  return scores.reduce((sum, s) => sum + s.totalResponseMs, 0) / count;
+};
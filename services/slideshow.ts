@@ -0,0 +1,137 @@
+import { Category, HistoryEntry, QuizData, SlideshowSettings, TopicSource } from "../types";
+import { PreparedTopic } from "./prefetchQueue";
+import { addHistoryEntry, getHistory } from "./historyStore";
+import { loadPreference, savePreference } from "./preferences";
+import { rememberTopic } from "./topicMemory";
+
+// Hands-free ambient mode: slides come from topics the prefetch queue has ready, and otherwise
+// from the history, so the show keeps going offline or once the prefetch budget is spent.
+
+export interface Slide {
+  // Identifies the slide for keys and to avoid showing the same fact twice in a row
+  key: string;
+  category: Category;
+  fact: string;
+  quiz: QuizData | null;
+  image: string | null;
+  // Recorded narration; without it the browser reads the fact
+  audio: string | null;
+  source?: TopicSource;
+}
+
+export const SLIDE_INTERVALS = [15, 30, 60, 120, 300];
+
+const DEFAULT_SETTINGS: SlideshowSettings = {
+  interval: 30,
+  autoAdvance: true,
+  narrate: false,
+  revealQuiz: true,
+};
+
+const loadSettings = (): SlideshowSettings => {
+  const stored = loadPreference<Partial<SlideshowSettings> | null>('slideshow', null) ?? {};
+  const flag = (key: 'autoAdvance' | 'narrate' | 'revealQuiz') =>
+    typeof stored[key] === 'boolean' ? stored[key]! : DEFAULT_SETTINGS[key];
+  return {
+    interval: SLIDE_INTERVALS.includes(stored.interval as number) ? stored.interval! : DEFAULT_SETTINGS.interval,
+    autoAdvance: flag('autoAdvance'),
+    narrate: flag('narrate'),
+    revealQuiz: flag('revealQuiz'),
+  };
+};
+
+let settings: SlideshowSettings = loadSettings();
+
+export const getSlideshowSettings = (): SlideshowSettings => settings;
+
+export const updateSlideshowSettings = (patch: Partial<SlideshowSettings>): SlideshowSettings => {
+  settings = { ...settings, ...patch };
+  savePreference('slideshow', settings);
+  return settings;
+};
+
+// The fact without its title line, as the slide shows and reads it
+export const slideText = (fact: string) => fact.split('\n\n')[1] || fact;
+
+export const slideFromTopic = (topic: PreparedTopic): Slide => ({
+  key: `topic-${topic.content.fact}`,
+  category: topic.category,
+  fact: topic.content.fact,
+  quiz: topic.content.quiz,
+  image: topic.image,
+  audio: topic.audio,
+  source: topic.content.source,
+});
+
+const slideFromHistory = (entry: HistoryEntry): Slide => ({
+  key: `history-${entry.id ?? entry.timestamp}`,
+  category: entry.category,
+  fact: entry.fact,
+  quiz: entry.quiz,
+  image: entry.image,
+  audio: null,
+  source: entry.source,
+});
+
+const shuffle = <T>(items: T[]): T[] => {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+};
+
+export interface SlideSource {
+  // The next slide, or null when there is nothing to show at all
+  next: () => Promise<Slide | null>;
+}
+
+/**
+ * Slides for one run of the slideshow. Prepared topics go first and are added to the history and the
+ * topic memory like any topic that was shown; after that the history plays in random order, facts with an image
+ * first, and starts over once everything was on screen. Reported facts are left out.
+ */
+export const createSlideSource = (takePrepared: () => PreparedTopic | null, currentFact: string | null = null): SlideSource => {
+  let pool: Slide[] = [];
+  const shown = new Set<string>(currentFact ? [currentFact] : []);
+
+  const refill = async () => {
+    const entries = (await getHistory()).filter(e => !e.disputed && !shown.has(e.fact));
+    const withImage = entries.filter(e => e.image);
+    const withoutImage = entries.filter(e => !e.image);
+    pool = [...shuffle(withImage), ...shuffle(withoutImage)].map(slideFromHistory);
+  };
+
+  const next = async (): Promise<Slide | null> => {
+    const prepared = takePrepared();
+    if (prepared) {
+      const slide = slideFromTopic(prepared);
+      shown.add(slide.fact);
+      rememberTopic(prepared.category, prepared.content);
+      addHistoryEntry({
+        timestamp: Date.now(),
+        category: slide.category,
+        fact: slide.fact,
+        quiz: slide.quiz,
+        image: slide.image,
+        ...(slide.source ? { source: slide.source } : {}),
+      });
+      return slide;
+    }
+
+    if (pool.length === 0) await refill();
+    if (pool.length === 0 && shown.size > 0) {
+      // Everything has been on screen: go round again, though not with the fact just shown
+      const last = [...shown].pop()!;
+      shown.clear();
+      shown.add(last);
+      await refill();
+    }
+    const slide = pool.shift() ?? null;
+    if (slide) shown.add(slide.fact);
+    return slide;
+  };
+
+  return { next };
+};
@@ -0,0 +1,300 @@
+import { BuiltinCategory, Category, SoundscapeMood, SoundscapeSettings } from "../types";
+import { loadPreference, savePreference } from "./preferences";
+import { DUCK_LEVEL, isDucked, setRadioSilenced, subscribeDucking } from "./audioCoordinator";
+
+// Background sounds for ambient mode, generated with the Web Audio API so no sound files ship with the app.
+// Every mood is a small graph of noise and oscillators, with random events (birdsong, cheers, ticks)
+// scheduled on timers. Switching moods crossfades the old graph out while the new one fades in.
+
+export const SOUNDSCAPE_MOODS: SoundscapeMood[] = ['forest', 'stadium', 'waves', 'clock', 'lab', 'circuit', 'gallery', 'theatre', 'calm'];
+
+const CATEGORY_MOODS: Record<BuiltinCategory, SoundscapeMood> = {
+  [BuiltinCategory.HISTORY]: 'clock',
+  [BuiltinCategory.SCIENCE]: 'lab',
+  [BuiltinCategory.NATURE]: 'forest',
+  [BuiltinCategory.SPORTS]: 'stadium',
+  [BuiltinCategory.ART]: 'gallery',
+  [BuiltinCategory.TECH]: 'circuit',
+  [BuiltinCategory.GEOGRAPHY]: 'waves',
+  [BuiltinCategory.ENTERTAINMENT]: 'theatre',
+};
+
+// User-defined categories have no sound of their own and get the calm pad
+export const moodForCategory = (category: Category | null): SoundscapeMood =>
+  (category && CATEGORY_MOODS[category as BuiltinCategory]) || 'calm';
+
+const DEFAULT_SETTINGS: SoundscapeSettings = {
+  enabled: true,
+  mood: 'auto',
+  volume: 0.6,
+  radio: 'mix',
+};
+
+const loadSettings = (): SoundscapeSettings => {
+  const stored = loadPreference<Partial<SoundscapeSettings> | null>('soundscape', null) ?? {};
+  return {
+    enabled: typeof stored.enabled === 'boolean' ? stored.enabled : DEFAULT_SETTINGS.enabled,
+    mood: stored.mood === 'auto' || SOUNDSCAPE_MOODS.includes(stored.mood as SoundscapeMood) ? stored.mood! : DEFAULT_SETTINGS.mood,
+    volume: typeof stored.volume === 'number' ? Math.min(1, Math.max(0, stored.volume)) : DEFAULT_SETTINGS.volume,
+    radio: stored.radio === 'replace' ? 'replace' : DEFAULT_SETTINGS.radio,
+  };
+};
+
+let settings: SoundscapeSettings = loadSettings();
+
+export const getSoundscapeSettings = (): SoundscapeSettings => settings;
+
+export const updateSoundscapeSettings = (patch: Partial<SoundscapeSettings>): SoundscapeSettings => {
+  settings = { ...settings, ...patch };
+  savePreference('soundscape', settings);
+  applyLevel();
+  if (layer) setRadioSilenced(settings.radio === 'replace');
+  return settings;
+};
+
+// --- Building blocks ---
+
+const CROSSFADE_S = 2.5;
+const NOISE_SECONDS = 4;
+
+type Stop = () => void;
+
+let context: AudioContext | null = null;
+let master: GainNode | null = null;
+const noiseBuffers: Partial<Record<'white' | 'brown', AudioBuffer>> = {};
+
+const noiseBuffer = (ctx: AudioContext, color: 'white' | 'brown'): AudioBuffer => {
+  const cached = noiseBuffers[color];
+  if (cached) return cached;
+  const buffer = ctx.createBuffer(1, ctx.sampleRate * NOISE_SECONDS, ctx.sampleRate);
+  const data = buffer.getChannelData(0);
+  let last = 0;
+  for (let i = 0; i < data.length; i++) {
+    const white = Math.random() * 2 - 1;
+    // Brown noise integrates white noise, which leaves the rumble and drops the hiss
+    last = color === 'brown' ? (last + 0.02 * white) / 1.02 : white;
+    data[i] = color === 'brown' ? last * 3.5 : white;
+  }
+  noiseBuffers[color] = buffer;
+  return buffer;
+};
+
+// Looping noise through a filter, at a fixed level
+const noise = (ctx: AudioContext, out: AudioNode, color: 'white' | 'brown', filter: BiquadFilterType, frequency: number, level: number, q = 1): { gain: GainNode; stop: Stop } => {
+  const source = ctx.createBufferSource();
+  source.buffer = noiseBuffer(ctx, color);
+  source.loop = true;
+  const biquad = ctx.createBiquadFilter();
+  biquad.type = filter;
+  biquad.frequency.value = frequency;
+  biquad.Q.value = q;
+  const gain = ctx.createGain();
+  gain.gain.value = level;
+  source.connect(biquad).connect(gain).connect(out);
+  source.start();
+  return { gain, stop: () => source.stop() };
+};
+
+// A sine drone at a fixed level
+const tone = (ctx: AudioContext, out: AudioNode, frequency: number, level: number, type: OscillatorType = 'sine'): { gain: GainNode; stop: Stop } => {
+  const osc = ctx.createOscillator();
+  osc.type = type;
+  osc.frequency.value = frequency;
+  const gain = ctx.createGain();
+  gain.gain.value = level;
+  osc.connect(gain).connect(out);
+  osc.start();
+  return { gain, stop: () => osc.stop() };
+};
+
+// Slow wobble of a parameter around its value, for swelling crowds and waves
+const wobble = (ctx: AudioContext, param: AudioParam, rate: number, depth: number): Stop => {
+  const osc = ctx.createOscillator();
+  osc.frequency.value = rate;
+  const gain = ctx.createGain();
+  gain.gain.value = depth;
+  osc.connect(gain).connect(param);
+  osc.start();
+  return () => osc.stop();
+};
+
+// Run an event at random intervals between min and max seconds
+const every = (minS: number, maxS: number, event: () => void): Stop => {
+  let timer: ReturnType<typeof setTimeout>;
+  const next = () => {
+    timer = setTimeout(() => {
+      event();
+      next();
+    }, (minS + Math.random() * (maxS - minS)) * 1000);
+  };
+  next();
+  return () => clearTimeout(timer);
+};
+
+// A short tone with a quick attack and decay, optionally gliding to another pitch
+const blip = (ctx: AudioContext, out: AudioNode, from: number, to: number, duration: number, level: number, type: OscillatorType = 'sine', delay = 0) => {
+  const start = ctx.currentTime + delay;
+  const osc = ctx.createOscillator();
+  osc.type = type;
+  osc.frequency.setValueAtTime(from, start);
+  osc.frequency.exponentialRampToValueAtTime(to, start + duration);
+  const gain = ctx.createGain();
+  gain.gain.setValueAtTime(0, start);
+  gain.gain.linearRampToValueAtTime(level, start + Math.min(0.01, duration / 4));
+  gain.gain.exponentialRampToValueAtTime(0.0001, start + duration);
+  osc.connect(gain).connect(out);
+  osc.start(start);
+  osc.stop(start + duration + 0.05);
+};
+
+// A burst of filtered noise, for ticks and cheers
+const burst = (ctx: AudioContext, out: AudioNode, filter: BiquadFilterType, frequency: number, attack: number, release: number, level: number) => {
+  const start = ctx.currentTime;
+  const source = ctx.createBufferSource();
+  source.buffer = noiseBuffer(ctx, 'white');
+  const biquad = ctx.createBiquadFilter();
+  biquad.type = filter;
+  biquad.frequency.value = frequency;
+  const gain = ctx.createGain();
+  gain.gain.setValueAtTime(0, start);
+  gain.gain.linearRampToValueAtTime(level, start + attack);
+  gain.gain.exponentialRampToValueAtTime(0.0001, start + attack + release);
+  source.connect(biquad).connect(gain).connect(out);
+  source.start(start);
+  source.stop(start + attack + release + 0.05);
+};
+
+// Soft chord with each note swelling at its own pace
+const pad = (ctx: AudioContext, out: AudioNode, frequencies: number[], level: number): Stop => {
+  const stops = frequencies.flatMap((f, i) => {
+    const note = tone(ctx, out, f, level);
+    return [note.stop, wobble(ctx, note.gain.gain, 0.05 + i * 0.03, level * 0.8)];
+  });
+  return () => stops.forEach(stop => stop());
+};
+
+const combine = (...stops: Stop[]): Stop => () => stops.forEach(stop => stop());
+
+// --- Moods ---
+
+const MOODS: Record<SoundscapeMood, (ctx: AudioContext, out: AudioNode) => Stop> = {
+  forest: (ctx, out) => {
+    const wind = noise(ctx, out, 'brown', 'lowpass', 900, 0.25);
+    return combine(
+      wind.stop,
+      wobble(ctx, wind.gain.gain, 0.08, 0.12),
+      every(1.5, 5, () => {
+        const pitch = 2500 + Math.random() * 1500;
+        const chirps = 2 + Math.floor(Math.random() * 3);
+        for (let i = 0; i < chirps; i++) blip(ctx, out, pitch, pitch * 1.4, 0.08, 0.05, 'sine', i * 0.12);
+      }),
+    );
+  },
+  stadium: (ctx, out) => {
+    const crowd = noise(ctx, out, 'white', 'bandpass', 600, 0.12, 0.7);
+    return combine(
+      crowd.stop,
+      wobble(ctx, crowd.gain.gain, 0.1, 0.05),
+      every(8, 20, () => burst(ctx, out, 'bandpass', 900, 1, 2.5, 0.25)),
+    );
+  },
+  waves: (ctx, out) => {
+    const surf = noise(ctx, out, 'brown', 'lowpass', 500, 0.3);
+    const hiss = noise(ctx, out, 'white', 'highpass', 3000, 0.01);
+    return combine(surf.stop, hiss.stop, wobble(ctx, surf.gain.gain, 0.12, 0.25), wobble(ctx, hiss.gain.gain, 0.12, 0.01));
+  },
+  clock: (ctx, out) => {
+    const room = noise(ctx, out, 'brown', 'lowpass', 300, 0.15);
+    let tock = false;
+    const interval = setInterval(() => {
+      burst(ctx, out, 'highpass', tock ? 2500 : 3500, 0.002, 0.03, 0.12);
+      tock = !tock;
+    }, 1000);
+    return combine(room.stop, () => clearInterval(interval));
+  },
+  lab: (ctx, out) => {
+    const hum = tone(ctx, out, 110, 0.04);
+    const beat = tone(ctx, out, 110.7, 0.04);
+    return combine(hum.stop, beat.stop, every(2, 6, () => blip(ctx, out, 800 + Math.random() * 800, 1200, 0.15, 0.03)));
+  },
+  circuit: (ctx, out) => {
+    const hum = noise(ctx, out, 'brown', 'lowpass', 200, 0.12);
+    const buzz = tone(ctx, out, 55, 0.015, 'square');
+    return combine(hum.stop, buzz.stop, every(1, 4, () => {
+      for (let i = 0; i < 4; i++) blip(ctx, out, 1500 + Math.random() * 2000, 1500, 0.04, 0.015, 'square', i * 0.06);
+    }));
+  },
+  gallery: (ctx, out) => {
+    const room = noise(ctx, out, 'brown', 'lowpass', 400, 0.06);
+    return combine(room.stop, pad(ctx, out, [220, 261.63, 329.63], 0.03));
+  },
+  theatre: (ctx, out) => {
+    const murmur = noise(ctx, out, 'white', 'bandpass', 400, 0.05, 1);
+    return combine(murmur.stop, wobble(ctx, murmur.gain.gain, 0.07, 0.02), pad(ctx, out, [174.61, 220, 261.63], 0.02));
+  },
+  calm: (ctx, out) => pad(ctx, out, [196, 246.94, 293.66], 0.03),
+};
+
+// --- Playback ---
+
+interface Layer {
+  mood: SoundscapeMood;
+  gain: GainNode;
+  stop: Stop;
+}
+
+let layer: Layer | null = null;
+
+const applyLevel = () => {
+  if (!context || !master) return;
+  const target = settings.volume * (isDucked() ? DUCK_LEVEL : 1);
+  master.gain.setTargetAtTime(target, context.currentTime, 0.15);
+};
+
+const ensureContext = (): AudioContext => {
+  if (context) return context;
+  context = new AudioContext();
+  master = context.createGain();
+  master.gain.value = settings.volume * (isDucked() ? DUCK_LEVEL : 1);
+  master.connect(context.destination);
+  // Narration is read over the soundscape just as over the radio
+  subscribeDucking(applyLevel);
+  return context;
+};
+
+const fadeOut = (old: Layer) => {
+  const ctx = context!;
+  const gain = old.gain.gain;
+  gain.cancelScheduledValues(ctx.currentTime);
+  gain.setValueAtTime(gain.value, ctx.currentTime);
+  gain.linearRampToValueAtTime(0, ctx.currentTime + CROSSFADE_S);
+  setTimeout(() => {
+    old.stop();
+    old.gain.disconnect();
+  }, CROSSFADE_S * 1000 + 100);
+};
+
+export const canPlaySoundscapes = (): boolean => typeof window !== 'undefined' && 'AudioContext' in window;
+
+// Start a mood, crossfading from the one playing; the same mood again changes nothing
+export const playSoundscape = (mood: SoundscapeMood) => {
+  if (!canPlaySoundscapes() || layer?.mood === mood) return;
+  const ctx = ensureContext();
+  ctx.resume().catch(error => console.error("Soundscape playback error:", error));
+
+  const gain = ctx.createGain();
+  gain.gain.setValueAtTime(0, ctx.currentTime);
+  gain.gain.linearRampToValueAtTime(1, ctx.currentTime + CROSSFADE_S);
+  gain.connect(master!);
+
+  if (layer) fadeOut(layer);
+  layer = { mood, gain, stop: MOODS[mood](ctx, gain) };
+  setRadioSilenced(settings.radio === 'replace');
+};
+
+export const stopSoundscape = () => {
+  if (!layer) return;
+  fadeOut(layer);
+  layer = null;
+  setRadioSilenced(false);
+};
@@ -0,0 +1,119 @@
+import { Category, TopicContent } from "../types";
+import { migrateCategoryKeys } from "./categories";
+
+const STORAGE_KEY = 'wikiplay.topicMemory';
+// Remembered topics per category; the oldest are forgotten first
+const MAX_REMEMBERED = 150;
+// How many recent subjects are passed to the prompt
+const MAX_AVOID_SUBJECTS = 30;
+// Jaccard similarity above which two facts count as the same fact
+const DUPLICATE_THRESHOLD = 0.45;
+
+interface RememberedTopic {
+  subject: string;
+  fingerprint: string[];
+  seenAt: number;
+}
+
+type TopicMemory = Partial<Record<Category, RememberedTopic[]>>;
+
+// Common Dutch and English words that say nothing about the subject of a fact
+const STOPWORDS = new Set([
+  'wist', 'je', 'dat', 'de', 'het', 'een', 'en', 'van', 'in', 'is', 'op', 'te', 'met', 'voor', 'die', 'zijn',
+  'was', 'werd', 'er', 'aan', 'als', 'bij', 'door', 'om', 'ook', 'tot', 'uit', 'naar', 'dan', 'maar', 'nog',
+  'wat', 'wel', 'niet', 'geen', 'over', 'hij', 'zij', 'ze', 'hun', 'haar', 'deze', 'dit', 'daar',
+  'hier', 'heeft', 'hebben', 'had', 'kan', 'kon', 'worden', 'wordt', 'waren', 'meer', 'veel', 'al', 'of',
+  'onder', 'tegen', 'sinds', 'zelfs', 'eigenlijk', 'ooit', 'jaar', 'eerste', 'pas', 'nu', 'toen', 'waar',
+  'did', 'you', 'know', 'the', 'and', 'that', 'was', 'were', 'for', 'with', 'from', 'this', 'are', 'has',
+  'had', 'have', 'not', 'but', 'its', 'his', 'her', 'their', 'which', 'who', 'also', 'than', 'more', 'into',
+  'only', 'even', 'ever', 'first', 'year', 'years', 'when', 'where', 'there', 'been', 'can', 'could', 'one',
+]);
+
+let memory: TopicMemory | null = null;
+
+const load = (): TopicMemory => {
+  if (memory) return memory;
+  try {
+    // Memories from before stable category ids are keyed by the Dutch category name
+    memory = migrateCategoryKeys(JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}')) as TopicMemory;
+  } catch (error) {
+    console.error("Topic memory storage error:", error);
+    memory = {};
+  }
+  return memory;
+};
+
+const save = () => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(memory ?? {}));
+  } catch (error) {
+    console.error("Topic memory storage error:", error);
+  }
+};
+
+/**
+ * Distinctive words of a fact: lowercased, without the "- Category -" header,
+ * stopwords and very short words. Order doesn't matter, so it is returned sorted.
+ */
+export const fingerprint = (text: string): string[] => {
+  const words = text
+    .replace(/^\s*-[^\n]*-\s*/, '')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(w => w.length > 2 && !STOPWORDS.has(w));
+  return [...new Set(words)].sort();
+};
+
+export const similarity = (a: string[], b: string[]): number => {
+  if (a.length === 0 || b.length === 0) return 0;
+  const setB = new Set(b);
+  const shared = a.filter(w => setB.has(w)).length;
+  return shared / (a.length + b.length - shared);
+};
+
+// Facts from providers without a subject field are remembered by their opening words
+const subjectOf = (content: TopicContent): string =>
+  content.subject?.trim() ||
+  content.fact
+    .replace(/^\s*-[^\n]*-\s*/, '')
+    .replace(/^(wist je dat|did you know( that)?)\s*/i, '')
+    .split(/\s+/)
+    .slice(0, 6)
+    .join(' ');
+
+const normalizeSubject = (subject: string) => subject.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+export const getAvoidSubjects = (category: Category): string[] => {
+  const topics = load()[category] ?? [];
+  return topics.slice(-MAX_AVOID_SUBJECTS).map(t => t.subject);
+};
+
+// Reason why this content repeats an earlier topic, or null when it is new
+export const findRepeat = (category: Category, content: TopicContent): string | null => {
+  const topics = load()[category] ?? [];
+  const print = fingerprint(content.fact);
+  const subject = content.subject ? normalizeSubject(content.subject) : '';
+
+  for (const topic of topics) {
+    if (subject && normalizeSubject(topic.subject) === subject) {
+      return `Het onderwerp "${content.subject}" is al eerder gebruikt`;
+    }
+    if (similarity(print, topic.fingerprint) >= DUPLICATE_THRESHOLD) {
+      return `Het weetje lijkt te veel op een eerder weetje over "${topic.subject}"`;
+    }
+  }
+  return null;
+};
+
+export const rememberTopic = (category: Category, content: TopicContent) => {
+  const all = load();
+  const topics = all[category] ?? [];
+  topics.push({ subject: subjectOf(content), fingerprint: fingerprint(content.fact), seenAt: Date.now() });
+  all[category] = topics.slice(-MAX_REMEMBERED);
+  save();
+};
+
+export const clearTopicMemory = () => {
+  memory = {};
+  save();
+};
@@ -0,0 +1,179 @@
+import { describe, expect, it } from 'vitest';
+import { parseNumber, validateQuizData, validateQuizRound } from './topicValidation';
+
+describe('parseNumber', () => {
+  it('reads Dutch numbers', () => {
+    expect(parseNumber('1.234', 'nl')).toBe(1234);
+    expect(parseNumber('1.234,5', 'nl')).toBe(1234.5);
+    expect(parseNumber('1.234.567', 'nl')).toBe(1234567);
+    expect(parseNumber('2,75', 'nl')).toBe(2.75);
+    expect(parseNumber('-1.500', 'nl')).toBe(-1500);
+    expect(parseNumber('1 234,5', 'nl')).toBe(1234.5);
+  });
+
+  it('reads English numbers', () => {
+    expect(parseNumber('1,234', 'en')).toBe(1234);
+    expect(parseNumber('1,234.5', 'en')).toBe(1234.5);
+    expect(parseNumber('1,234,567', 'en')).toBe(1234567);
+    expect(parseNumber('2.75', 'en')).toBe(2.75);
+    expect(parseNumber('-1,500', 'en')).toBe(-1500);
+    expect(parseNumber('1 234.5', 'en')).toBe(1234.5);
+  });
+
+  it('keeps a decimal point that does not group thousands', () => {
+    expect(parseNumber('3.14', 'nl')).toBe(3.14);
+    expect(parseNumber('1.2345', 'nl')).toBe(1.2345);
+  });
+
+  it('passes numbers through and rejects the rest', () => {
+    expect(parseNumber(42, 'nl')).toBe(42);
+    expect(parseNumber(Infinity, 'en')).toBeNull();
+    expect(parseNumber('', 'nl')).toBeNull();
+    expect(parseNumber('  ', 'en')).toBeNull();
+    expect(parseNumber('veel', 'nl')).toBeNull();
+    expect(parseNumber('1.234,5', 'en')).toBeNull();
+    expect(parseNumber(null, 'nl')).toBeNull();
+  });
+});
+
+describe('validateQuizData', () => {
+  it('repairs an estimate answer written as text', () => {
+    const result = validateQuizData({
+      kind: 'estimate',
+      question: 'Hoeveel treden heeft de Domtoren?',
+      explanation: 'Wie naar boven wil, beklimt 465 treden.',
+      correctAnswer: '465',
+      tolerance: '10',
+    });
+    expect(result.errors).toEqual([]);
+    expect(result.value).toMatchObject({ kind: 'estimate', correctAnswer: 465, tolerance: 10 });
+    expect(result.repairs).toHaveLength(1);
+  });
+});
+
+const base = {
+  question: 'Welke rivier stroomt door Rotterdam?',
+  explanation: 'De Nieuwe Maas loopt dwars door de stad.',
+};
+
+// Keeps the authored order, so options can be checked position by position
+const noShuffle = { shuffle: false };
+
+describe('validateQuizData for multiple choice', () => {
+  it('trims the options and drops empty ones and case-insensitive duplicates', () => {
+    const result = validateQuizData({
+      ...base,
+      options: ['  Nieuwe Maas ', '', 'Rijn', 'rijn', 'IJssel'],
+      correctAnswer: 'Nieuwe Maas',
+    }, noShuffle);
+    expect(result.errors).toEqual([]);
+    expect(result.value).toMatchObject({ kind: 'choice', options: ['Nieuwe Maas', 'Rijn', 'IJssel'], correctAnswer: 'Nieuwe Maas' });
+    expect(result.repairs).toEqual(['Dubbele optie "rijn" verwijderd']);
+  });
+
+  it('matches the answer to an option regardless of case, spacing and punctuation', () => {
+    const result = validateQuizData({
+      ...base,
+      options: ['Nieuwe Maas', 'Rijn', 'IJssel'],
+      correctAnswer: '  nieuwe maas! ',
+    }, noShuffle);
+    expect(result.value).toMatchObject({ correctAnswer: 'Nieuwe Maas' });
+    expect(result.repairs).toEqual(['Antwoord "nieuwe maas!" gekoppeld aan optie "Nieuwe Maas"']);
+  });
+
+  it('resolves an answer given by letter or number', () => {
+    const options = ['Nieuwe Maas', 'Rijn', 'IJssel'];
+    expect(validateQuizData({ ...base, options, correctAnswer: 'B' }, noShuffle).value).toMatchObject({ correctAnswer: 'Rijn' });
+    expect(validateQuizData({ ...base, options, correctAnswer: 'c)' }, noShuffle).value).toMatchObject({ correctAnswer: 'IJssel' });
+    expect(validateQuizData({ ...base, options, correctAnswer: '2' }, noShuffle).value).toMatchObject({ correctAnswer: 'Rijn' });
+  });
+
+  it('adds the correct answer when only the wrong ones were listed', () => {
+    const result = validateQuizData({ ...base, options: ['Rijn', 'IJssel'], correctAnswer: 'Nieuwe Maas' }, noShuffle);
+    expect(result.value).toMatchObject({ options: ['Rijn', 'IJssel', 'Nieuwe Maas'], correctAnswer: 'Nieuwe Maas' });
+    expect(result.repairs).toEqual(['Ontbrekend juist antwoord "Nieuwe Maas" als optie toegevoegd']);
+  });
+
+  it('trims the options to three and keeps the correct one', () => {
+    const result = validateQuizData({
+      ...base,
+      options: ['Rijn', 'IJssel', 'Waal', 'Nieuwe Maas', 'Schelde'],
+      correctAnswer: 'Nieuwe Maas',
+    }, noShuffle);
+    expect(result.value).toMatchObject({ options: ['Rijn', 'IJssel', 'Nieuwe Maas'], correctAnswer: 'Nieuwe Maas' });
+    expect(result.repairs).toEqual(['2 overtollige optie(s) verwijderd']);
+  });
+
+  it('rejects an answer that is not among the options', () => {
+    const result = validateQuizData({ ...base, options: ['Rijn', 'IJssel', 'Waal'], correctAnswer: 'Nieuwe Maas' });
+    expect(result.value).toBeNull();
+    expect(result.errors).toContain(`'quiz.correctAnswer' ("Nieuwe Maas") komt niet voor in 'quiz.options'`);
+  });
+
+  it('rejects too few options', () => {
+    const result = validateQuizData({ ...base, options: ['Nieuwe Maas'], correctAnswer: 'Nieuwe Maas' });
+    expect(result.value).toBeNull();
+    expect(result.errors).toEqual([`'quiz.options' moet precies 3 verschillende opties bevatten (nu 1)`]);
+  });
+
+  it('shuffles the options with the given random source', () => {
+    const quiz = { ...base, options: ['Nieuwe Maas', 'Rijn', 'IJssel'], correctAnswer: 'Nieuwe Maas' };
+    // Always picking the first remaining position rotates the list by one
+    expect(validateQuizData(quiz, { random: () => 0 }).value).toMatchObject({ options: ['Rijn', 'IJssel', 'Nieuwe Maas'] });
+    // Always picking the current position leaves it as it is
+    expect(validateQuizData(quiz, { random: () => 0.99 }).value).toMatchObject({ options: ['Nieuwe Maas', 'Rijn', 'IJssel'] });
+  });
+
+  it('reports missing fields and input that is not an object', () => {
+    expect(validateQuizData(null).errors).toEqual([`'quiz' ontbreekt of is geen object`]);
+    expect(validateQuizData({ options: ['a', 'b', 'c'], correctAnswer: 'a' }).errors)
+      .toEqual([`'quiz.question' ontbreekt`, `'quiz.explanation' ontbreekt`]);
+  });
+});
+
+describe('validateQuizRound', () => {
+  const question = (text: string, extra: object = {}) => ({
+    question: text,
+    explanation: 'Uitleg',
+    options: ['Ja', 'Nee', 'Misschien'],
+    correctAnswer: 'Ja',
+    ...extra,
+  });
+
+  it('keeps the good questions and reports the broken ones', () => {
+    const result = validateQuizRound({
+      questions: [
+        question('Is Utrecht een stad?', { category: 'history' }),
+        { question: 'Kapotte vraag', explanation: 'Uitleg', options: ['Ja'], correctAnswer: 'Ja' },
+        question('Is Zwolle een stad?', { category: 'science', difficulty: 'hard' }),
+      ],
+    }, ['history', 'science'], noShuffle);
+
+    expect(result.value).toHaveLength(2);
+    expect(result.value?.map(q => q.category)).toEqual(['history', 'science']);
+    expect(result.value?.map(q => q.quiz.difficulty)).toEqual(['medium', 'hard']);
+    expect(result.errors).toEqual([`Vraag 2: 'quiz.options' moet precies 3 verschillende opties bevatten (nu 1)`]);
+  });
+
+  it('drops repeated questions and replaces unknown categories', () => {
+    const result = validateQuizRound([
+      question('Is Utrecht een stad?', { category: 'history' }),
+      question('is utrecht een stad', { category: 'history' }),
+      question('Is Zwolle een stad?', { category: 'astrologie' }),
+    ], ['history', 'science'], noShuffle);
+
+    expect(result.value?.map(q => q.quiz.question)).toEqual(['Is Utrecht een stad?', 'Is Zwolle een stad?']);
+    expect(result.value?.[1].category).toBe('history');
+    expect(result.repairs).toEqual([
+      'Vraag 2: dubbele vraag verwijderd',
+      'Vraag 3: categorie "astrologie" vervangen door "history"',
+    ]);
+  });
+
+  it('has no value when no question survives', () => {
+    expect(validateQuizRound({ questions: [] }, ['history']).value).toBeNull();
+    const result = validateQuizRound([{ question: 'Kapot' }], ['history']);
+    expect(result.value).toBeNull();
+    expect(result.errors.length).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,310 @@
+import { Category, Language, QuizData, QuizRoundQuestion, TopicContent } from "../types";
+import { DEFAULT_DIFFICULTY, isDifficulty } from "./difficulty";
+import { categoryName } from "./categories";
+import { getLanguage } from "./i18n";
+
+export const QUIZ_OPTION_COUNT = 3;
+
+export interface ValidationResult<T> {
+  value: T | null;
+  // Problems that could not be repaired. A single quiz or topic has a null value when there are any;
+  // validateQuizRound drops the broken questions and returns the rest alongside their errors
+  errors: string[];
+  // Normalizations that were applied to make the value usable
+  repairs: string[];
+}
+
+interface ValidationOptions {
+  // Shuffle the options so the correct answer isn't always in the same position
+  shuffle?: boolean;
+  random?: () => number;
+}
+
+// Parsed JSON seen as an object, so fields can be read before they are checked
+export type RawObject = Record<string, unknown>;
+
+export const isObject = (value: unknown): value is RawObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const cleanString = (value: unknown): string => typeof value === 'string' ? value.trim() : '';
+
+// Loose form of an answer for comparing: case, surrounding punctuation and spacing don't count
+export const normalizeAnswer = (answer: string) =>
+  answer
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+
+const shuffled = <T>(items: T[], random: () => number): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+// Resolve answers like "B" or "2" that refer to an option by position
+const optionByPosition = (answer: string, options: string[]): string | null => {
+  const letter = answer.match(/^([a-z])[).:]?$/i);
+  if (letter) return options[letter[1].toLowerCase().charCodeAt(0) - 97] ?? null;
+  const number = answer.match(/^(\d)[).:]?$/);
+  if (number) return options[parseInt(number[1], 10) - 1] ?? null;
+  return null;
+};
+
+// Order questions need a few items to be a puzzle, and few enough to rearrange on a phone
+export const ORDER_ITEM_RANGE = { min: 3, max: 6 };
+
+const TRUE_WORDS = ['true', 'waar', 'ja', 'juist', 'klopt', 'correct'];
+const FALSE_WORDS = ['false', 'onwaar', 'niet waar', 'nee', 'onjuist', 'fout'];
+
+const NUMBER_SEPARATORS: Record<Language, { thousands: string; decimal: string }> = {
+  nl: { thousands: '.', decimal: ',' },
+  en: { thousands: ',', decimal: '.' },
+};
+
+/**
+ * A number written the way the language writes it: "1.234,5" in Dutch, "1,234.5" in English.
+ * Thousands separators only count between groups of three digits, so a Dutch "3.14" still reads
+ * as a decimal number.
+ */
+export const parseNumber = (value: unknown, language: Language = getLanguage()): number | null => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value !== 'string') return null;
+  const text = value.replace(/\s/g, '');
+  if (!text) return null;
+
+  const { thousands, decimal } = NUMBER_SEPARATORS[language];
+  const grouped = new RegExp(`^[+-]?\\d{1,3}(\\${thousands}\\d{3})+(\\${decimal}\\d*)?$`);
+  const plain = grouped.test(text) ? text.split(thousands).join('') : text;
+  const parsed = Number(plain.replace(decimal, '.'));
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+// Answer fields per question kind. Each validator reports into the shared errors and repairs
+// and returns the fields to merge into the quiz, or null when they are unusable.
+type AnswerFields = Record<string, unknown>;
+
+const validateChoiceFields = (data: RawObject, errors: string[], repairs: string[], options: ValidationOptions): AnswerFields | null => {
+  const { shuffle = true, random = Math.random } = options;
+  let correctAnswer = cleanString(data.correctAnswer);
+  if (!correctAnswer) errors.push("'quiz.correctAnswer' ontbreekt");
+
+  // 1. Clean options: trimmed, non-empty, no case-insensitive duplicates
+  const rawOptions: unknown[] = Array.isArray(data.options) ? data.options : [];
+  let opts: string[] = [];
+  rawOptions.map(cleanString).forEach(option => {
+    if (!option) return;
+    if (opts.some(o => normalizeAnswer(o) === normalizeAnswer(option))) {
+      repairs.push(`Dubbele optie "${option}" verwijderd`);
+      return;
+    }
+    opts.push(option);
+  });
+
+  // 2. Match the correct answer to an option
+  if (correctAnswer) {
+    const exact = opts.find(o => o === correctAnswer);
+    const loose = opts.find(o => normalizeAnswer(o) === normalizeAnswer(correctAnswer));
+    const positional = optionByPosition(correctAnswer, opts);
+    const match = exact ?? loose ?? positional;
+
+    if (match) {
+      if (match !== correctAnswer) repairs.push(`Antwoord "${correctAnswer}" gekoppeld aan optie "${match}"`);
+      correctAnswer = match;
+    } else if (opts.length === QUIZ_OPTION_COUNT - 1) {
+      // Model listed only the wrong answers
+      opts.push(correctAnswer);
+      repairs.push(`Ontbrekend juist antwoord "${correctAnswer}" als optie toegevoegd`);
+    } else {
+      errors.push(`'quiz.correctAnswer' ("${correctAnswer}") komt niet voor in 'quiz.options'`);
+    }
+  }
+
+  // 3. Enforce exactly three options, always keeping the correct one
+  if (opts.length > QUIZ_OPTION_COUNT && opts.includes(correctAnswer)) {
+    const wrong = opts.filter(o => o !== correctAnswer).slice(0, QUIZ_OPTION_COUNT - 1);
+    repairs.push(`${opts.length - QUIZ_OPTION_COUNT} overtollige optie(s) verwijderd`);
+    opts = opts.filter(o => o === correctAnswer || wrong.includes(o));
+  }
+  if (opts.length !== QUIZ_OPTION_COUNT) {
+    errors.push(`'quiz.options' moet precies ${QUIZ_OPTION_COUNT} verschillende opties bevatten (nu ${opts.length})`);
+    return null;
+  }
+
+  return { kind: 'choice', options: shuffle ? shuffled(opts, random) : opts, correctAnswer };
+};
+
+const validateTrueFalseFields = (data: RawObject, errors: string[], repairs: string[]): AnswerFields | null => {
+  if (typeof data.correctAnswer === 'boolean') return { kind: 'truefalse', correctAnswer: data.correctAnswer };
+
+  const word = normalizeAnswer(cleanString(data.correctAnswer));
+  if (TRUE_WORDS.includes(word) || FALSE_WORDS.includes(word)) {
+    repairs.push(`Antwoord "${data.correctAnswer}" gelezen als ${TRUE_WORDS.includes(word) ? 'waar' : 'niet waar'}`);
+    return { kind: 'truefalse', correctAnswer: TRUE_WORDS.includes(word) };
+  }
+  errors.push("'quiz.correctAnswer' moet true of false zijn");
+  return null;
+};
+
+const validateEstimateFields = (data: RawObject, errors: string[], repairs: string[]): AnswerFields | null => {
+  const correctAnswer = parseNumber(data.correctAnswer);
+  if (correctAnswer === null) {
+    errors.push("'quiz.correctAnswer' moet een getal zijn");
+    return null;
+  }
+  if (typeof data.correctAnswer !== 'number') repairs.push(`Antwoord "${data.correctAnswer}" gelezen als getal ${correctAnswer}`);
+
+  let tolerance = parseNumber(data.tolerance) ?? 0;
+  if (tolerance < 0) {
+    repairs.push(`Negatieve marge ${tolerance} omgedraaid`);
+    tolerance = -tolerance;
+  }
+  const unit = cleanString(data.unit);
+  return { kind: 'estimate', correctAnswer, tolerance, ...(unit ? { unit } : {}) };
+};
+
+const validateOrderFields = (data: RawObject, errors: string[], repairs: string[]): AnswerFields | null => {
+  const rawItems: unknown[] = Array.isArray(data.items) ? data.items : [];
+  const items: string[] = [];
+  rawItems.map(cleanString).forEach(item => {
+    if (!item) return;
+    if (items.some(i => normalizeAnswer(i) === normalizeAnswer(item))) {
+      repairs.push(`Dubbel item "${item}" verwijderd`);
+      return;
+    }
+    items.push(item);
+  });
+
+  if (items.length > ORDER_ITEM_RANGE.max) {
+    repairs.push(`${items.length - ORDER_ITEM_RANGE.max} overtollig(e) item(s) verwijderd`);
+    items.length = ORDER_ITEM_RANGE.max;
+  }
+  if (items.length < ORDER_ITEM_RANGE.min) {
+    errors.push(`'quiz.items' moet ${ORDER_ITEM_RANGE.min} tot ${ORDER_ITEM_RANGE.max} verschillende items bevatten (nu ${items.length})`);
+    return null;
+  }
+  return { kind: 'order', items };
+};
+
+const validateTextFields = (data: RawObject, errors: string[]): AnswerFields | null => {
+  const correctAnswer = cleanString(data.correctAnswer);
+  if (!correctAnswer) {
+    errors.push("'quiz.correctAnswer' ontbreekt");
+    return null;
+  }
+  const accepted = (Array.isArray(data.acceptedAnswers) ? data.acceptedAnswers : [])
+    .map(cleanString)
+    .filter(a => a && normalizeAnswer(a) !== normalizeAnswer(correctAnswer));
+  return { kind: 'text', correctAnswer, ...(accepted.length > 0 ? { acceptedAnswers: accepted } : {}) };
+};
+
+export const validateQuizData = (raw: unknown, options: ValidationOptions = {}): ValidationResult<QuizData> => {
+  const errors: string[] = [];
+  const repairs: string[] = [];
+
+  if (!isObject(raw)) {
+    return { value: null, errors: ["'quiz' ontbreekt of is geen object"], repairs };
+  }
+  const data = raw;
+
+  const question = cleanString(data.question);
+  const explanation = cleanString(data.explanation);
+  if (!question) errors.push("'quiz.question' ontbreekt");
+  if (!explanation) errors.push("'quiz.explanation' ontbreekt");
+
+  // Quizzes without a kind predate the other formats and are multiple choice
+  const kind = data.kind ?? 'choice';
+  let fields: AnswerFields | null = null;
+  switch (kind) {
+    case 'choice': fields = validateChoiceFields(data, errors, repairs, options); break;
+    case 'truefalse': fields = validateTrueFalseFields(data, errors, repairs); break;
+    case 'estimate': fields = validateEstimateFields(data, errors, repairs); break;
+    case 'order': fields = validateOrderFields(data, errors, repairs); break;
+    case 'text': fields = validateTextFields(data, errors); break;
+    default: errors.push(`Onbekend vraagtype "${kind}"`);
+  }
+
+  // Difficulty is optional; an unknown level is dropped rather than failing the quiz
+  const difficulty = isDifficulty(data.difficulty) ? data.difficulty : undefined;
+  if (data.difficulty !== undefined && !difficulty) repairs.push(`Onbekende moeilijkheid "${data.difficulty}" genegeerd`);
+
+  if (errors.length > 0 || !fields) return { value: null, errors, repairs };
+
+  return {
+    value: {
+      question,
+      explanation,
+      ...fields,
+      ...(difficulty ? { difficulty } : {}),
+    } as QuizData,
+    errors,
+    repairs,
+  };
+};
+
+export const validateTopicContent = (raw: unknown, options: ValidationOptions = {}): ValidationResult<TopicContent> => {
+  if (!isObject(raw)) {
+    return { value: null, errors: ['Antwoord is geen JSON-object'], repairs: [] };
+  }
+  const data = raw;
+
+  const fact = cleanString(data.fact);
+  const subject = cleanString(data.subject);
+  const quiz = validateQuizData(data.quiz, options);
+  const errors = [...(fact ? [] : ["'fact' ontbreekt"]), ...quiz.errors];
+
+  if (errors.length > 0 || !quiz.value) return { value: null, errors, repairs: quiz.repairs };
+  return {
+    value: subject ? { fact, quiz: quiz.value, subject } : { fact, quiz: quiz.value },
+    errors,
+    repairs: quiz.repairs,
+  };
+};
+
+/**
+ * Validate a batch of quiz round questions. Broken questions are dropped and reported,
+ * so a round with a few bad entries is still playable; value is null only when none survive.
+ */
+export const validateQuizRound = (
+  raw: unknown,
+  categories: Category[],
+  options: ValidationOptions = {}
+): ValidationResult<QuizRoundQuestion[]> => {
+  const items: unknown[] = Array.isArray(raw) ? raw : isObject(raw) && Array.isArray(raw.questions) ? raw.questions : [];
+  if (items.length === 0) return { value: null, errors: ["'questions' ontbreekt of is leeg"], repairs: [] };
+
+  const errors: string[] = [];
+  const repairs: string[] = [];
+  const questions: QuizRoundQuestion[] = [];
+
+  items.forEach((item, i) => {
+    const where = `Vraag ${i + 1}`;
+    const quiz = validateQuizData(item, options);
+    quiz.repairs.forEach(r => repairs.push(`${where}: ${r}`));
+    if (!quiz.value) {
+      quiz.errors.forEach(e => errors.push(`${where}: ${e}`));
+      return;
+    }
+    if (questions.some(q => normalizeAnswer(q.quiz.question) === normalizeAnswer(quiz.value!.question))) {
+      repairs.push(`${where}: dubbele vraag verwijderd`);
+      return;
+    }
+
+    // The model is given category names; ids are accepted too
+    const rawCategory = isObject(item) ? item.category : undefined;
+    const label = typeof rawCategory === 'string' ? rawCategory.trim().toLowerCase() : '';
+    let category = categories.find(c => c.toLowerCase() === label || categoryName(c).toLowerCase() === label);
+    if (!category) {
+      repairs.push(`${where}: categorie "${rawCategory}" vervangen door "${categories[0]}"`);
+      category = categories[0];
+    }
+
+    // Every round question needs a level for the ramp
+    const value = quiz.value.difficulty ? quiz.value : { ...quiz.value, difficulty: DEFAULT_DIFFICULTY };
+    questions.push({ category, quiz: value });
+  });
+
+  return { value: questions.length > 0 ? questions : null, errors, repairs };
+};
@@ -0,0 +1,226 @@
+import { BuiltinCategory, Category, Language, WikipediaArticle, WikipediaFetcher } from "../types";
+import { normalizeAnswer } from "./topicValidation";
+import { categoryName, getCategory, resolveCategoryId } from "./categories";
+import { getLanguage } from "./i18n";
+
+const wikipediaBaseUrl = (language: Language) => `https://${language}.wikipedia.org`;
+
+// Namespace prefix of category pages
+const CATEGORY_PREFIX: Record<Language, string> = {
+  nl: "Categorie:",
+  en: "Category:",
+};
+
+// Summaries shorter than this rarely hold enough for a fact and a question
+const MIN_EXTRACT_LENGTH = 200;
+// Articles tried per request before giving up
+const MAX_PICKS = 3;
+
+// Wikipedia categories whose pages feed each built-in category, per language edition;
+// user-defined ones are searched by their hint
+const CATEGORY_SOURCES: Record<Language, Record<BuiltinCategory, string[]>> = {
+  nl: {
+    [BuiltinCategory.HISTORY]: ["Geschiedenis van Nederland", "Middeleeuwen", "Oudheid", "Tweede Wereldoorlog"],
+    [BuiltinCategory.SCIENCE]: ["Natuurkunde", "Scheikunde", "Sterrenkunde", "Wiskunde"],
+    [BuiltinCategory.NATURE]: ["Zoogdieren", "Vogels", "Planten", "Insecten"],
+    [BuiltinCategory.SPORTS]: ["Voetbal", "Wielersport", "Olympische Spelen", "Schaatsen"],
+    [BuiltinCategory.ART]: ["Schilderkunst", "Beeldhouwkunst", "Architectuur", "Literatuur"],
+    [BuiltinCategory.TECH]: ["Uitvinding", "Informatica", "Ruimtevaart", "Elektronica"],
+    [BuiltinCategory.GEOGRAPHY]: ["Rivier", "Eiland", "Gebergte", "Hoofdstad"],
+    [BuiltinCategory.ENTERTAINMENT]: ["Film", "Popmuziek", "Televisieprogramma", "Computerspel"],
+  },
+  en: {
+    [BuiltinCategory.HISTORY]: ["Middle Ages", "Ancient history", "Age of Discovery", "World War II"],
+    [BuiltinCategory.SCIENCE]: ["Physics", "Chemistry", "Astronomy", "Mathematics"],
+    [BuiltinCategory.NATURE]: ["Mammals", "Birds", "Plants", "Insects"],
+    [BuiltinCategory.SPORTS]: ["Association football", "Cycling", "Olympic Games", "Speed skating"],
+    [BuiltinCategory.ART]: ["Painting", "Sculpture", "Architecture", "Literature"],
+    [BuiltinCategory.TECH]: ["Inventions", "Computer science", "Spaceflight", "Electronics"],
+    [BuiltinCategory.GEOGRAPHY]: ["Rivers", "Islands", "Mountain ranges", "Capitals"],
+    [BuiltinCategory.ENTERTAINMENT]: ["Films", "Pop music", "Television shows", "Video games"],
+  },
+};
+
+const pickRandom = <T>(items: T[]): T => items[Math.floor(Math.random() * items.length)];
+
+const isAvoided = (title: string, avoidTitles: string[]) => {
+  const key = normalizeAnswer(title);
+  return avoidTitles.some(t => normalizeAnswer(t) === key);
+};
+
+const articleUrl = (baseUrl: string, title: string) =>
+  `${baseUrl}/wiki/${encodeURIComponent(title.replace(/ /g, '_'))}`;
+
+// The parts of the API answers that are read here; anything may be missing
+interface PageListResponse {
+  query?: {
+    search?: { title?: unknown }[];
+    categorymembers?: { title?: unknown }[];
+  };
+}
+
+interface SummaryResponse {
+  type?: string;
+  title?: string;
+  extract?: unknown;
+  content_urls?: { desktop?: { page?: string } };
+}
+
+const pageTitles = (pages: { title?: unknown }[] = []): string[] =>
+  pages.map(p => p.title).filter((title): title is string => typeof title === 'string' && title.length > 0);
+
+// Live fetcher: a random page from one of the category's Wikipedia categories (or search results
+// for a user-defined category), then its summary. Articles come from the edition in the requested
+// language, unless a fixed base URL is given.
+export const createLiveFetcher = (fixedBaseUrl?: string): WikipediaFetcher => {
+  // Category listings and searches hardly change, so they are fetched once per session
+  const members = new Map<string, string[]>();
+  const searches = new Map<string, string[]>();
+
+  const search = async (baseUrl: string, query: string): Promise<string[]> => {
+    const cacheKey = `${baseUrl}|${query}`;
+    const cached = searches.get(cacheKey);
+    if (cached) return cached;
+
+    const params = new URLSearchParams({
+      action: "query",
+      list: "search",
+      srsearch: query,
+      srlimit: "50",
+      format: "json",
+      origin: "*",
+    });
+    const response = await fetch(`${baseUrl}/w/api.php?${params}`);
+    if (!response.ok) throw new Error(`Wikipedia search "${query}": HTTP ${response.status}`);
+    const data: PageListResponse = await response.json();
+    const titles = pageTitles(data?.query?.search);
+    searches.set(cacheKey, titles);
+    return titles;
+  };
+
+  const listMembers = async (baseUrl: string, wikiCategory: string): Promise<string[]> => {
+    const cacheKey = `${baseUrl}|${wikiCategory}`;
+    const cached = members.get(cacheKey);
+    if (cached) return cached;
+
+    const params = new URLSearchParams({
+      action: "query",
+      list: "categorymembers",
+      cmtitle: wikiCategory,
+      cmtype: "page",
+      cmlimit: "200",
+      format: "json",
+      origin: "*",
+    });
+    const response = await fetch(`${baseUrl}/w/api.php?${params}`);
+    if (!response.ok) throw new Error(`Wikipedia category ${wikiCategory}: HTTP ${response.status}`);
+    const data: PageListResponse = await response.json();
+    const titles = pageTitles(data?.query?.categorymembers);
+    members.set(cacheKey, titles);
+    return titles;
+  };
+
+  const fetchSummary = async (baseUrl: string, title: string): Promise<WikipediaArticle | null> => {
+    const response = await fetch(`${baseUrl}/api/rest_v1/page/summary/${encodeURIComponent(title)}`);
+    if (!response.ok) return null;
+    const data: SummaryResponse = await response.json();
+    if (data?.type !== "standard" || typeof data.extract !== "string") return null;
+    return {
+      title: data.title ?? title,
+      url: data.content_urls?.desktop?.page ?? articleUrl(baseUrl, title),
+      extract: data.extract,
+    };
+  };
+
+  return {
+    id: "live",
+    fetchArticle: async (category, avoidTitles, language) => {
+      const baseUrl = fixedBaseUrl ?? wikipediaBaseUrl(language);
+      const sources = CATEGORY_SOURCES[language][category as BuiltinCategory];
+      const definition = getCategory(category);
+      const candidates = sources
+        ? await listMembers(baseUrl, CATEGORY_PREFIX[language] + pickRandom(sources))
+        : await search(baseUrl, definition?.promptHint || categoryName(category));
+      const titles = candidates.filter(t => !isAvoided(t, avoidTitles));
+
+      for (let i = 0; i < MAX_PICKS && titles.length > 0; i++) {
+        const [title] = titles.splice(Math.floor(Math.random() * titles.length), 1);
+        const article = await fetchSummary(baseUrl, title);
+        if (article && article.extract.length >= MIN_EXTRACT_LENGTH) return article;
+      }
+      return null;
+    },
+  };
+};
+
+/**
+ * Fetcher over a fixed set of articles, keyed by category id or name (in any language). Used for a
+ * local dump or stub file, so grounding can be tested offline:
+ * { "Geschiedenis": [{ "title": "...", "extract": "...", "url": "... (optional)" }], ... }
+ */
+export const createStaticFetcher = (
+  load: () => Promise<Partial<Record<Category, Partial<WikipediaArticle>[]>>>,
+  id: string = "static"
+): WikipediaFetcher => {
+  let articles: Promise<Partial<Record<Category, Partial<WikipediaArticle>[]>>> | null = null;
+
+  return {
+    id,
+    fetchArticle: async (category, avoidTitles, language) => {
+      if (!articles) articles = load();
+      const all = await articles;
+      const key = Object.keys(all).find(k => k === category || resolveCategoryId(k) === category);
+      const candidates = (key ? all[key] ?? [] : []).filter(a =>
+        typeof a.title === "string" && typeof a.extract === "string" && !isAvoided(a.title, avoidTitles)
+      );
+      if (candidates.length === 0) return null;
+      const article = pickRandom(candidates);
+      return { title: article.title!, extract: article.extract!, url: article.url ?? articleUrl(wikipediaBaseUrl(language), article.title!) };
+    },
+  };
+};
+
+const createDumpFetcher = (url: string): WikipediaFetcher =>
+  createStaticFetcher(async () => {
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`Wikipedia dump ${url}: HTTP ${response.status}`);
+    return response.json();
+  }, "dump");
+
+// WIKIPEDIA_SOURCE is injected by vite.config.ts: empty uses the Wikipedia edition in the player's language,
+// "off" disables grounding and anything else is the URL of a dump file
+const configuredSource = (typeof process !== "undefined" && process.env && process.env.WIKIPEDIA_SOURCE) ? process.env.WIKIPEDIA_SOURCE : "";
+
+const resolveFetcher = (source: string): WikipediaFetcher | null => {
+  if (source === "off") return null;
+  if (source) return createDumpFetcher(source);
+  return createLiveFetcher();
+};
+
+let activeFetcher: WikipediaFetcher | null | undefined;
+
+export const getWikipediaFetcher = (): WikipediaFetcher | null => {
+  if (activeFetcher === undefined) activeFetcher = resolveFetcher(configuredSource);
+  return activeFetcher;
+};
+
+// Swap the article source at runtime, e.g. to a stub during development; null disables grounding
+export const setWikipediaFetcher = (fetcher: WikipediaFetcher | null) => {
+  activeFetcher = fetcher;
+};
+
+// A source article for the category, or null when grounding is off or Wikipedia can't be reached
+export const fetchSourceArticle = async (
+  category: Category,
+  avoidTitles: string[] = [],
+  language: Language = getLanguage()
+): Promise<WikipediaArticle | null> => {
+  const fetcher = getWikipediaFetcher();
+  if (!fetcher) return null;
+  try {
+    return await fetcher.fetchArticle(category, avoidTitles, language);
+  } catch (error) {
+    console.warn(`Wikipedia source (${fetcher.id}) unavailable:`, error);
+    return null;
+  }
+};
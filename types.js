@@ -1,19 +0,0 @@
-
-export const Category = {
-  HISTORY: 'Geschiedenis',
-  SCIENCE: 'Wetenschap',
-  NATURE: 'Natuur',
-  SPORTS: 'Sport',
-  ART: 'Kunst',
-  TECH: 'Technologie',
-  GEOGRAPHY: 'Geografie',
-  ENTERTAINMENT: 'Entertainment',
-};
-
-export const GameState = {
-  IDLE: 'IDLE',
-  SPINNING: 'SPINNING',
-  THROWN: 'THROWN',
-  FETCHING: 'FETCHING',
-  SHOWING_CONTENT: 'SHOWING_CONTENT',
-};
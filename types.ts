@@ -1,31 +1,203 @@
 
-export enum Category {
-  HISTORY = 'Geschiedenis',
-  SCIENCE = 'Wetenschap',
-  NATURE = 'Natuur',
-  SPORTS = 'Sport',
-  ART = 'Kunst',
-  TECH = 'Technologie',
-  GEOGRAPHY = 'Geografie',
-  ENTERTAINMENT = 'Entertainment',
+// Languages the interface and generated content are available in
+export type Language = 'nl' | 'en';
+
+// The categories that ship with the app, by stable id; their labels are translated (category.* messages)
+export enum BuiltinCategory {
+  HISTORY = 'history',
+  SCIENCE = 'science',
+  NATURE = 'nature',
+  SPORTS = 'sports',
+  ART = 'art',
+  TECH = 'tech',
+  GEOGRAPHY = 'geography',
+  ENTERTAINMENT = 'entertainment',
+}
+
+// A category id: a BuiltinCategory value or the generated id of a user-defined category
+export type Category = string;
+
+export interface CategoryDefinition {
+  id: Category;
+  name: string;
+  // Hex color of the category's card, dartboard segment and wedge
+  color: string;
+  // One of CATEGORY_ICON_NAMES
+  icon: string;
+  // What the category is about, passed to the content provider (e.g. "Nederlandse voetbalhistorie")
+  promptHint: string;
+  builtin: boolean;
 }
 
 export interface RadioStation {
+  id: string;
   name: string;
   genre: string;
   url: string;
+  // Failed plays in a row; reset as soon as the stream plays again
+  failures?: number;
+}
+
+// Generated background sounds for ambient mode
+export type SoundscapeMood = 'forest' | 'stadium' | 'waves' | 'clock' | 'lab' | 'circuit' | 'gallery' | 'theatre' | 'calm';
+
+export interface SoundscapeSettings {
+  enabled: boolean;
+  // 'auto' follows the category of the topic on screen
+  mood: SoundscapeMood | 'auto';
+  volume: number;
+  // Play along with the radio, or silence the radio while the soundscape plays
+  radio: 'mix' | 'replace';
+}
+
+export interface SlideshowSettings {
+  // Seconds per slide; a slide that is still being read aloud stays until the narration ends
+  interval: number;
+  // Move on by itself; off keeps the slide until the next one is asked for
+  autoAdvance: boolean;
+  narrate: boolean;
+  // Show the slide's quiz question halfway and its answer near the end
+  revealQuiz: boolean;
 }
 
-export interface QuizData {
+export type Difficulty = 'easy' | 'medium' | 'hard' | 'expert';
+
+// 'adaptive' picks a level per category from how well the player is doing there
+export type DifficultySetting = Difficulty | 'adaptive';
+
+export type QuizKind = 'choice' | 'truefalse' | 'estimate' | 'order' | 'text';
+
+// 'mixed' picks a random format for every question
+export type QuizKindSetting = QuizKind | 'mixed';
+
+interface QuizBase {
   question: string;
+  explanation: string;
+  // Level the question was written for; absent on content from before difficulty levels
+  difficulty?: Difficulty;
+}
+
+// Multiple choice. Kind is optional because content from before other formats existed omits it.
+export interface ChoiceQuiz extends QuizBase {
+  kind?: 'choice';
   options: string[];
   correctAnswer: string;
-  explanation: string;
+}
+
+export interface TrueFalseQuiz extends QuizBase {
+  kind: 'truefalse';
+  correctAnswer: boolean;
+}
+
+// Numeric estimate ("In welk jaar..."): full marks within tolerance, partial marks for coming close
+export interface EstimateQuiz extends QuizBase {
+  kind: 'estimate';
+  correctAnswer: number;
+  tolerance: number;
+  unit?: string;
+}
+
+// Put the items in order; items holds the correct order and is shuffled for display
+export interface OrderQuiz extends QuizBase {
+  kind: 'order';
+  items: string[];
+}
+
+// Typed answer, matched loosely against the answer and its accepted variants
+export interface TextQuiz extends QuizBase {
+  kind: 'text';
+  correctAnswer: string;
+  acceptedAnswers?: string[];
+}
+
+export type QuizData = ChoiceQuiz | TrueFalseQuiz | EstimateQuiz | OrderQuiz | TextQuiz;
+
+// What the player entered, per question format
+export type QuizAnswer =
+  | { kind: 'choice'; option: string }
+  | { kind: 'truefalse'; value: boolean }
+  | { kind: 'estimate'; value: number }
+  | { kind: 'order'; items: string[] }
+  | { kind: 'text'; text: string };
+
+// The Wikipedia article a fact was written from
+export interface TopicSource {
+  title: string;
+  url: string;
+}
+
+// An article summary that facts and questions can be grounded in
+export interface WikipediaArticle extends TopicSource {
+  extract: string;
+}
+
+export interface WikipediaFetcher {
+  id: string;
+  // A random article for the category, skipping titles the player has already seen; null when none is found
+  fetchArticle: (category: Category, avoidTitles: string[], language: Language) => Promise<WikipediaArticle | null>;
+}
+
+// Outcome of the second pass that checks a fact and its answer against each other
+export interface FactCheck {
+  // 0 to 1: how sure the checker is that fact and answer are right
+  confidence: number;
+  issues: string[];
+  // Confidence too low to present the fact without a warning
+  flagged: boolean;
 }
 
 export interface TopicContent {
   fact: string;
   quiz: QuizData;
+  // Short label of what the fact is about, used to avoid repeating subjects
+  subject?: string;
+  source?: TopicSource;
+  check?: FactCheck;
+}
+
+// A fact the player reported as wrong; it is kept out of play from then on
+export interface DisputedFact {
+  category: Category;
+  fact: string;
+  question: string | null;
+  reason: string;
+  reportedAt: number;
+}
+
+export interface TopicRequestOptions {
+  // Subjects the provider should not write about again
+  avoidSubjects?: string[];
+  // Returns a reason when the content must be rejected (e.g. a near-duplicate), null when it is fine
+  rejectContent?: (content: TopicContent) => string | null;
+  // Level to write the quiz question for
+  difficulty?: Difficulty;
+  // Question format to ask for; providers that cannot write it fall back to multiple choice
+  quizKind?: QuizKind;
+  // Language to write in; providers without content in it fall back to what they have
+  language?: Language;
+}
+
+// One question of a multi-question quiz round; its difficulty lives on the quiz
+export interface QuizRoundQuestion {
+  category: Category;
+  quiz: QuizData;
+}
+
+// One entry of an offline fact pack. Image is a URL or data URL, audio is base64 24kHz PCM like Gemini TTS.
+export interface FactPackEntry extends TopicContent {
+  category: Category;
+  image?: string;
+  audio?: string;
+}
+
+export interface FactPack {
+  format: 'wikiplay-factpack';
+  version: number;
+  id: string;
+  name: string;
+  // Language the facts are written in; packs without one are Dutch
+  language?: Language;
+  facts: FactPackEntry[];
 }
 
 export enum GameState {
@@ -42,4 +214,120 @@ export interface DartCoordinates {
   rotation: number;
 }
 
-export type ScoreBoard = Record<Category, { correct: number; wrong: number }>;
+export type DartZone = 'miss' | 'single' | 'treble' | 'double' | 'bullseye';
+
+// Where a dart landed (board coordinates) and what it hit. Segment and index are null on a miss.
+export interface DartHit<T = Category> {
+  x: number;
+  y: number;
+  zone: DartZone;
+  multiplier: number;
+  index: number | null;
+  segment: T | null;
+}
+
+export interface CategoryScore {
+  correct: number;
+  wrong: number;
+  // Speed- and streak-weighted score, see scoreBoard.ts
+  points: number;
+  // Correct answers in a row in this category, and the best run so far
+  streak: number;
+  bestStreak: number;
+  // Sum and count of measured response times, for the average
+  totalResponseMs: number;
+  measuredAnswers: number;
+}
+
+export type ScoreBoard = Record<Category, CategoryScore>;
+
+// How a quiz question was answered. chosenOption is null when the countdown ran out.
+export interface QuizAnswerResult {
+  isCorrect: boolean;
+  // 1 for a correct answer, 0 for a wrong one, in between for close estimates and partly right orderings
+  accuracy: number;
+  // The answer as text (the option, "Waar", a number...)
+  chosenOption: string | null;
+  // Null when unknown, e.g. for imported history
+  responseTimeMs: number | null;
+  // Countdown in effect for the question, null when untimed
+  timeLimitMs: number | null;
+  timedOut: boolean;
+}
+
+export type ContentProviderId = 'gemini' | 'offline' | 'mock';
+
+// Prebuilt Gemini TTS voices offered for narration
+export type NarrationVoice = 'Fenrir' | 'Kore' | 'Puck' | 'Charon' | 'Aoede';
+
+export interface NarrationSettings {
+  voice: NarrationVoice;
+  // Playback speed, 1 is normal
+  rate: number;
+  // Start reading the fact aloud as soon as its audio is ready
+  autoPlay: boolean;
+}
+
+// A content backend. Text is mandatory, image and audio are optional capabilities:
+// a provider that cannot deliver them simply leaves the method out.
+export interface ContentProvider {
+  id: ContentProviderId;
+  label: string;
+  isAvailable: () => boolean;
+  fetchTopicContent: (category: Category, options?: TopicRequestOptions) => Promise<TopicContent | null>;
+  // Batch of quiz questions for a quiz round; without it rounds are drawn from the fact packs
+  fetchQuizRound?: (categories: Category[], count: number, language?: Language) => Promise<QuizRoundQuestion[] | null>;
+  fetchImage?: (textContext: string) => Promise<string | null>;
+  // Raw 24kHz 16-bit mono PCM, base64 encoded; the voice is a hint providers may ignore
+  fetchAudio?: (text: string, voice?: NarrationVoice) => Promise<string | null>;
+}
+
+export interface QuizAnswerRecord {
+  // Empty when the countdown ran out
+  chosenOption: string;
+  correctAnswer: string;
+  isCorrect: boolean;
+  answeredAt: number;
+  responseTimeMs?: number;
+  timedOut?: boolean;
+  points?: number;
+  // Partial credit for estimates and orderings
+  accuracy?: number;
+}
+
+// A fact as it was shown to the user, plus how they answered its quiz (if they did)
+export interface HistoryEntry {
+  id?: number;
+  timestamp: number;
+  category: Category;
+  fact: string;
+  quiz: QuizData | null;
+  image: string | null;
+  source?: TopicSource;
+  answer?: QuizAnswerRecord;
+  // Reported as wrong by the player; its answer no longer counts
+  disputed?: boolean;
+}
+
+
+export interface Player {
+  id: string;
+  name: string;
+  scores: ScoreBoard;
+}
+
+// 'rounds': most points after a fixed number of rounds wins.
+// 'wedges': collect a correct answer in every category, then answer the final challenge.
+export type GameMode = 'rounds' | 'wedges';
+
+// Local pass-and-play game: players take turns until all rounds are played or someone wins
+export interface GameSession {
+  mode: GameMode;
+  players: Player[];
+  currentPlayerIndex: number;
+  // 1-based; a round ends when every player has had a turn
+  round: number;
+  totalRounds: number;
+  finished: boolean;
+  winnerId: string | null;
+}
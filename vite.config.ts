@@ -12,7 +12,13 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.CONTENT_PROVIDER': JSON.stringify(env.CONTENT_PROVIDER || ''),
+        'process.env.WIKIPEDIA_SOURCE': JSON.stringify(env.WIKIPEDIA_SOURCE || ''),
+        'process.env.PREFETCH_PER_CATEGORY': JSON.stringify(env.PREFETCH_PER_CATEGORY || ''),
+        'process.env.PREFETCH_CONCURRENCY': JSON.stringify(env.PREFETCH_CONCURRENCY || ''),
+        'process.env.PREFETCH_BUDGET': JSON.stringify(env.PREFETCH_BUDGET || ''),
+        'process.env.RADIO_METADATA_PROXY': JSON.stringify(env.RADIO_METADATA_PROXY || '')
       },
       resolve: {
         alias: {